@@ -4,13 +4,14 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { TypeOrmConfigService } from './database/typeorm-config.service';
 import { DataSource, DataSourceOptions } from 'typeorm';
 import appConfig from './config/app.config';
+import wokiConfig from './woki/config/woki.config';
 import { WokiModule } from './woki/woki.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig],
+      load: [appConfig, wokiConfig],
       envFilePath: ['.env'],
     }),
     TypeOrmModule.forRootAsync({
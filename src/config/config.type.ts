@@ -1,5 +1,7 @@
 import { AppConfig } from './app-config.type';
+import { WokiConfig } from '../woki/config/woki-config.type';
 
 export type AllConfigType = {
   app: AppConfig;
+  woki: WokiConfig;
 };
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const AvailabilityCalendarQuerySchema = z.object({
+  restaurantId: z.string().min(1),
+  sectorId: z.string().min(1),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // First service day (inclusive)
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Last service day (inclusive)
+  partySize: z.coerce.number().int().positive(),
+  duration: z.coerce.number().int().positive(),
+});
+
+export type AvailabilityCalendarQuery = z.infer<
+  typeof AvailabilityCalendarQuerySchema
+>;
+
+export interface AvailabilityCalendarResponse {
+  slotMinutes: number;
+  durationMinutes: number;
+  days: AvailabilityCalendarDay[];
+}
+
+export interface AvailabilityCalendarDay {
+  date: string; // YYYY-MM-DD (service day)
+  available: boolean;
+  slots: number; // Distinct bookable start times on the restaurant's slot grid
+  earliestStart: string | null; // ISO 8601
+  latestStart: string | null; // ISO 8601
+}
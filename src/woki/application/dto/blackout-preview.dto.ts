@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { BookingStatus } from '../../domain/types/booking-status.enum';
+import {
+  BlackoutRecurrenceResponse,
+  CreateBlackoutSchema,
+  RelocatedBooking,
+} from './create-blackout.dto';
+
+// Same body as creating the blackout; nothing is persisted
+export const PreviewBlackoutSchema = CreateBlackoutSchema;
+
+export type PreviewBlackoutRequest = z.infer<typeof PreviewBlackoutSchema>;
+
+export interface BlackoutPreviewResponse {
+  restaurantId: string;
+  sectorId: string | null; // null = restaurant-wide
+  tableIds: string[];
+  start: string; // ISO 8601 (first occurrence, for recurring blackouts)
+  end: string; // ISO 8601
+  recurrence: BlackoutRecurrenceResponse | null;
+  cancelledBookings: AffectedBooking[];
+  relocatedBookings: RelocatedBooking[]; // Empty unless mode=relocate
+  coversLost: number; // Guests of the bookings that would be cancelled
+  capacityBySlot: SlotCapacityLoss[]; // First occurrence only
+}
+
+export interface AffectedBooking {
+  id: string;
+  sectorId: string;
+  tableIds: string[];
+  partySize: number;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  status: BookingStatus;
+}
+
+/**
+ * Capacity the blackout takes out of one 15-minute slot.
+ */
+export interface SlotCapacityLoss {
+  start: string; // ISO 8601
+  tableIds: string[]; // Tables not already blacked out in the slot
+  seats: number; // Sum of their maxSize
+}
@@ -0,0 +1,12 @@
+import { AlternativeReason } from '../../domain/types/alternative-reason.enum';
+
+export interface BookingAlternative {
+  reason: AlternativeReason;
+  kind: 'single' | 'combo';
+  sectorId: string;
+  tableIds: string[];
+  start: string; // ISO 8601
+  end: string; // ISO 8601 (start + durationMinutes)
+  durationMinutes: number;
+  distanceMinutes: number; // How far from the request (minutes moved or shortened)
+}
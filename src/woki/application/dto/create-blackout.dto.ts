@@ -1,29 +1,71 @@
 import { z } from 'zod';
 import { BlackoutReason } from '../../domain/types/blackout-reason.enum';
+import {
+  BlackoutRecurrence,
+  RecurrenceFrequency,
+} from '../../domain/types/blackout-recurrence.type';
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/); // YYYY-MM-DD format
+
+export const BlackoutRecurrenceSchema = z
+  .object({
+    frequency: z.nativeEnum(RecurrenceFrequency),
+    interval: z.number().int().positive().default(1), // Every N days, weeks or months
+    byWeekday: z.array(z.number().int().min(0).max(6)).min(1).optional(), // Weekly only: 0 = Sunday
+    until: DateSchema.optional(), // Last day an occurrence may start (inclusive)
+    count: z.number().int().positive().optional(), // Occurrences in the series
+    exceptions: z.array(DateSchema).default([]), // Days whose occurrence is skipped
+  })
+  .refine((rule) => !(rule.until && rule.count), {
+    message: 'Provide until or count, not both',
+  })
+  .refine(
+    (rule) => !rule.byWeekday || rule.frequency === RecurrenceFrequency.WEEKLY,
+    { message: 'byWeekday is only supported for weekly recurrence' },
+  );
 
 export const CreateBlackoutSchema = z.object({
   restaurantId: z.string(),
-  sectorId: z.string().optional(), // If provided, can blackout whole sector
+  sectorId: z.string().optional(), // If provided, can blackout whole sector; omitted = whole restaurant
   tableIds: z.array(z.string()).optional(), // If empty and sectorId provided = whole sector
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD format
+  date: DateSchema, // First (or only) day of the blackout
+  endDate: DateSchema.optional(), // Day endTime falls on, for multi-day blackouts (default: date)
   startTime: z.string().regex(/^\d{2}:\d{2}$/), // HH:mm format in restaurant timezone
   endTime: z.string().regex(/^\d{2}:\d{2}$/), // HH:mm format in restaurant timezone
   reason: z.nativeEnum(BlackoutReason),
   notes: z.string().optional(),
+  mode: z.enum(['cancel', 'relocate']).optional(), // Default cancel; relocate = move affected bookings to free tables first
+  recurrence: BlackoutRecurrenceSchema.optional(), // Repeat the blackout; omitted = one-off
 });
 
 export type CreateBlackoutRequest = z.infer<typeof CreateBlackoutSchema>;
 
+// Recurrence as returned by the API (the timezone is the restaurant's)
+export type BlackoutRecurrenceResponse = Omit<BlackoutRecurrence, 'timezone'>;
+
 export interface CreateBlackoutResponse {
   id: string;
   restaurantId: string;
   sectorId: string | null;
   tableIds: string[];
-  start: string;
+  start: string; // First occurrence, for recurring blackouts
   end: string;
+  recurrence: BlackoutRecurrenceResponse | null;
   reason: BlackoutReason;
   notes: string | null;
   createdAt: string;
   updatedAt: string;
   cancelledBookingIds: string[];
+  relocatedBookings: RelocatedBooking[]; // Empty unless mode=relocate
+}
+
+/**
+ * Booking moved off the blacked-out tables (same start and end).
+ */
+export interface RelocatedBooking {
+  bookingId: string;
+  fromSectorId: string;
+  fromTableIds: string[];
+  sectorId: string;
+  tableIds: string[];
 }
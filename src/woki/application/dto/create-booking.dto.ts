@@ -1,10 +1,14 @@
 import { z } from 'zod';
+import { GuestSchema, GuestResponse } from './guest.dto';
+import { SelectionStrategyName } from '../../domain/types/selection-strategy.type';
+import { SelectionExplanation } from './selection-explanation.dto';
+import { TableAttributesSchema } from './update-table.dto';
 
 export const CreateBookingSchema = z.object({
   restaurantId: z.string().min(1),
-  sectorId: z.string().min(1),
+  sectorId: z.string().min(1).optional(), // Omit to book in any sector
   partySize: z.number().int().positive(),
-  durationMinutes: z.number().int().positive(),
+  durationMinutes: z.number().int().positive().optional(), // Omit to use the restaurant's duration rules
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   windowStart: z
     .string()
@@ -14,6 +18,14 @@ export const CreateBookingSchema = z.object({
     .string()
     .regex(/^\d{2}:\d{2}$/)
     .optional(),
+  preferredTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(), // Rank starts by distance from this time instead of earliest first
+  requiredAttributes: TableAttributesSchema.optional(), // Only tables with all of these (every table of a combo)
+  preferredAttributes: TableAttributesSchema.optional(), // Candidates matching more of these win
+  guest: GuestSchema.optional(),
+  strategy: z.nativeEnum(SelectionStrategyName).optional(), // Overrides the restaurant's selection strategy
 });
 
 export type CreateBookingRequest = z.infer<typeof CreateBookingSchema>;
@@ -28,6 +40,14 @@ export interface CreateBookingResponse {
   end: string; // ISO 8601
   durationMinutes: number;
   status: string;
+  guest: GuestResponse | null;
+  arrivedAt: string | null; // ISO 8601
+  seatedAt: string | null; // ISO 8601
+  completedAt: string | null; // ISO 8601
+  noShowAt: string | null; // ISO 8601
+  cancelledAt: string | null; // ISO 8601
+  holdExpiresAt: string | null; // ISO 8601
   createdAt: string; // ISO 8601
   updatedAt: string; // ISO 8601
+  explanation?: SelectionExplanation; // Only with explain=true
 }
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import {
+  CreateBookingSchema,
+  CreateBookingResponse,
+} from './create-booking.dto';
+import { GuestSchema } from './guest.dto';
+
+// Same slot request as a booking; the guest can also be attached on confirm
+export const CreateHoldSchema = CreateBookingSchema;
+
+export type CreateHoldRequest = z.infer<typeof CreateHoldSchema>;
+
+export type CreateHoldResponse = CreateBookingResponse;
+
+export const ConfirmHoldSchema = z.object({
+  guest: GuestSchema.optional(),
+});
+
+export type ConfirmHoldRequest = z.infer<typeof ConfirmHoldSchema>;
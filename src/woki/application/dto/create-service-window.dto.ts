@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const CreateServiceWindowSchema = z.object({
+  restaurantId: z.string().min(1),
+  start: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(), // HH:mm format in restaurant timezone
+  end: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(), // HH:mm format in restaurant timezone
+  dayOfWeek: z.number().int().min(0).max(6).optional(), // 0 = Sunday; omit for every day
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(), // YYYY-MM-DD override (holidays, special hours)
+  closed: z.boolean().optional(), // Only with date: closed all day
+});
+
+export type CreateServiceWindowRequest = z.infer<
+  typeof CreateServiceWindowSchema
+>;
+
+export interface ServiceWindowResponse {
+  id: string;
+  restaurantId: string;
+  start: string | null; // HH:mm
+  end: string | null; // HH:mm
+  dayOfWeek: number | null;
+  date: string | null; // YYYY-MM-DD
+  closed: boolean;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const DeleteBlackoutQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(), // Recurring only: delete the occurrence on this day instead of the series
+});
+
+export type DeleteBlackoutQuery = z.infer<typeof DeleteBlackoutQuerySchema>;
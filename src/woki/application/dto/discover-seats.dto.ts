@@ -1,11 +1,31 @@
 import { z } from 'zod';
+import { SelectionStrategyName } from '../../domain/types/selection-strategy.type';
+import { SelectionExplanation } from './selection-explanation.dto';
+import { TableAttributesSchema } from './update-table.dto';
+
+/**
+ * `explain=true` query flag: include every candidate, its scores and rejected tables.
+ */
+export const ExplainFlagSchema = z
+  .enum(['true', 'false'])
+  .optional()
+  .transform((value) => value === 'true');
+
+/**
+ * Comma-separated table attributes query parameter (e.g. `outdoor,quiet`).
+ */
+const AttributeListSchema = z
+  .string()
+  .transform((value) => value.split(','))
+  .pipe(TableAttributesSchema)
+  .optional();
 
 export const DiscoverSeatsQuerySchema = z.object({
   restaurantId: z.string().min(1),
-  sectorId: z.string().min(1),
+  sectorId: z.string().min(1).optional(), // Omit to search every sector
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   partySize: z.coerce.number().int().positive(),
-  duration: z.coerce.number().int().positive(),
+  duration: z.coerce.number().int().positive().optional(), // Omit to use the restaurant's duration rules
   windowStart: z
     .string()
     .regex(/^\d{2}:\d{2}$/)
@@ -14,7 +34,17 @@ export const DiscoverSeatsQuerySchema = z.object({
     .string()
     .regex(/^\d{2}:\d{2}$/)
     .optional(),
-  limit: z.coerce.number().int().positive().optional(),
+  preferredTime: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(), // Rank starts by distance from this time instead of earliest first
+  requiredAttributes: AttributeListSchema, // Only tables with all of these (every table of a combo)
+  preferredAttributes: AttributeListSchema, // Candidates matching more of these rank first
+  limit: z.coerce.number().int().positive().optional(), // Page size with mode=slots
+  mode: z.enum(['gaps', 'slots']).default('gaps'), // slots = one candidate per bookable start
+  cursor: z.string().min(1).optional(), // nextCursor of the previous page (mode=slots)
+  strategy: z.nativeEnum(SelectionStrategyName).optional(), // Candidate order; defaults to the restaurant's strategy
+  explain: ExplainFlagSchema,
 });
 
 export type DiscoverSeatsQuery = z.infer<typeof DiscoverSeatsQuerySchema>;
@@ -23,11 +53,14 @@ export interface DiscoverSeatsResponse {
   slotMinutes: number;
   durationMinutes: number;
   candidates: Candidate[];
+  nextCursor?: string | null; // Only with mode=slots; null on the last page
+  explanation?: SelectionExplanation; // Only with explain=true
 }
 
 export interface Candidate {
   kind: 'single' | 'combo';
+  sectorId: string;
   tableIds: string[];
   start: string; // ISO 8601
-  end: string; // ISO 8601
+  end: string; // ISO 8601 (gap end, or start + duration with mode=slots)
 }
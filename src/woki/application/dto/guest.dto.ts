@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+export const GuestSchema = z
+  .object({
+    name: z.string().min(1),
+    phone: z.string().min(1).optional(),
+    email: z.string().email().optional(),
+    notes: z.string().optional(),
+    dietaryTags: z.array(z.string().min(1)).optional(),
+  })
+  .refine((guest) => guest.phone || guest.email, {
+    message: 'Either phone or email must be provided',
+  });
+
+export type GuestRequest = z.infer<typeof GuestSchema>;
+
+export interface GuestResponse {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  dietaryTags: string[];
+}
+
+export interface GuestHistoryResponse extends GuestResponse {
+  restaurantId: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  bookings: GuestBookingItem[];
+}
+
+export interface GuestBookingItem {
+  id: string;
+  sectorId: string;
+  tableIds: string[];
+  partySize: number;
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  status: string;
+}
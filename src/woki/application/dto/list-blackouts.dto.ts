@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { BlackoutRecurrenceResponse } from './create-blackout.dto';
 
 export const ListBlackoutsQuerySchema = z.object({
   restaurantId: z.string(),
@@ -14,8 +15,9 @@ export interface ListBlackoutsResponse {
     id: string;
     sectorId: string | null;
     tableIds: string[];
-    start: string;
+    start: string; // This day's occurrence, for recurring blackouts
     end: string;
+    recurrence: BlackoutRecurrenceResponse | null;
     reason: string;
     notes: string | null;
   }>;
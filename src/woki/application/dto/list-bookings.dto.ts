@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { GuestResponse } from './guest.dto';
 
 export const ListBookingsQuerySchema = z.object({
   restaurantId: z.string().min(1),
@@ -20,4 +21,9 @@ export interface BookingItem {
   start: string; // ISO 8601
   end: string; // ISO 8601
   status: string;
+  guest: GuestResponse | null;
+  arrivedAt: string | null; // ISO 8601
+  seatedAt: string | null; // ISO 8601
+  completedAt: string | null; // ISO 8601
+  noShowAt: string | null; // ISO 8601
 }
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { ServiceWindowResponse } from './create-service-window.dto';
+
+export const ListServiceWindowsQuerySchema = z.object({
+  restaurantId: z.string(),
+});
+
+export type ListServiceWindowsQuery = z.infer<
+  typeof ListServiceWindowsQuerySchema
+>;
+
+export interface ListServiceWindowsResponse {
+  items: ServiceWindowResponse[];
+}
@@ -0,0 +1,22 @@
+import { Candidate } from './discover-seats.dto';
+import {
+  CandidateScores,
+  SelectionStrategyName,
+} from '../../domain/types/selection-strategy.type';
+import { TableRejectionReason } from '../../domain/types/table-rejection-reason.enum';
+
+export interface SelectionExplanation {
+  strategy: SelectionStrategyName; // Strategy that ranked the candidates
+  candidates: ExplainedCandidate[]; // Every candidate considered, best first (ignores `limit`)
+  rejectedTables: RejectedTable[]; // Tables that are part of no candidate
+}
+
+export interface ExplainedCandidate extends Candidate {
+  rank: number; // 1 = selected
+  scores: CandidateScores;
+}
+
+export interface RejectedTable {
+  tableId: string;
+  reasons: TableRejectionReason[];
+}
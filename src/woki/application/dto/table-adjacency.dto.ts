@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+export const CreateTableAdjacencySchema = z.object({
+  sectorId: z.string().min(1),
+  tableIds: z.array(z.string().min(1)).length(2), // The two tables that can be joined
+});
+
+export type CreateTableAdjacencyRequest = z.infer<
+  typeof CreateTableAdjacencySchema
+>;
+
+export const ListTableAdjacenciesQuerySchema = z.object({
+  sectorId: z.string(),
+});
+
+export type ListTableAdjacenciesQuery = z.infer<
+  typeof ListTableAdjacenciesQuerySchema
+>;
+
+export interface TableAdjacencyResponse {
+  id: string;
+  restaurantId: string;
+  sectorId: string;
+  tableIds: [string, string]; // Sorted
+  createdAt: string; // ISO 8601
+}
+
+export interface ListTableAdjacenciesResponse {
+  sectorId: string;
+  items: TableAdjacencyResponse[];
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { BlackoutReason } from '../../domain/types/blackout-reason.enum';
+import { CreateBlackoutResponse } from './create-blackout.dto';
+
+// Omitted fields keep their current value; times are in the restaurant timezone
+export const UpdateBlackoutSchema = z
+  .object({
+    sectorId: z.string().nullable().optional(), // null = whole restaurant
+    tableIds: z.array(z.string()).optional(), // Empty = whole sector (or restaurant)
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional(), // Moves the blackout; endDate follows unless given
+    endDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional(),
+    startTime: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/)
+      .optional(),
+    endTime: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/)
+      .optional(),
+    reason: z.nativeEnum(BlackoutReason).optional(),
+    notes: z.string().nullable().optional(),
+    mode: z.enum(['cancel', 'relocate']).optional(), // For bookings that now overlap
+  })
+  .refine(
+    (body) =>
+      Object.entries(body).some(
+        ([key, value]) => key !== 'mode' && value !== undefined,
+      ),
+    { message: 'At least one field must be provided' },
+  );
+
+export type UpdateBlackoutRequest = z.infer<typeof UpdateBlackoutSchema>;
+
+export interface UpdateBlackoutResponse extends CreateBlackoutResponse {
+  restoredBookingIds: string[]; // Bookings this blackout had cancelled that no longer conflict
+}
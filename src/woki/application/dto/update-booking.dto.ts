@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { CreateBookingResponse } from './create-booking.dto';
+
+export const UpdateBookingSchema = z
+  .object({
+    partySize: z.number().int().positive().optional(),
+    durationMinutes: z.number().int().positive().optional(),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional(),
+    windowStart: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/)
+      .optional(),
+    windowEnd: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/)
+      .optional(),
+  })
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateBookingRequest = z.infer<typeof UpdateBookingSchema>;
+
+export type UpdateBookingResponse = CreateBookingResponse;
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { SelectionStrategyName } from '../../domain/types/selection-strategy.type';
+import { DurationRule } from '../../domain/types/duration-rule.type';
+import { PacingLimit } from '../../domain/types/pacing-limit.type';
+import { SLOT_MINUTE_OPTIONS } from '../../domain/utils/slot-grid.util';
+
+/**
+ * Cleanup time kept free before and after bookings (whole slots of the restaurant's
+ * grid, checked by the services that know the restaurant).
+ */
+export const BufferMinutesSchema = z.number().int().min(0);
+
+/**
+ * Most new arrivals per slot; omitted or null limits are unlimited.
+ */
+export const PacingLimitSchema = z
+  .object({
+    maxCovers: z.number().int().positive().nullable().optional(),
+    maxParties: z.number().int().positive().nullable().optional(),
+  })
+  .transform((limit) => ({
+    maxCovers: limit.maxCovers ?? null,
+    maxParties: limit.maxParties ?? null,
+  }));
+
+const DurationRuleSchema = z
+  .object({
+    minPartySize: z.number().int().positive(),
+    maxPartySize: z.number().int().positive().nullable().optional(), // Omit for no upper bound
+    serviceWindowId: z.string().min(1).nullable().optional(), // Omit for every service window
+    durationMinutes: z.number().int().positive(), // Whole slots of the restaurant's grid
+  })
+  .refine(
+    (rule) =>
+      rule.maxPartySize == null || rule.maxPartySize >= rule.minPartySize,
+    { message: 'maxPartySize must not be below minPartySize' },
+  );
+
+export const UpdateRestaurantSchema = z
+  .object({
+    slotMinutes: z
+      .number()
+      .int()
+      .refine((minutes) => SLOT_MINUTE_OPTIONS.includes(minutes), {
+        message: `Slot length must be one of ${SLOT_MINUTE_OPTIONS.join(', ')} minutes`,
+      })
+      .optional(), // Grid for start times and durations
+    selectionStrategy: z
+      .nativeEnum(SelectionStrategyName)
+      .nullable()
+      .optional(), // null = configured default
+    sectorPreference: z.array(z.string().min(1)).nullable().optional(), // Sector IDs, most preferred first
+    durationRules: z.array(DurationRuleSchema).nullable().optional(), // Turn times used when a request omits the duration
+    bufferMinutes: BufferMinutesSchema.optional(), // Cleanup time around each booking (0 = none)
+    pacing: PacingLimitSchema.nullable().optional(), // Arrivals per 15-minute window across all sectors
+  })
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateRestaurantRequest = z.infer<typeof UpdateRestaurantSchema>;
+
+export interface RestaurantResponse {
+  id: string;
+  name: string;
+  timezone: string;
+  slotMinutes: number;
+  selectionStrategy: string | null;
+  sectorPreference: string[] | null;
+  durationRules: DurationRule[] | null;
+  bufferMinutes: number;
+  pacing: PacingLimit | null;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { PacingLimitSchema } from './update-restaurant.dto';
+import { PacingLimit } from '../../domain/types/pacing-limit.type';
+
+export const UpdateSectorSchema = z
+  .object({
+    pacing: PacingLimitSchema.nullable().optional(), // Arrivals per 15-minute window in this sector
+  })
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateSectorRequest = z.infer<typeof UpdateSectorSchema>;
+
+export interface SectorResponse {
+  id: string;
+  restaurantId: string;
+  name: string;
+  pacing: PacingLimit | null;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ServiceWindowResponse } from './create-service-window.dto';
+
+export const UpdateServiceWindowSchema = z
+  .object({
+    start: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/)
+      .nullable()
+      .optional(),
+    end: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/)
+      .nullable()
+      .optional(),
+    dayOfWeek: z.number().int().min(0).max(6).nullable().optional(), // null = every day
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .nullable()
+      .optional(), // null = back to a weekly row
+    closed: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateServiceWindowRequest = z.infer<
+  typeof UpdateServiceWindowSchema
+>;
+
+export type UpdateServiceWindowResponse = ServiceWindowResponse;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { BufferMinutesSchema } from './update-restaurant.dto';
+import { TableAttribute } from '../../domain/types/table-attribute.enum';
+
+// Seating features, listed once each
+export const TableAttributesSchema = z
+  .array(z.nativeEnum(TableAttribute))
+  .refine((attributes) => new Set(attributes).size === attributes.length, {
+    message: 'Attributes must be unique',
+  });
+
+export const UpdateTableSchema = z
+  .object({
+    bufferMinutes: BufferMinutesSchema.nullable().optional(), // null = restaurant's buffer
+    attributes: TableAttributesSchema.optional(), // Replaces the table's attributes ([] = none)
+  })
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type UpdateTableRequest = z.infer<typeof UpdateTableSchema>;
+
+export interface TableResponse {
+  id: string;
+  sectorId: string;
+  name: string;
+  minSize: number;
+  maxSize: number;
+  bufferMinutes: number | null;
+  attributes: TableAttribute[];
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { GuestSchema, GuestResponse } from './guest.dto';
+
+export const JoinWaitlistSchema = z.object({
+  restaurantId: z.string().min(1),
+  sectorId: z.string().min(1),
+  partySize: z.number().int().positive(),
+  durationMinutes: z.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  windowStart: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(),
+  windowEnd: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/)
+    .optional(),
+  guest: GuestSchema.optional(),
+});
+
+export type JoinWaitlistRequest = z.infer<typeof JoinWaitlistSchema>;
+
+export interface WaitlistOffer {
+  bookingId: string;
+  tableIds: string[];
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  expiresAt: string | null; // ISO 8601
+}
+
+export interface WaitlistEntryResponse {
+  id: string;
+  restaurantId: string;
+  sectorId: string;
+  date: string; // YYYY-MM-DD
+  windowStart: string | null; // HH:mm
+  windowEnd: string | null; // HH:mm
+  partySize: number;
+  durationMinutes: number;
+  status: string;
+  guest: GuestResponse | null;
+  offer: WaitlistOffer | null;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
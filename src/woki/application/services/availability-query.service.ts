@@ -0,0 +1,253 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+} from '@nestjs/common';
+import { parseISO, differenceInCalendarDays } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
+import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
+import { BlackoutRepository as IBlackoutRepository } from '../../ports/repositories/blackout.repository.interface';
+import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { TableAdjacencyRepository as ITableAdjacencyRepository } from '../../ports/repositories/table-adjacency.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  SECTOR_REPOSITORY,
+  TABLE_REPOSITORY,
+  BOOKING_REPOSITORY,
+  BLACKOUT_REPOSITORY,
+  SERVICE_WINDOW_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
+} from '../../tokens';
+import { ComboCandidate } from '../../domain/types/combo-candidate.type';
+import { TimeInterval } from '../../domain/types/time-interval.type';
+import { getServiceDayInterval } from '../../domain/utils/service-day.util';
+import {
+  AvailabilityCalendarDay,
+  AvailabilityCalendarQuery,
+  AvailabilityCalendarResponse,
+} from '../dto/availability-calendar.dto';
+import { PacingService } from '../../domain/services/pacing.service';
+import { validateSlotGrid } from '../utils/window-validation.util';
+import { BookingQueryService } from './booking-query.service';
+
+@Injectable()
+export class AvailabilityQueryService {
+  // Longest range a single calendar request may cover (about two months)
+  private readonly MAX_CALENDAR_DAYS = 62;
+
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(TABLE_REPOSITORY)
+    private readonly tableRepository: ITableRepository,
+    @Inject(BOOKING_REPOSITORY)
+    private readonly bookingRepository: IBookingRepository,
+    @Inject(BLACKOUT_REPOSITORY)
+    private readonly blackoutRepository: IBlackoutRepository,
+    @Inject(SERVICE_WINDOW_REPOSITORY)
+    private readonly serviceWindowRepository: IServiceWindowRepository,
+    @Inject(TABLE_ADJACENCY_REPOSITORY)
+    private readonly tableAdjacencyRepository: ITableAdjacencyRepository,
+    private readonly bookingQueryService: BookingQueryService,
+    private readonly pacingService: PacingService,
+  ) {}
+
+  /**
+   * Per-day availability for a date range (month views).
+   * Bookings and blackouts for the whole range are loaded once, then each service
+   * day runs the same candidate search as discover.
+   */
+  async getCalendar(
+    query: AvailabilityCalendarQuery,
+  ): Promise<AvailabilityCalendarResponse> {
+    const from = parseISO(query.from);
+    const to = parseISO(query.to);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'Invalid date format',
+      });
+    }
+
+    const dayCount = differenceInCalendarDays(to, from) + 1;
+    if (dayCount < 1) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'from must not be after to',
+      });
+    }
+    if (dayCount > this.MAX_CALENDAR_DAYS) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: `Date range cannot exceed ${this.MAX_CALENDAR_DAYS} days`,
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      query.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    validateSlotGrid(restaurant.slotMinutes, {
+      durationMinutes: query.duration,
+    });
+
+    const sector = await this.sectorRepository.findById(query.sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    if (sector.restaurantId !== restaurant.id) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found in restaurant',
+      });
+    }
+
+    const tables = await this.tableRepository.findBySectorId(sector.id);
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+    const adjacencies = await this.tableAdjacencyRepository.findBySectorId(
+      sector.id,
+    );
+
+    const dates = Array.from({ length: dayCount }, (_, i) =>
+      this.shiftDays(query.from, i),
+    );
+    const serviceDays = dates.map((date) =>
+      getServiceDayInterval(
+        serviceWindows,
+        parseISO(date),
+        restaurant.timezone,
+      ),
+    );
+
+    // One query each for the whole range (first service day start to last service day end)
+    const range: TimeInterval = {
+      start: serviceDays[0].start,
+      end: serviceDays[serviceDays.length - 1].end,
+    };
+    const bookings = await this.bookingRepository.findByInterval(
+      restaurant.id,
+      sector.id,
+      range,
+    );
+    const blackouts = await this.blackoutRepository.findByInterval(
+      restaurant.id,
+      sector.id,
+      range,
+    );
+
+    const pacingScopes = await this.bookingQueryService.loadPacingScopes(
+      restaurant,
+      sector.id,
+      bookings,
+      range,
+    );
+
+    const overlaps = (item: TimeInterval, day: TimeInterval) =>
+      item.start < day.end && item.end > day.start;
+
+    const days = dates.map((date, i) => {
+      const candidates = this.pacingService.applyPacing(
+        this.bookingQueryService.findCandidates(
+          tables,
+          bookings.filter((b) => overlaps(b, serviceDays[i])),
+          blackouts.filter((bl) => overlaps(bl, serviceDays[i])),
+          sector.id,
+          parseISO(date),
+          query.duration,
+          query.partySize,
+          restaurant,
+          serviceWindows,
+          adjacencies,
+        ),
+        query.duration,
+        query.partySize,
+        pacingScopes,
+        restaurant,
+      );
+
+      return this.summarizeDay(
+        date,
+        candidates,
+        query.duration,
+        restaurant.slotMinutes,
+        restaurant.timezone,
+      );
+    });
+
+    return {
+      slotMinutes: restaurant.slotMinutes,
+      durationMinutes: query.duration,
+      days,
+    };
+  }
+
+  /**
+   * Count distinct start times on the slot grid at which some candidate fits.
+   */
+  private summarizeDay(
+    date: string,
+    candidates: ComboCandidate[],
+    durationMinutes: number,
+    slotMinutes: number,
+    timezone: string,
+  ): AvailabilityCalendarDay {
+    const slotMs = slotMinutes * 60 * 1000;
+    const durationMs = durationMinutes * 60 * 1000;
+
+    const starts = new Set<number>();
+    for (const candidate of candidates) {
+      const gapEnd = candidate.interval.end.getTime();
+      for (
+        let start = candidate.interval.start.getTime();
+        start + durationMs <= gapEnd;
+        start += slotMs
+      ) {
+        starts.add(start);
+      }
+    }
+
+    if (starts.size === 0) {
+      return {
+        date,
+        available: false,
+        slots: 0,
+        earliestStart: null,
+        latestStart: null,
+      };
+    }
+
+    const formatDateInTimezone = (instant: number) =>
+      formatInTimeZone(instant, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return {
+      date,
+      available: true,
+      slots: starts.size,
+      earliestStart: formatDateInTimezone(Math.min(...starts)),
+      latestStart: formatDateInTimezone(Math.max(...starts)),
+    };
+  }
+
+  private shiftDays(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+  }
+}
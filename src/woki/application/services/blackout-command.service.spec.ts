@@ -1,5 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { BlackoutCommandService } from './blackout-command.service';
 import { RestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
 import { SectorRepository } from '../../ports/repositories/sector.repository.interface';
@@ -12,9 +16,17 @@ import {
   TABLE_REPOSITORY,
   BLACKOUT_REPOSITORY,
   BOOKING_REPOSITORY,
+  SERVICE_WINDOW_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
 } from '../../tokens';
 import { BlackoutReason } from '../../domain/types/blackout-reason.enum';
+import { RecurrenceFrequency } from '../../domain/types/blackout-recurrence.type';
 import { BookingStatus } from '../../domain/types/booking-status.enum';
+import { CapacityEventsService } from '../../infrastructure/events/capacity-events.service';
+import { BookingQueryService } from './booking-query.service';
+import { WokiBrainSelectorService } from '../../domain/services/wokibrain-selector.service';
+import { BookingLifecycleService } from '../../domain/services/booking-lifecycle.service';
+import { SlotLockService } from './slot-lock.service';
 
 describe('BlackoutCommandService', () => {
   let service: BlackoutCommandService;
@@ -23,6 +35,9 @@ describe('BlackoutCommandService', () => {
   let tableRepository: jest.Mocked<TableRepository>;
   let blackoutRepository: jest.Mocked<BlackoutRepository>;
   let bookingRepository: jest.Mocked<BookingRepository>;
+  let capacityEventsService: jest.Mocked<CapacityEventsService>;
+  let bookingQueryService: jest.Mocked<BookingQueryService>;
+  let slotLockService: jest.Mocked<SlotLockService>;
 
   beforeEach(async () => {
     const mockRestaurantRepository = {
@@ -31,6 +46,7 @@ describe('BlackoutCommandService', () => {
 
     const mockSectorRepository = {
       findById: jest.fn(),
+      findByRestaurantId: jest.fn(),
     };
 
     const mockTableRepository = {
@@ -40,6 +56,8 @@ describe('BlackoutCommandService', () => {
     const mockBlackoutRepository = {
       findById: jest.fn(),
       findByDate: jest.fn(),
+      findByInterval: jest.fn(),
+      findByRestaurantAndInterval: jest.fn(),
       findByTableIdsAndDate: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
@@ -49,12 +67,37 @@ describe('BlackoutCommandService', () => {
     const mockBookingRepository = {
       findById: jest.fn(),
       findByDate: jest.fn(),
+      findByInterval: jest.fn(),
       findByTableIdsAndDate: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
     };
 
+    const mockCapacityEventsService = {
+      onCapacityReleased: jest.fn(),
+      capacityReleased: jest.fn(),
+    };
+
+    const mockBookingQueryService = {
+      resolveSectors: jest.fn(),
+      loadOccupancy: jest.fn(),
+      findCandidates: jest.fn(),
+    };
+
+    // Picks the first candidate (ranking is covered by the selector's own tests)
+    const mockWokiBrainSelectorService = {
+      selectBestCandidate: jest.fn(
+        (candidates: unknown[]) => candidates[0] ?? null,
+      ),
+    };
+
+    // Every slot is still free unless a test says otherwise
+    const mockSlotLockService = {
+      lockSlot: jest.fn().mockResolvedValue([]),
+      releaseLocks: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         BlackoutCommandService,
@@ -78,6 +121,31 @@ describe('BlackoutCommandService', () => {
           provide: BOOKING_REPOSITORY,
           useValue: mockBookingRepository,
         },
+        {
+          provide: SERVICE_WINDOW_REPOSITORY,
+          useValue: { findByRestaurantId: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: TABLE_ADJACENCY_REPOSITORY,
+          useValue: { findBySectorId: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: BookingQueryService,
+          useValue: mockBookingQueryService,
+        },
+        {
+          provide: WokiBrainSelectorService,
+          useValue: mockWokiBrainSelectorService,
+        },
+        BookingLifecycleService,
+        {
+          provide: SlotLockService,
+          useValue: mockSlotLockService,
+        },
+        {
+          provide: CapacityEventsService,
+          useValue: mockCapacityEventsService,
+        },
       ],
     }).compile();
 
@@ -87,6 +155,9 @@ describe('BlackoutCommandService', () => {
     tableRepository = module.get(TABLE_REPOSITORY);
     blackoutRepository = module.get(BLACKOUT_REPOSITORY);
     bookingRepository = module.get(BOOKING_REPOSITORY);
+    capacityEventsService = module.get(CapacityEventsService);
+    bookingQueryService = module.get(BookingQueryService);
+    slotLockService = module.get(SlotLockService);
   });
 
   it('should be defined', () => {
@@ -304,7 +375,7 @@ describe('BlackoutCommandService', () => {
       );
     });
 
-    it('should throw BadRequestException if neither sectorId nor tableIds provided', async () => {
+    it('should create a restaurant-wide blackout if neither sectorId nor tableIds provided', async () => {
       const request = {
         restaurantId: 'R1',
         // sectorId and tableIds both missing
@@ -314,9 +385,66 @@ describe('BlackoutCommandService', () => {
         reason: BlackoutReason.MAINTENANCE,
       };
 
-      await expect(service.createBlackout(request)).rejects.toThrow(
-        BadRequestException,
+      sectorRepository.findByRestaurantId.mockResolvedValue([
+        mockSector,
+        { id: 'S2', restaurantId: 'R1', name: 'Terrace' },
+      ] as any);
+      bookingRepository.findByDate.mockImplementation((_, sectorId) =>
+        Promise.resolve([
+          {
+            id: `BK_${sectorId}`,
+            sectorId,
+            tableIds: ['T9'],
+            start: new Date('2025-10-22T23:30:00Z'), // 20:30 local time
+            end: new Date('2025-10-23T00:30:00Z'),
+            status: BookingStatus.CONFIRMED,
+          } as any,
+        ]),
       );
+      blackoutRepository.create.mockImplementation((b) => Promise.resolve(b));
+
+      const result = await service.createBlackout(request);
+
+      expect(result.sectorId).toBeNull();
+      expect(result.tableIds).toEqual([]);
+      expect(result.cancelledBookingIds).toEqual(['BK_S1', 'BK_S2']);
+    });
+
+    it('should cancel bookings on every day of a multi-day blackout', async () => {
+      const request = {
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        date: '2025-10-22',
+        endDate: '2025-10-24',
+        startTime: '12:00',
+        endTime: '16:00',
+        reason: BlackoutReason.MAINTENANCE,
+      };
+
+      // One booking per day; the blackout runs continuously from the 22nd to the 24th
+      bookingRepository.findByDate.mockImplementation((_, __, date) => {
+        const start = new Date(date);
+        start.setUTCHours(23, 0, 0, 0);
+        return Promise.resolve([
+          {
+            id: `BK_${start.getUTCDate()}`,
+            sectorId: 'S1',
+            tableIds: ['T1'],
+            start,
+            end: new Date(start.getTime() + 60 * 60 * 1000),
+            status: BookingStatus.CONFIRMED,
+          } as any,
+        ]);
+      });
+      blackoutRepository.create.mockImplementation((b) => Promise.resolve(b));
+
+      const result = await service.createBlackout(request);
+
+      expect(result.start).toBe('2025-10-22T12:00:00-03:00');
+      expect(result.end).toBe('2025-10-24T16:00:00-03:00');
+      // 20:00 local on the 22nd and 23rd; the 24th's is after the blackout ends
+      expect(result.cancelledBookingIds).toEqual(['BK_22', 'BK_23']);
+      expect(bookingRepository.findByDate).toHaveBeenCalledTimes(3);
     });
 
     it('should cancel overlapping bookings when creating a blackout', async () => {
@@ -376,6 +504,462 @@ describe('BlackoutCommandService', () => {
         }),
       );
     });
+
+    it('should relocate overlapping bookings and cancel those that cannot be moved', async () => {
+      const request = {
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        date: '2025-10-22',
+        startTime: '20:00',
+        endTime: '22:00',
+        reason: BlackoutReason.MAINTENANCE,
+        mode: 'relocate' as const,
+      };
+
+      const booking = (id: string, partySize: number) => ({
+        id,
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        partySize,
+        start: new Date('2025-10-22T23:30:00Z'),
+        end: new Date('2025-10-23T00:30:00Z'),
+        durationMinutes: 60,
+        status: BookingStatus.CONFIRMED,
+      });
+      const movable = {
+        ...booking('BK_MOVE', 2),
+        requiredAttributes: ['quiet'],
+      };
+      const stuck = booking('BK_STUCK', 6);
+      bookingRepository.findByDate.mockResolvedValue([
+        movable as any,
+        stuck as any,
+      ]);
+
+      bookingQueryService.resolveSectors.mockResolvedValue([mockSector as any]);
+      bookingQueryService.loadOccupancy.mockResolvedValue([
+        { sectorId: 'S1', bookings: [], blackouts: [] },
+      ]);
+      // Only the party of 2 fits on T2, and only around its own time
+      bookingQueryService.findCandidates.mockImplementation(
+        (_tables, _bookings, _blackouts, sectorId, _date, _duration, size) =>
+          size === 2
+            ? [
+                {
+                  tableIds: ['T2'],
+                  minCapacity: 2,
+                  maxCapacity: 4,
+                  interval: {
+                    start: new Date('2025-10-22T23:00:00Z'),
+                    end: new Date('2025-10-23T02:00:00Z'),
+                  },
+                  kind: 'single',
+                  sectorId,
+                },
+              ]
+            : [],
+      );
+
+      blackoutRepository.create.mockImplementation((b) => Promise.resolve(b));
+
+      const result = await service.createBlackout(request);
+
+      expect(result.relocatedBookings).toEqual([
+        {
+          bookingId: 'BK_MOVE',
+          fromSectorId: 'S1',
+          fromTableIds: ['T1'],
+          sectorId: 'S1',
+          tableIds: ['T2'],
+        },
+      ]);
+      expect(result.cancelledBookingIds).toEqual(['BK_STUCK']);
+      expect(bookingRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'BK_MOVE',
+          tableIds: ['T2'],
+          status: BookingStatus.CONFIRMED,
+        }),
+      );
+      // The new blackout is taken into account when looking for free tables
+      expect(bookingQueryService.findCandidates.mock.calls[0][2]).toEqual([
+        expect.objectContaining({ tableIds: ['T1'] }),
+      ]);
+      // Only tables with the booking's required attributes
+      expect(bookingQueryService.findCandidates.mock.calls[0][12]).toEqual([
+        'quiet',
+      ]);
+      // The move is re-checked on the new tables
+      expect(slotLockService.lockSlot).toHaveBeenCalledTimes(1);
+      expect(slotLockService.lockSlot.mock.calls[0][3]).toEqual({
+        sectorId: 'S1',
+        tableIds: ['T2'],
+        interval: {
+          start: new Date('2025-10-22T23:30:00Z'),
+          end: new Date('2025-10-23T00:30:00Z'),
+        },
+      });
+      expect(slotLockService.releaseLocks).toHaveBeenCalled();
+    });
+
+    it('should cancel a booking whose new tables were taken since planning', async () => {
+      const booking = {
+        id: 'BK_RACE',
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        partySize: 2,
+        start: new Date('2025-10-22T23:30:00Z'),
+        end: new Date('2025-10-23T00:30:00Z'),
+        durationMinutes: 60,
+        status: BookingStatus.CONFIRMED,
+      };
+      bookingRepository.findByDate.mockResolvedValue([booking as any]);
+      bookingQueryService.resolveSectors.mockResolvedValue([mockSector as any]);
+      bookingQueryService.loadOccupancy.mockResolvedValue([
+        { sectorId: 'S1', bookings: [], blackouts: [] },
+      ]);
+      bookingQueryService.findCandidates.mockReturnValue([
+        {
+          tableIds: ['T2'],
+          minCapacity: 2,
+          maxCapacity: 4,
+          interval: { start: booking.start, end: booking.end },
+          kind: 'single',
+          sectorId: 'S1',
+        },
+      ]);
+      slotLockService.lockSlot.mockRejectedValue(
+        new ConflictException({
+          error: 'no_capacity',
+          detail: 'Capacity no longer available',
+        }),
+      );
+      blackoutRepository.create.mockImplementation((b) => Promise.resolve(b));
+
+      const result = await service.createBlackout({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        date: '2025-10-22',
+        startTime: '20:00',
+        endTime: '22:00',
+        reason: BlackoutReason.MAINTENANCE,
+        mode: 'relocate',
+      });
+
+      expect(result.relocatedBookings).toEqual([]);
+      expect(result.cancelledBookingIds).toEqual(['BK_RACE']);
+      expect(bookingRepository.update).toHaveBeenCalledTimes(1);
+      expect(bookingRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'BK_RACE',
+          tableIds: ['T1'],
+          status: BookingStatus.CANCELLED,
+        }),
+      );
+      expect(blackoutRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ cancelledBookingIds: ['BK_RACE'] }),
+      );
+    });
+  });
+
+  describe('previewBlackout', () => {
+    beforeEach(() => {
+      restaurantRepository.findById.mockResolvedValue({
+        id: 'R1',
+        timezone: 'America/Argentina/Buenos_Aires',
+        slotMinutes: 15,
+      } as any);
+      sectorRepository.findById.mockResolvedValue({
+        id: 'S1',
+        restaurantId: 'R1',
+      } as any);
+      tableRepository.findBySectorId.mockResolvedValue([
+        { id: 'T1', sectorId: 'S1', minSize: 2, maxSize: 2 },
+        { id: 'T2', sectorId: 'S1', minSize: 2, maxSize: 4 },
+      ] as any);
+    });
+
+    it('should report the impact of a blackout without persisting anything', async () => {
+      bookingRepository.findByDate.mockResolvedValue([
+        {
+          id: 'BK_1',
+          sectorId: 'S1',
+          tableIds: ['T2'],
+          partySize: 3,
+          start: new Date('2025-10-22T23:30:00Z'), // 20:30 local
+          end: new Date('2025-10-23T00:30:00Z'),
+          status: BookingStatus.CONFIRMED,
+        } as any,
+      ]);
+      // T1 is already blacked out during the first slot
+      blackoutRepository.findByRestaurantAndInterval.mockResolvedValue([
+        {
+          id: 'BLK_OLD',
+          sectorId: 'S1',
+          tableIds: ['T1'],
+          start: new Date('2025-10-22T23:00:00Z'),
+          end: new Date('2025-10-22T23:15:00Z'),
+        } as any,
+      ]);
+
+      const result = await service.previewBlackout({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: [],
+        date: '2025-10-22',
+        startTime: '20:00',
+        endTime: '20:30',
+        reason: BlackoutReason.PRIVATE_EVENT,
+      });
+
+      expect(result.cancelledBookings).toEqual([]);
+      expect(result.coversLost).toBe(0);
+      expect(result.capacityBySlot).toEqual([
+        { start: '2025-10-22T20:00:00-03:00', tableIds: ['T2'], seats: 4 },
+        {
+          start: '2025-10-22T20:15:00-03:00',
+          tableIds: ['T1', 'T2'],
+          seats: 6,
+        },
+      ]);
+
+      const longer = await service.previewBlackout({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T2'],
+        date: '2025-10-22',
+        startTime: '20:00',
+        endTime: '21:00',
+        reason: BlackoutReason.MAINTENANCE,
+      });
+      expect(longer.cancelledBookings.map((b) => b.id)).toEqual(['BK_1']);
+      expect(longer.coversLost).toBe(3);
+      expect(longer.capacityBySlot).toHaveLength(4);
+
+      expect(blackoutRepository.create).not.toHaveBeenCalled();
+      expect(bookingRepository.update).not.toHaveBeenCalled();
+    });
+
+    it("should report 15-minute slots whatever the restaurant's grid", async () => {
+      restaurantRepository.findById.mockResolvedValue({
+        id: 'R1',
+        timezone: 'America/Argentina/Buenos_Aires',
+        slotMinutes: 30,
+      } as any);
+      sectorRepository.findByRestaurantId.mockResolvedValue([
+        { id: 'S1', restaurantId: 'R1' },
+        { id: 'S2', restaurantId: 'R1' },
+      ] as any);
+      tableRepository.findBySectorId
+        .mockResolvedValueOnce([
+          { id: 'T1', sectorId: 'S1', minSize: 2, maxSize: 2 },
+        ] as any)
+        .mockResolvedValueOnce([
+          { id: 'T3', sectorId: 'S2', minSize: 2, maxSize: 4 },
+        ] as any);
+      bookingRepository.findByDate.mockResolvedValue([]);
+      blackoutRepository.findByRestaurantAndInterval.mockResolvedValue([]);
+
+      // Restaurant-wide
+      const result = await service.previewBlackout({
+        restaurantId: 'R1',
+        tableIds: [],
+        date: '2025-10-22',
+        startTime: '20:00',
+        endTime: '20:30',
+        reason: BlackoutReason.MAINTENANCE,
+      });
+
+      expect(result.capacityBySlot).toEqual([
+        {
+          start: '2025-10-22T20:00:00-03:00',
+          tableIds: ['T1', 'T3'],
+          seats: 6,
+        },
+        {
+          start: '2025-10-22T20:15:00-03:00',
+          tableIds: ['T1', 'T3'],
+          seats: 6,
+        },
+      ]);
+      // Existing blackouts are loaded once for every sector
+      expect(
+        blackoutRepository.findByRestaurantAndInterval,
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('updateBlackout', () => {
+    const booking = (id: string, tableIds: string[]) => ({
+      id,
+      restaurantId: 'R1',
+      sectorId: 'S1',
+      tableIds,
+      partySize: 2,
+      start: new Date('2025-10-22T23:30:00Z'), // 20:30 local time
+      end: new Date('2025-10-23T00:30:00Z'),
+      durationMinutes: 60,
+      status: BookingStatus.CANCELLED,
+      cancelledAt: new Date(),
+    });
+
+    // Before the bookings start
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-10-22T12:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should restore cancelled bookings the shortened blackout no longer blocks', async () => {
+      // 20:00-22:00 on T1 and T2; it cancelled a booking on each
+      blackoutRepository.findById.mockResolvedValue({
+        id: 'BLK_TEST123',
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1', 'T2'],
+        start: new Date('2025-10-22T23:00:00Z'),
+        end: new Date('2025-10-23T01:00:00Z'),
+        recurrence: null,
+        cancelledBookingIds: ['BK_FREE', 'BK_TAKEN'],
+        reason: BlackoutReason.MAINTENANCE,
+        notes: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as any);
+      restaurantRepository.findById.mockResolvedValue({
+        id: 'R1',
+        timezone: 'America/Argentina/Buenos_Aires',
+      } as any);
+      sectorRepository.findById.mockResolvedValue({
+        id: 'S1',
+        restaurantId: 'R1',
+      } as any);
+      tableRepository.findBySectorId.mockResolvedValue([
+        { id: 'T1', sectorId: 'S1' },
+        { id: 'T2', sectorId: 'S1' },
+      ] as any);
+      bookingRepository.findByDate.mockResolvedValue([]);
+      bookingRepository.findById.mockImplementation((id) =>
+        Promise.resolve(
+          (id === 'BK_FREE'
+            ? booking('BK_FREE', ['T1'])
+            : booking('BK_TAKEN', ['T2'])) as any,
+        ),
+      );
+      // Someone else booked T2 in the meantime
+      slotLockService.lockSlot.mockImplementation(
+        (_restaurant, _date, _sw, slot) =>
+          slot.tableIds.includes('T2')
+            ? Promise.reject(
+                new ConflictException({
+                  error: 'no_capacity',
+                  detail: 'Capacity no longer available',
+                }),
+              )
+            : Promise.resolve([]),
+      );
+      bookingRepository.update.mockImplementation((b) => Promise.resolve(b));
+      blackoutRepository.update.mockImplementation((b) => Promise.resolve(b));
+
+      const result = await service.updateBlackout('BLK_TEST123', {
+        endTime: '20:30',
+      });
+
+      expect(result.id).toBe('BLK_TEST123');
+      expect(result.end).toBe('2025-10-22T20:30:00-03:00');
+      expect(result.restoredBookingIds).toEqual(['BK_FREE']);
+      expect(bookingRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'BK_FREE',
+          status: BookingStatus.CONFIRMED,
+          cancelledAt: null,
+        }),
+      );
+      expect(blackoutRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ cancelledBookingIds: ['BK_TAKEN'] }),
+      );
+      // What the shortened blackout freed goes to the waitlist
+      expect(capacityEventsService.capacityReleased).toHaveBeenCalledWith({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        date: '2025-10-22',
+      });
+      // Checked like a new booking, ignoring itself and the edited blackout
+      expect(slotLockService.lockSlot).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'R1' }),
+        expect.any(Date),
+        [],
+        {
+          sectorId: 'S1',
+          tableIds: ['T1'],
+          interval: {
+            start: new Date('2025-10-22T23:30:00Z'),
+            end: new Date('2025-10-23T00:30:00Z'),
+          },
+        },
+        2,
+        { bookingId: 'BK_FREE', blackoutId: 'BLK_TEST123' },
+      );
+      expect(slotLockService.releaseLocks).toHaveBeenCalled();
+    });
+
+    it('should not restore bookings that have already started', async () => {
+      jest.setSystemTime(new Date('2025-10-23T00:00:00Z'));
+      blackoutRepository.findById.mockResolvedValue({
+        id: 'BLK_TEST123',
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        start: new Date('2025-10-22T23:00:00Z'),
+        end: new Date('2025-10-23T01:00:00Z'),
+        recurrence: null,
+        cancelledBookingIds: ['BK_STARTED'],
+        reason: BlackoutReason.MAINTENANCE,
+        notes: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as any);
+      restaurantRepository.findById.mockResolvedValue({
+        id: 'R1',
+        timezone: 'America/Argentina/Buenos_Aires',
+      } as any);
+      sectorRepository.findById.mockResolvedValue({
+        id: 'S1',
+        restaurantId: 'R1',
+      } as any);
+      tableRepository.findBySectorId.mockResolvedValue([
+        { id: 'T1', sectorId: 'S1' },
+      ] as any);
+      bookingRepository.findByDate.mockResolvedValue([]);
+      bookingRepository.findById.mockResolvedValue(
+        booking('BK_STARTED', ['T1']) as any,
+      );
+      blackoutRepository.update.mockImplementation((b) => Promise.resolve(b));
+
+      const result = await service.updateBlackout('BLK_TEST123', {
+        endTime: '20:30',
+      });
+
+      expect(result.restoredBookingIds).toEqual([]);
+      expect(slotLockService.lockSlot).not.toHaveBeenCalled();
+      expect(blackoutRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ cancelledBookingIds: ['BK_STARTED'] }),
+      );
+    });
+
+    it('should throw NotFoundException if blackout not found', async () => {
+      blackoutRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.updateBlackout('BLK_NOTFOUND', { notes: 'x' }),
+      ).rejects.toThrow(NotFoundException);
+    });
   });
 
   describe('deleteBlackout', () => {
@@ -399,6 +983,122 @@ describe('BlackoutCommandService', () => {
       expect(blackoutRepository.delete).toHaveBeenCalledWith('BLK_TEST123');
     });
 
+    it('should notify that capacity was released for the blackout day', async () => {
+      const blackout = {
+        id: 'BLK_TEST123',
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        start: new Date('2025-10-22T23:00:00Z'),
+        end: new Date('2025-10-23T00:00:00Z'),
+        reason: BlackoutReason.MAINTENANCE,
+        notes: null,
+      };
+
+      blackoutRepository.findById.mockResolvedValue(blackout as any);
+      blackoutRepository.delete.mockResolvedValue();
+      restaurantRepository.findById.mockResolvedValue({
+        id: 'R1',
+        name: 'Test Restaurant',
+        timezone: 'America/Argentina/Buenos_Aires',
+      } as any);
+
+      await service.deleteBlackout('BLK_TEST123');
+
+      expect(capacityEventsService.capacityReleased).toHaveBeenCalledWith({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        date: '2025-10-22',
+      });
+    });
+
+    it('should delete a single occurrence of a recurring blackout', async () => {
+      // Every Wednesday 20:00-22:00 Buenos Aires time
+      const blackout = {
+        id: 'BLK_TEST123',
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        tableIds: ['T1'],
+        start: new Date('2025-10-22T23:00:00Z'),
+        end: new Date('2025-10-23T01:00:00Z'),
+        recurrence: {
+          frequency: RecurrenceFrequency.WEEKLY,
+          interval: 1,
+          byWeekday: null,
+          until: null,
+          count: null,
+          exceptions: [],
+          timezone: 'America/Argentina/Buenos_Aires',
+        },
+        reason: BlackoutReason.MAINTENANCE,
+        notes: null,
+      };
+
+      blackoutRepository.findById.mockResolvedValue(blackout as any);
+      blackoutRepository.update.mockImplementation((b) => Promise.resolve(b));
+
+      await service.deleteBlackout('BLK_TEST123', '2025-10-29');
+
+      expect(blackoutRepository.delete).not.toHaveBeenCalled();
+      expect(blackoutRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recurrence: expect.objectContaining({ exceptions: ['2025-10-29'] }),
+        }),
+      );
+      expect(capacityEventsService.capacityReleased).toHaveBeenCalledWith({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        date: '2025-10-29',
+      });
+
+      // Thursday has no occurrence
+      await expect(
+        service.deleteBlackout('BLK_TEST123', '2025-10-30'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should release the remaining occurrences when a recurring series is deleted', async () => {
+      jest.useFakeTimers({ now: new Date('2025-11-01T12:00:00Z') });
+      try {
+        // Six Wednesdays from 2025-10-22, 20:00-22:00 Buenos Aires time
+        blackoutRepository.findById.mockResolvedValue({
+          id: 'BLK_TEST123',
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          tableIds: ['T1'],
+          start: new Date('2025-10-22T23:00:00Z'),
+          end: new Date('2025-10-23T01:00:00Z'),
+          recurrence: {
+            frequency: RecurrenceFrequency.WEEKLY,
+            interval: 1,
+            byWeekday: null,
+            until: null,
+            count: 6,
+            exceptions: ['2025-11-12'],
+            timezone: 'America/Argentina/Buenos_Aires',
+          },
+          reason: BlackoutReason.MAINTENANCE,
+          notes: null,
+        } as any);
+        blackoutRepository.delete.mockResolvedValue();
+        restaurantRepository.findById.mockResolvedValue({
+          id: 'R1',
+          timezone: 'America/Argentina/Buenos_Aires',
+        } as any);
+
+        await service.deleteBlackout('BLK_TEST123');
+
+        // Past occurrences and exceptions are skipped
+        expect(
+          capacityEventsService.capacityReleased.mock.calls.map(
+            ([event]) => event.date,
+          ),
+        ).toEqual(['2025-11-05', '2025-11-19', '2025-11-26']);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
     it('should throw NotFoundException if blackout not found', async () => {
       blackoutRepository.findById.mockResolvedValue(null);
 
@@ -2,29 +2,75 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Inject,
 } from '@nestjs/common';
-import { parseISO } from 'date-fns';
-import { zonedTimeToUtc, formatInTimeZone } from 'date-fns-tz';
+import { addDays, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 import { randomUUID } from 'crypto';
 import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
 import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
 import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
 import { BlackoutRepository as IBlackoutRepository } from '../../ports/repositories/blackout.repository.interface';
 import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
+import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { TableAdjacencyRepository as ITableAdjacencyRepository } from '../../ports/repositories/table-adjacency.repository.interface';
 import {
   RESTAURANT_REPOSITORY,
   SECTOR_REPOSITORY,
   TABLE_REPOSITORY,
   BLACKOUT_REPOSITORY,
   BOOKING_REPOSITORY,
+  SERVICE_WINDOW_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
 } from '../../tokens';
 import { BookingStatus } from '../../domain/types/booking-status.enum';
+import { ComboCandidate } from '../../domain/types/combo-candidate.type';
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
 import { Blackout } from '../../domain/entities/blackout.entity';
+import { Booking } from '../../domain/entities/booking.entity';
+import { Restaurant } from '../../domain/entities/restaurant.entity';
+import { Table } from '../../domain/entities/table.entity';
+import { TableAdjacency } from '../../domain/entities/table-adjacency.entity';
+import { WokiBrainSelectorService } from '../../domain/services/wokibrain-selector.service';
+import { BookingLifecycleService } from '../../domain/services/booking-lifecycle.service';
+import { alignToSlotGrid } from '../../domain/utils/slot-grid.util';
+import {
+  getServiceDate,
+  toMinutesOfDay,
+  zonedDayMinutesToUtc,
+} from '../../domain/utils/service-day.util';
+import {
+  expandBlackout,
+  getOccurrenceDate,
+} from '../../domain/utils/blackout-recurrence.util';
+import { CapacityEventsService } from '../../infrastructure/events/capacity-events.service';
 import {
   CreateBlackoutRequest,
   CreateBlackoutResponse,
+  RelocatedBooking,
 } from '../dto/create-blackout.dto';
+import {
+  BlackoutPreviewResponse,
+  PreviewBlackoutRequest,
+} from '../dto/blackout-preview.dto';
+import {
+  UpdateBlackoutRequest,
+  UpdateBlackoutResponse,
+} from '../dto/update-blackout.dto';
+import { toBlackoutRecurrenceResponse } from '../utils/blackout-recurrence-response.util';
+import { BookingQueryService, SectorOccupancy } from './booking-query.service';
+import { SlotLock, SlotLockService } from './slot-lock.service';
+
+// Bookings checked against a recurring blackout (series may be open-ended)
+const SERIES_HORIZON = new Date('9999-12-31T00:00:00Z');
+
+// How far ahead removing or editing a recurring blackout releases its occurrences
+const RELEASE_HORIZON_DAYS = 90;
+
+// Length of the slots a blackout preview reports lost capacity in, whatever the
+// restaurant's slot grid
+const CAPACITY_SLOT_MINUTES = 15;
 
 @Injectable()
 export class BlackoutCommandService {
@@ -39,16 +85,224 @@ export class BlackoutCommandService {
     private readonly blackoutRepository: IBlackoutRepository,
     @Inject(BOOKING_REPOSITORY)
     private readonly bookingRepository: IBookingRepository,
+    @Inject(SERVICE_WINDOW_REPOSITORY)
+    private readonly serviceWindowRepository: IServiceWindowRepository,
+    @Inject(TABLE_ADJACENCY_REPOSITORY)
+    private readonly tableAdjacencyRepository: ITableAdjacencyRepository,
+    private readonly bookingQueryService: BookingQueryService,
+    private readonly wokiBrainSelectorService: WokiBrainSelectorService,
+    private readonly bookingLifecycleService: BookingLifecycleService,
+    private readonly slotLockService: SlotLockService,
+    private readonly capacityEventsService: CapacityEventsService,
   ) {}
 
   async createBlackout(
     request: CreateBlackoutRequest,
   ): Promise<CreateBlackoutResponse> {
+    const { restaurant, blackout } = await this.buildBlackout(request);
+
+    const { cancelledBookingIds, restorableBookingIds, relocatedBookings } =
+      await this.clearOverlappingBookings(blackout, restaurant, request.mode);
+    blackout.cancelledBookingIds = restorableBookingIds;
+
+    const savedBlackout = await this.blackoutRepository.create(blackout);
+
+    return this.toResponse(
+      savedBlackout,
+      restaurant.timezone,
+      cancelledBookingIds,
+      relocatedBookings,
+    );
+  }
+
+  /**
+   * Extend, shorten, move, retarget or re-reason a blackout. Omitted fields keep
+   * their value; moving `date` alone keeps the number of days it spans.
+   *
+   * Bookings that now overlap are cancelled (or relocated, with mode=relocate), and
+   * confirmed bookings the blackout cancelled earlier (and not started yet) are
+   * confirmed again when they could be booked again as they were.
+   */
+  async updateBlackout(
+    id: string,
+    request: UpdateBlackoutRequest,
+  ): Promise<UpdateBlackoutResponse> {
+    const existing = await this.blackoutRepository.findById(id);
+    if (!existing) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Blackout not found',
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      existing.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    // Current values in create-request terms (an end at midnight is 24:00)
+    const format = (date: Date, pattern: string) =>
+      formatInTimeZone(date, restaurant.timezone, pattern);
+    const currentDate = format(existing.start, 'yyyy-MM-dd');
+    const endsAtMidnight = format(existing.end, 'HH:mm') === '00:00';
+    const currentEnd = endsAtMidnight
+      ? new Date(existing.end.getTime() - 1)
+      : existing.end;
+    const currentEndDate = format(currentEnd, 'yyyy-MM-dd');
+    const spanDays = Math.round(
+      (Date.parse(`${currentEndDate}T00:00:00Z`) -
+        Date.parse(`${currentDate}T00:00:00Z`)) /
+        (24 * 60 * 60 * 1000),
+    );
+
+    const date = request.date ?? currentDate;
+    const sectorId =
+      request.sectorId === undefined ? existing.sectorId : request.sectorId;
+    const { recurrence } = existing;
+
+    const { blackout } = await this.buildBlackout({
+      restaurantId: existing.restaurantId,
+      sectorId: sectorId ?? undefined,
+      // Retargeting to another sector without tables covers all of it
+      tableIds:
+        request.tableIds ??
+        (sectorId === existing.sectorId ? existing.tableIds : []),
+      date,
+      endDate:
+        request.endDate ??
+        addDays(new Date(`${date}T00:00:00Z`), spanDays)
+          .toISOString()
+          .slice(0, 10),
+      startTime: request.startTime ?? format(existing.start, 'HH:mm'),
+      endTime:
+        request.endTime ??
+        (endsAtMidnight ? '24:00' : format(existing.end, 'HH:mm')),
+      reason: request.reason ?? existing.reason,
+      notes:
+        (request.notes === undefined ? existing.notes : request.notes) ??
+        undefined,
+      recurrence: recurrence
+        ? {
+            frequency: recurrence.frequency,
+            interval: recurrence.interval,
+            byWeekday: recurrence.byWeekday ?? undefined,
+            until: recurrence.until ?? undefined,
+            count: recurrence.count ?? undefined,
+            exceptions: recurrence.exceptions,
+          }
+        : undefined,
+    });
+    blackout.id = existing.id;
+    blackout.createdAt = existing.createdAt;
+
+    const { cancelledBookingIds, restorableBookingIds, relocatedBookings } =
+      await this.clearOverlappingBookings(blackout, restaurant, request.mode);
+
+    const restoredBookingIds = await this.restoreBookings(
+      existing.cancelledBookingIds ?? [],
+      blackout,
+      restaurant,
+    );
+    blackout.cancelledBookingIds = [
+      ...(existing.cancelledBookingIds ?? []).filter(
+        (bookingId) => !restoredBookingIds.includes(bookingId),
+      ),
+      ...restorableBookingIds,
+    ];
+
+    const savedBlackout = await this.blackoutRepository.update(blackout);
+
+    // Whatever the blackout used to cover may be free now
+    for (const day of this.listReleasedDays(existing, restaurant.timezone)) {
+      await this.releaseCapacity(existing, day);
+    }
+
+    return {
+      ...this.toResponse(
+        savedBlackout,
+        restaurant.timezone,
+        cancelledBookingIds,
+        relocatedBookings,
+      ),
+      restoredBookingIds,
+    };
+  }
+
+  /**
+   * What creating the blackout would do, without persisting anything: the bookings
+   * it would cancel or relocate, the covers lost and the tables and seats it takes
+   * out of each slot (tables already blacked out in a slot are not counted again).
+   * For recurring blackouts, bookings cover every occurrence and slots the first one.
+   */
+  async previewBlackout(
+    request: PreviewBlackoutRequest,
+  ): Promise<BlackoutPreviewResponse> {
+    const { restaurant, blackout } = await this.buildBlackout(request);
+
+    const overlappingBookings = await this.findOverlappingBookings(
+      blackout,
+      restaurant.timezone,
+    );
+    const relocatedBookings =
+      request.mode === 'relocate'
+        ? await this.planRelocations(overlappingBookings, blackout, restaurant)
+        : [];
+    const relocatedIds = new Set(relocatedBookings.map((r) => r.bookingId));
+    const cancelledBookings = overlappingBookings.filter(
+      (booking) => !relocatedIds.has(booking.id),
+    );
+
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return {
+      restaurantId: blackout.restaurantId,
+      sectorId: blackout.sectorId,
+      tableIds: blackout.tableIds,
+      start: formatDateInTimezone(blackout.start),
+      end: formatDateInTimezone(blackout.end),
+      recurrence: toBlackoutRecurrenceResponse(blackout.recurrence),
+      cancelledBookings: cancelledBookings.map((booking) => ({
+        id: booking.id,
+        sectorId: booking.sectorId,
+        tableIds: booking.tableIds,
+        partySize: booking.partySize,
+        start: formatDateInTimezone(booking.start),
+        end: formatDateInTimezone(booking.end),
+        status: booking.status,
+      })),
+      relocatedBookings,
+      coversLost: cancelledBookings.reduce(
+        (covers, booking) => covers + booking.partySize,
+        0,
+      ),
+      capacityBySlot: (
+        await this.findCapacityRemoved(blackout, restaurant)
+      ).map((slot) => ({ ...slot, start: formatDateInTimezone(slot.start) })),
+    };
+  }
+
+  /**
+   * Validate a create/preview request and build the blackout it describes (not saved).
+   */
+  private async buildBlackout(request: CreateBlackoutRequest): Promise<{
+    restaurant: Restaurant;
+    blackout: Blackout;
+  }> {
     // Parse date
     const date = parseISO(request.date);
-    if (isNaN(date.getTime())) {
+    const endDate = parseISO(request.endDate ?? request.date);
+    if (isNaN(date.getTime()) || isNaN(endDate.getTime())) {
       throw new BadRequestException('Invalid date format');
     }
+    if (request.endDate && request.endDate < request.date) {
+      throw new BadRequestException('endDate must not be before date');
+    }
 
     // Get restaurant first (needed for timezone conversion)
     const restaurant = await this.restaurantRepository.findById(
@@ -68,7 +322,7 @@ export class BlackoutCommandService {
       restaurant.timezone,
     );
     const end = this.parseTimeInTimezone(
-      date,
+      endDate,
       request.endTime,
       restaurant.timezone,
     );
@@ -125,30 +379,22 @@ export class BlackoutCommandService {
       }
 
       tableIds = request.tableIds;
-    } else if (sectorId) {
-      // Empty tableIds with sectorId means whole sector blackout
-      tableIds = [];
     } else {
-      throw new BadRequestException(
-        'Either sectorId or tableIds must be provided',
-      );
+      // Empty tableIds means whole sector (or whole restaurant, without sectorId)
+      tableIds = [];
     }
 
-    // sectorId should be set at this point (validated above)
-    if (!sectorId) {
-      throw new BadRequestException('sectorId is required');
+    // The first occurrence is the requested day itself
+    const { recurrence } = request;
+    if (recurrence?.until && recurrence.until < request.date) {
+      throw new BadRequestException('until must not be before date');
+    }
+    if (
+      recurrence?.byWeekday &&
+      !recurrence.byWeekday.includes(date.getUTCDay())
+    ) {
+      throw new BadRequestException('date must fall on one of byWeekday');
     }
-
-    // Find and cancel overlapping bookings
-    const cancelledBookingIds = await this.cancelOverlappingBookings(
-      request.restaurantId,
-      sectorId,
-      date,
-      restaurant.timezone,
-      start,
-      end,
-      tableIds,
-    );
 
     // Create blackout
     const blackout = new Blackout();
@@ -158,21 +404,31 @@ export class BlackoutCommandService {
     blackout.tableIds = tableIds;
     blackout.start = start;
     blackout.end = end;
+    blackout.recurrence = recurrence
+      ? {
+          frequency: recurrence.frequency,
+          interval: recurrence.interval,
+          byWeekday: recurrence.byWeekday ?? null,
+          until: recurrence.until ?? null,
+          count: recurrence.count ?? null,
+          exceptions: recurrence.exceptions,
+          timezone: restaurant.timezone,
+        }
+      : null;
     blackout.reason = request.reason;
     blackout.notes = request.notes || null;
     blackout.createdAt = new Date();
     blackout.updatedAt = new Date();
 
-    const savedBlackout = await this.blackoutRepository.create(blackout);
-
-    return this.toResponse(
-      savedBlackout,
-      restaurant.timezone,
-      cancelledBookingIds,
-    );
+    return { restaurant, blackout };
   }
 
-  async deleteBlackout(id: string): Promise<void> {
+  /**
+   * Delete a blackout. For recurring blackouts, a date deletes only that day's
+   * occurrence (it becomes an exception of the series); without one the whole
+   * series goes.
+   */
+  async deleteBlackout(id: string, date?: string): Promise<void> {
     const blackout = await this.blackoutRepository.findById(id);
     if (!blackout) {
       throw new NotFoundException({
@@ -181,7 +437,132 @@ export class BlackoutCommandService {
       });
     }
 
+    if (date) {
+      await this.deleteOccurrence(blackout, date);
+      return;
+    }
+
     await this.blackoutRepository.delete(id);
+
+    // Removing a blackout frees its tables again, on every day it covered
+    const restaurant = await this.restaurantRepository.findById(
+      blackout.restaurantId,
+    );
+    if (restaurant) {
+      for (const day of this.listReleasedDays(blackout, restaurant.timezone)) {
+        await this.releaseCapacity(blackout, day);
+      }
+    }
+  }
+
+  private async deleteOccurrence(
+    blackout: Blackout,
+    date: string,
+  ): Promise<void> {
+    const { recurrence } = blackout;
+    if (!recurrence) {
+      throw new BadRequestException(
+        'date is only supported for recurring blackouts',
+      );
+    }
+
+    const day = parseISO(date);
+    const occurrence = expandBlackout(blackout, {
+      start: zonedDayMinutesToUtc(day, 0, recurrence.timezone),
+      end: zonedDayMinutesToUtc(day, 24 * 60, recurrence.timezone),
+    }).find(
+      (candidate) => getOccurrenceDate(candidate, recurrence.timezone) === date,
+    );
+    if (!occurrence) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: `Blackout has no occurrence on ${date}`,
+      });
+    }
+
+    blackout.recurrence = {
+      ...recurrence,
+      exceptions: [...recurrence.exceptions, date].sort(),
+    };
+    blackout.updatedAt = new Date();
+    await this.blackoutRepository.update(blackout);
+
+    for (const day of this.listDays(occurrence, recurrence.timezone)) {
+      await this.releaseCapacity(blackout, day);
+    }
+  }
+
+  private async releaseCapacity(blackout: Blackout, date: string) {
+    for (const sectorId of await this.getSectorIds(blackout)) {
+      await this.capacityEventsService.capacityReleased({
+        restaurantId: blackout.restaurantId,
+        sectorId,
+        date,
+      });
+    }
+  }
+
+  /**
+   * Sectors a blackout applies to: its own, or every sector of the restaurant.
+   */
+  private async getSectorIds(blackout: Blackout): Promise<string[]> {
+    if (blackout.sectorId) {
+      return [blackout.sectorId];
+    }
+    const sectors = await this.sectorRepository.findByRestaurantId(
+      blackout.restaurantId,
+    );
+    return sectors.map((sector) => sector.id);
+  }
+
+  /**
+   * Days whose capacity a blackout frees when it is removed or edited: every day it
+   * covers, or the days of a recurring series' remaining occurrences (up to
+   * RELEASE_HORIZON_DAYS ahead; past ones have no waitlist to serve).
+   */
+  private listReleasedDays(blackout: Blackout, timezone: string): string[] {
+    if (!blackout.recurrence) {
+      return this.listDays(blackout, timezone);
+    }
+
+    const now = new Date();
+    const occurrences = expandBlackout(blackout, {
+      start: now,
+      end: addDays(now, RELEASE_HORIZON_DAYS),
+    });
+    return [
+      ...new Set(
+        occurrences.flatMap((occurrence) =>
+          this.listDays(occurrence, timezone),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Days (YYYY-MM-DD, restaurant timezone) a blackout (or occurrence) touches,
+   * from the day it starts to the day it ends.
+   */
+  private listDays(
+    blackout: { start: Date; end: Date },
+    timezone: string,
+  ): string[] {
+    const lastDay = formatInTimeZone(
+      new Date(blackout.end.getTime() - 1),
+      timezone,
+      'yyyy-MM-dd',
+    );
+    const days: string[] = [];
+    for (
+      let day = getOccurrenceDate(blackout, timezone);
+      day <= lastDay;
+      day = addDays(new Date(`${day}T00:00:00Z`), 1)
+        .toISOString()
+        .slice(0, 10)
+    ) {
+      days.push(day);
+    }
+    return days;
   }
 
   /**
@@ -195,74 +576,286 @@ export class BlackoutCommandService {
     timezone: string,
   ): Date {
     const [hours, minutes] = timeStr.split(':').map(Number);
-    const year = date.getUTCFullYear();
-    const month = date.getUTCMonth();
-    const day = date.getUTCDate();
-
-    // Create date string in the format YYYY-MM-DDTHH:mm:00
-    const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
+    if (hours * 60 + minutes > 24 * 60 || minutes >= 60) {
+      return new Date(NaN);
+    }
 
-    // Parse as if it's in the restaurant timezone, then convert to UTC
-    return zonedTimeToUtc(new Date(dateStr), timezone);
+    // Wall-clock time in the restaurant timezone (DST-safe), converted to UTC
+    return zonedDayMinutesToUtc(date, toMinutesOfDay(timeStr), timezone);
   }
 
   /**
-   * Cancel bookings that overlap with the blackout time period.
-   * A booking overlaps if:
-   * - It's in CONFIRMED status
-   * - It's in the same sector (or affects the same tables)
-   * - The booking time overlaps with the blackout time
+   * Bookings affected by the blackout time period.
+   * A booking is affected if:
+   * - It's in CONFIRMED or HELD status
+   * - It's in the same sector (any sector, for restaurant-wide blackouts)
+   * - The booking time overlaps with the blackout time (any occurrence, if recurring)
    * - The booking uses tables that are affected by the blackout
    */
-  private async cancelOverlappingBookings(
-    restaurantId: string,
-    sectorId: string,
-    date: Date,
+  private async findOverlappingBookings(
+    blackout: Blackout,
     timezone: string,
-    blackoutStart: Date,
-    blackoutEnd: Date,
-    blackoutTableIds: string[],
-  ): Promise<string[]> {
-    // Get all bookings for the date
-    const bookings = await this.bookingRepository.findByDate(
-      restaurantId,
-      sectorId,
-      date,
-      timezone,
+  ): Promise<Booking[]> {
+    // Get all bookings for each day the blackout covers (from the first occurrence
+    // on, if recurring)
+    const found: Booking[] = [];
+    for (const sectorId of await this.getSectorIds(blackout)) {
+      if (blackout.recurrence) {
+        found.push(
+          ...(await this.bookingRepository.findByInterval(
+            blackout.restaurantId,
+            sectorId,
+            { start: blackout.start, end: SERIES_HORIZON },
+          )),
+        );
+        continue;
+      }
+      for (const day of this.listDays(blackout, timezone)) {
+        found.push(
+          ...(await this.bookingRepository.findByDate(
+            blackout.restaurantId,
+            sectorId,
+            parseISO(day),
+            timezone,
+          )),
+        );
+      }
+    }
+    // Bookings spanning midnight are found on both days
+    const bookings = [
+      ...new Map(found.map((booking) => [booking.id, booking])).values(),
+    ];
+
+    // Filter to only CONFIRMED/HELD bookings that overlap with the blackout
+    return bookings.filter(
+      (booking) =>
+        // Only cancel bookings that haven't started their lifecycle yet
+        (booking.status === BookingStatus.CONFIRMED ||
+          booking.status === BookingStatus.HELD) &&
+        this.affectsBooking(blackout, booking),
     );
+  }
 
-    // Filter to only CONFIRMED bookings that overlap with the blackout
-    const overlappingBookings = bookings.filter((booking) => {
-      // Only cancel CONFIRMED bookings
-      if (booking.status !== BookingStatus.CONFIRMED) {
-        return false;
+  /**
+   * Whether a blackout (some occurrence of it) takes out a booking's tables while
+   * the booking runs.
+   */
+  private affectsBooking(blackout: Blackout, booking: Booking): boolean {
+    // Check if booking time overlaps with blackout time
+    if (expandBlackout(blackout, booking).length === 0) {
+      return false;
+    }
+
+    // Check if booking uses tables affected by the blackout
+    if (blackout.tableIds.length === 0) {
+      // Whole sector (or restaurant) blackout
+      return (
+        blackout.sectorId === null || blackout.sectorId === booking.sectorId
+      );
+    }
+    // Table-specific blackout - only affects bookings using those tables
+    return booking.tableIds.some((tableId) =>
+      blackout.tableIds.includes(tableId),
+    );
+  }
+
+  /**
+   * Cancel (or, with mode=relocate, first try to move) the bookings a blackout
+   * overlaps. Bookings that cannot be moved are cancelled first (relocations may
+   * take their tables); a relocation whose tables were taken since it was planned
+   * is cancelled as well.
+   *
+   * @returns IDs of the cancelled bookings, those that were confirmed (they are
+   * restored if the blackout is later edited away from them) and the relocations
+   */
+  private async clearOverlappingBookings(
+    blackout: Blackout,
+    restaurant: Restaurant,
+    mode: 'cancel' | 'relocate' | undefined,
+  ): Promise<{
+    cancelledBookingIds: string[];
+    restorableBookingIds: string[];
+    relocatedBookings: RelocatedBooking[];
+  }> {
+    const overlappingBookings = await this.findOverlappingBookings(
+      blackout,
+      restaurant.timezone,
+    );
+    const plannedRelocations =
+      mode === 'relocate'
+        ? await this.planRelocations(overlappingBookings, blackout, restaurant)
+        : [];
+
+    const cancelledBookingIds: string[] = [];
+    const restorableBookingIds: string[] = [];
+    const cancel = async (bookings: Booking[]) => {
+      // Holds are not restored later (their hold would have lapsed)
+      restorableBookingIds.push(
+        ...bookings
+          .filter((booking) => booking.status === BookingStatus.CONFIRMED)
+          .map((booking) => booking.id),
+      );
+      cancelledBookingIds.push(...(await this.cancelBookings(bookings)));
+    };
+
+    // Cancel the bookings that could not be moved
+    const plannedIds = new Set(plannedRelocations.map((r) => r.bookingId));
+    await cancel(
+      overlappingBookings.filter((booking) => !plannedIds.has(booking.id)),
+    );
+
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+    const relocatedBookings: RelocatedBooking[] = [];
+    const stuck: Booking[] = [];
+    for (const relocation of plannedRelocations) {
+      const booking = overlappingBookings.find(
+        (b) => b.id === relocation.bookingId,
+      );
+      if (!booking) {
+        continue;
       }
+      if (
+        await this.relocateBooking(
+          booking,
+          relocation,
+          blackout,
+          restaurant,
+          serviceWindows,
+        )
+      ) {
+        relocatedBookings.push(relocation);
+      } else {
+        stuck.push(booking);
+      }
+    }
+    await cancel(stuck);
 
-      // Check if booking time overlaps with blackout time
-      // Overlap occurs if: booking.start < blackoutEnd && booking.end > blackoutStart
-      const timeOverlaps =
-        booking.start < blackoutEnd && booking.end > blackoutStart;
+    return { cancelledBookingIds, restorableBookingIds, relocatedBookings };
+  }
 
-      if (!timeOverlaps) {
+  /**
+   * Move a booking to the tables planned for it, re-checking under their locks that
+   * they are still free (like a new booking at the same time).
+   *
+   * @returns whether the booking was moved
+   */
+  private async relocateBooking(
+    booking: Booking,
+    relocation: RelocatedBooking,
+    blackout: Blackout,
+    restaurant: Restaurant,
+    serviceWindows: ServiceWindowRule[],
+  ): Promise<boolean> {
+    let acquiredLocks: SlotLock[];
+    try {
+      acquiredLocks = await this.slotLockService.lockSlot(
+        restaurant,
+        parseISO(
+          getServiceDate(serviceWindows, booking.start, restaurant.timezone),
+        ),
+        serviceWindows,
+        {
+          sectorId: relocation.sectorId,
+          tableIds: relocation.tableIds,
+          interval: { start: booking.start, end: booking.end },
+        },
+        booking.partySize,
+        { bookingId: booking.id, blackoutId: blackout.id },
+      );
+    } catch (error) {
+      // Taken (or being taken) since the relocation was planned
+      if (error instanceof ConflictException) {
         return false;
       }
+      throw error;
+    }
 
-      // Check if booking uses tables affected by the blackout
-      if (blackoutTableIds.length === 0) {
-        // Whole sector blackout - affects all bookings in the sector
-        return true;
-      } else {
-        // Table-specific blackout - only affects bookings using those tables
-        return booking.tableIds.some((tableId) =>
-          blackoutTableIds.includes(tableId),
+    try {
+      booking.sectorId = relocation.sectorId;
+      booking.tableIds = relocation.tableIds;
+      booking.updatedAt = new Date();
+      await this.bookingRepository.update(booking);
+    } finally {
+      this.slotLockService.releaseLocks(acquiredLocks);
+    }
+    return true;
+  }
+
+  /**
+   * Confirm again the bookings a blackout cancelled that it no longer overlaps and
+   * that have not started yet. Each one is checked like a new booking on its tables
+   * (locks, other blackouts, bookings with their buffers, pacing); those that no
+   * longer fit stay cancelled.
+   *
+   * @param blackout - The edited blackout (its stored version is ignored)
+   * @returns IDs of the restored bookings
+   */
+  private async restoreBookings(
+    bookingIds: string[],
+    blackout: Blackout,
+    restaurant: Restaurant,
+  ): Promise<string[]> {
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+    const now = new Date();
+
+    const restored: string[] = [];
+    for (const bookingId of bookingIds) {
+      const booking = await this.bookingRepository.findById(bookingId);
+      if (
+        !booking ||
+        booking.status !== BookingStatus.CANCELLED ||
+        booking.start <= now ||
+        this.affectsBooking(blackout, booking)
+      ) {
+        continue;
+      }
+
+      let acquiredLocks: SlotLock[];
+      try {
+        acquiredLocks = await this.slotLockService.lockSlot(
+          restaurant,
+          parseISO(
+            getServiceDate(serviceWindows, booking.start, restaurant.timezone),
+          ),
+          serviceWindows,
+          {
+            sectorId: booking.sectorId,
+            tableIds: booking.tableIds,
+            interval: { start: booking.start, end: booking.end },
+          },
+          booking.partySize,
+          { bookingId: booking.id, blackoutId: blackout.id },
         );
+      } catch (error) {
+        // Taken (or being taken) meanwhile
+        if (error instanceof ConflictException) {
+          continue;
+        }
+        throw error;
       }
-    });
 
-    // Cancel all overlapping bookings
+      try {
+        if (this.bookingLifecycleService.restore(booking)) {
+          booking.updatedAt = new Date();
+          await this.bookingRepository.update(booking);
+          restored.push(booking.id);
+        }
+      } finally {
+        this.slotLockService.releaseLocks(acquiredLocks);
+      }
+    }
+
+    return restored;
+  }
+
+  private async cancelBookings(bookings: Booking[]): Promise<string[]> {
     const cancelledIds: string[] = [];
-    for (const booking of overlappingBookings) {
+    for (const booking of bookings) {
       booking.status = BookingStatus.CANCELLED;
+      booking.cancelledAt = new Date();
+      booking.holdExpiresAt = null;
       booking.updatedAt = new Date();
       await this.bookingRepository.update(booking);
       cancelledIds.push(booking.id);
@@ -271,10 +864,273 @@ export class BlackoutCommandService {
     return cancelledIds;
   }
 
+  /**
+   * Tables and seats the blackout takes out of each 15-minute slot it touches.
+   * Tables already blacked out in a slot are not counted again.
+   */
+  private async findCapacityRemoved(
+    blackout: Blackout,
+    restaurant: Restaurant,
+  ): Promise<Array<{ start: Date; tableIds: string[]; seats: number }>> {
+    const tables: Table[] = [];
+    for (const sectorId of await this.getSectorIds(blackout)) {
+      tables.push(...(await this.tableRepository.findBySectorId(sectorId)));
+    }
+    const blackedOutTables =
+      blackout.tableIds.length > 0
+        ? tables.filter((table) => blackout.tableIds.includes(table.id))
+        : tables;
+
+    // From the slot the blackout starts in (it may start between slots)
+    const slotMs = CAPACITY_SLOT_MINUTES * 60 * 1000;
+    const aligned = alignToSlotGrid(
+      blackout.start,
+      CAPACITY_SLOT_MINUTES,
+      restaurant.timezone,
+    ).getTime();
+    const firstSlot =
+      aligned > blackout.start.getTime() ? aligned - slotMs : aligned;
+
+    // Every sector's blackouts (restaurant-wide ones included) in one query
+    const existingBlackouts =
+      await this.blackoutRepository.findByRestaurantAndInterval(
+        blackout.restaurantId,
+        { start: new Date(firstSlot), end: blackout.end },
+      );
+
+    const slots: Array<{ start: Date; tableIds: string[]; seats: number }> = [];
+    for (
+      let slotStart = firstSlot;
+      slotStart < blackout.end.getTime();
+      slotStart += slotMs
+    ) {
+      const slotEnd = slotStart + slotMs;
+      const removed = blackedOutTables.filter(
+        (table) =>
+          !existingBlackouts.some(
+            (other) =>
+              other.start.getTime() < slotEnd &&
+              other.end.getTime() > slotStart &&
+              (other.tableIds.length === 0
+                ? other.sectorId === null || other.sectorId === table.sectorId
+                : other.tableIds.includes(table.id)),
+          ),
+      );
+      slots.push({
+        start: new Date(slotStart),
+        tableIds: removed.map((table) => table.id),
+        seats: removed.reduce((seats, table) => seats + table.maxSize, 0),
+      });
+    }
+    return slots;
+  }
+
+  /**
+   * Free tables for affected bookings at the same time: the blackout's sector first,
+   * then the restaurant's other sectors. Bookings are handled by start time, so
+   * earlier ones get the first pick; those without a relocation are left out.
+   * Nothing is written: the caller applies the relocations.
+   *
+   * @param blackout - The new blackout (not saved yet)
+   */
+  private async planRelocations(
+    bookings: Booking[],
+    blackout: Blackout,
+    restaurant: Restaurant,
+  ): Promise<RelocatedBooking[]> {
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+
+    // Bookings are relocated within their own service day (multi-day and recurring
+    // blackouts cover several), against the occurrence they overlap
+    const byServiceDay = new Map<
+      string,
+      { occurrence: Blackout; bookings: Booking[] }
+    >();
+    for (const booking of bookings) {
+      const [occurrence] = expandBlackout(blackout, booking);
+      const day = getServiceDate(
+        serviceWindows,
+        booking.start,
+        restaurant.timezone,
+      );
+      const group = byServiceDay.get(day) ?? { occurrence, bookings: [] };
+      group.bookings.push(booking);
+      byServiceDay.set(day, group);
+    }
+
+    const relocated: RelocatedBooking[] = [];
+    for (const [day, group] of byServiceDay) {
+      relocated.push(
+        ...(await this.planServiceDayRelocations(
+          group.bookings,
+          group.occurrence,
+          restaurant,
+          parseISO(day),
+          serviceWindows,
+        )),
+      );
+    }
+    return relocated;
+  }
+
+  private async planServiceDayRelocations(
+    bookings: Booking[],
+    blackout: Blackout,
+    restaurant: Restaurant,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+  ): Promise<RelocatedBooking[]> {
+    const sectors = (
+      await this.bookingQueryService.resolveSectors(restaurant.id)
+    ).sort(
+      (a, b) =>
+        Number(b.id === blackout.sectorId) - Number(a.id === blackout.sectorId),
+    );
+    const occupancies = await this.bookingQueryService.loadOccupancy(
+      restaurant,
+      sectors,
+      date,
+      serviceWindows,
+    );
+    for (const occupancy of occupancies) {
+      // An edited blackout replaces its stored version
+      occupancy.blackouts = occupancy.blackouts.filter(
+        (other) => other.id !== blackout.id,
+      );
+      if (
+        blackout.sectorId === null ||
+        occupancy.sectorId === blackout.sectorId
+      ) {
+        occupancy.blackouts.push(blackout);
+      }
+    }
+
+    const layouts = new Map<
+      string,
+      { tables: Table[]; adjacencies: TableAdjacency[] }
+    >();
+    for (const sector of sectors) {
+      layouts.set(sector.id, {
+        tables: await this.tableRepository.findBySectorId(sector.id),
+        adjacencies: await this.tableAdjacencyRepository.findBySectorId(
+          sector.id,
+        ),
+      });
+    }
+
+    const relocated: RelocatedBooking[] = [];
+    const byStart = [...bookings].sort(
+      (a, b) =>
+        a.start.getTime() - b.start.getTime() || a.id.localeCompare(b.id),
+    );
+    for (const booking of byStart) {
+      // The booking no longer holds its current tables
+      for (const occupancy of occupancies) {
+        occupancy.bookings = occupancy.bookings.filter(
+          (other) => other.id !== booking.id,
+        );
+      }
+
+      const target = this.findRelocationTarget(
+        booking,
+        occupancies,
+        layouts,
+        restaurant,
+        date,
+        serviceWindows,
+      );
+      if (!target) {
+        continue;
+      }
+
+      // Later relocations must not take the same tables
+      occupancies
+        .find((occupancy) => occupancy.sectorId === target.sectorId)
+        ?.bookings.push({
+          ...booking,
+          sectorId: target.sectorId,
+          tableIds: target.tableIds,
+        });
+
+      relocated.push({
+        bookingId: booking.id,
+        fromSectorId: booking.sectorId,
+        fromTableIds: booking.tableIds,
+        sectorId: target.sectorId,
+        tableIds: target.tableIds,
+      });
+    }
+
+    return relocated;
+  }
+
+  /**
+   * Best free single or combo for the booking's party, required attributes and exact
+   * time, searching sectors in order and ranking like a new booking would be ranked.
+   */
+  private findRelocationTarget(
+    booking: Booking,
+    occupancies: SectorOccupancy[],
+    layouts: Map<string, { tables: Table[]; adjacencies: TableAdjacency[] }>,
+    restaurant: Restaurant,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+  ): ComboCandidate | null {
+    for (const occupancy of occupancies) {
+      const layout = layouts.get(occupancy.sectorId);
+      if (!layout) {
+        continue;
+      }
+
+      // Gaps covering the booking, narrowed to the booking itself
+      const candidates = this.bookingQueryService
+        .findCandidates(
+          layout.tables,
+          occupancy.bookings,
+          occupancy.blackouts,
+          occupancy.sectorId,
+          date,
+          booking.durationMinutes,
+          booking.partySize,
+          restaurant,
+          serviceWindows,
+          layout.adjacencies,
+          undefined,
+          undefined,
+          booking.requiredAttributes ?? undefined,
+        )
+        .filter(
+          (candidate) =>
+            candidate.interval.start <= booking.start &&
+            candidate.interval.end >= booking.end,
+        )
+        .map((candidate) => ({
+          ...candidate,
+          interval: { start: booking.start, end: booking.end },
+        }));
+
+      const best = this.wokiBrainSelectorService.selectBestCandidate(
+        candidates,
+        {
+          strategy: restaurant.selectionStrategy,
+          partySize: booking.partySize,
+          tables: layout.tables,
+          slotMinutes: restaurant.slotMinutes,
+        },
+      );
+      if (best) {
+        return best;
+      }
+    }
+    return null;
+  }
+
   private toResponse(
     blackout: Blackout,
     timezone: string,
     cancelledBookingIds: string[] = [],
+    relocatedBookings: RelocatedBooking[] = [],
   ): CreateBlackoutResponse {
     const formatDateInTimezone = (date: Date) =>
       formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
@@ -286,11 +1142,13 @@ export class BlackoutCommandService {
       tableIds: blackout.tableIds,
       start: formatDateInTimezone(blackout.start),
       end: formatDateInTimezone(blackout.end),
+      recurrence: toBlackoutRecurrenceResponse(blackout.recurrence),
       reason: blackout.reason,
       notes: blackout.notes,
       createdAt: formatDateInTimezone(blackout.createdAt),
       updatedAt: formatDateInTimezone(blackout.updatedAt),
       cancelledBookingIds,
+      relocatedBookings,
     };
   }
 }
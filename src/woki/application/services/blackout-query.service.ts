@@ -13,6 +13,7 @@ import {
   ListBlackoutsQuery,
   ListBlackoutsResponse,
 } from '../dto/list-blackouts.dto';
+import { toBlackoutRecurrenceResponse } from '../utils/blackout-recurrence-response.util';
 
 @Injectable()
 export class BlackoutQueryService {
@@ -80,6 +81,7 @@ export class BlackoutQueryService {
         tableIds: blackout.tableIds,
         start: formatDateInTimezone(blackout.start),
         end: formatDateInTimezone(blackout.end),
+        recurrence: toBlackoutRecurrenceResponse(blackout.recurrence),
         reason: blackout.reason,
         notes: blackout.notes,
       })),
@@ -0,0 +1,241 @@
+import { Injectable } from '@nestjs/common';
+import { addMinutes } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { GapDiscoveryService } from '../../domain/services/gap-discovery.service';
+import { WokiBrainSelectorService } from '../../domain/services/wokibrain-selector.service';
+import { Restaurant } from '../../domain/entities/restaurant.entity';
+import { ComboCandidate } from '../../domain/types/combo-candidate.type';
+import { AlternativeReason } from '../../domain/types/alternative-reason.enum';
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { SelectionStrategyName } from '../../domain/types/selection-strategy.type';
+import { TableAttribute } from '../../domain/types/table-attribute.enum';
+import { BookingAlternative } from '../dto/booking-alternative.dto';
+import { BookingQueryService, SectorOccupancy } from './booking-query.service';
+
+@Injectable()
+export class BookingAlternativesService {
+  constructor(
+    private readonly bookingQueryService: BookingQueryService,
+    private readonly gapDiscoveryService: GapDiscoveryService,
+    private readonly wokiBrainSelectorService: WokiBrainSelectorService,
+  ) {}
+
+  /**
+   * Nearest alternatives for a request that has no capacity:
+   * - the closest earlier and later start for the same party and duration
+   * - the longest shorter duration that fits the requested window
+   * - the requested window in a sector that was not searched
+   *
+   * At most one alternative per reason, ordered by distance from the request.
+   *
+   * @param occupancies - Bookings and blackouts of the requested sector(s)
+   */
+  async findAlternatives(
+    request: {
+      sectorId?: string;
+      partySize: number;
+      durationMinutes: number;
+      windowStart?: string;
+      windowEnd?: string;
+      requiredAttributes?: TableAttribute[];
+      preferredAttributes?: TableAttribute[];
+      strategy?: SelectionStrategyName;
+    },
+    restaurant: Restaurant,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+    occupancies: SectorOccupancy[],
+  ): Promise<BookingAlternative[]> {
+    // The requested window on the service day (closed day = nothing to suggest)
+    const requestedWindows = this.gapDiscoveryService.getServiceWindowsForDate(
+      restaurant,
+      date,
+      serviceWindows,
+      request.windowStart,
+      request.windowEnd,
+    );
+    if (requestedWindows.length === 0) {
+      return [];
+    }
+
+    const slotMinutes = restaurant.slotMinutes;
+    const slotMs = slotMinutes * 60 * 1000;
+
+    // Candidates ranked like createBooking ranks them
+    const search = async (
+      sectorOccupancies: SectorOccupancy[],
+      durationMinutes: number,
+      withinWindow: boolean,
+    ): Promise<ComboCandidate[]> => {
+      const searches = await this.bookingQueryService.searchSectors(
+        sectorOccupancies,
+        date,
+        durationMinutes,
+        request.partySize,
+        restaurant,
+        serviceWindows,
+        withinWindow ? request.windowStart : undefined,
+        withinWindow ? request.windowEnd : undefined,
+        request.requiredAttributes,
+      );
+      return this.wokiBrainSelectorService.rankCandidates(
+        searches.flatMap((sectorSearch) => sectorSearch.candidates),
+        {
+          strategy: request.strategy ?? restaurant.selectionStrategy,
+          partySize: request.partySize,
+          tables: searches.flatMap((sectorSearch) => sectorSearch.tables),
+          sectorPreference: restaurant.sectorPreference,
+          preferredAttributes: request.preferredAttributes,
+          slotMinutes: restaurant.slotMinutes,
+        },
+      );
+    };
+
+    const alternatives: Array<{
+      reason: AlternativeReason;
+      candidate: ComboCandidate;
+      start: Date;
+      durationMinutes: number;
+      distanceMinutes: number;
+    }> = [];
+
+    // Same window, other sectors
+    if (request.sectorId) {
+      const otherSectors = (
+        await this.bookingQueryService.resolveSectors(restaurant.id)
+      ).filter((sector) => sector.id !== request.sectorId);
+      const [best] = await search(
+        await this.bookingQueryService.loadOccupancy(
+          restaurant,
+          otherSectors,
+          date,
+          serviceWindows,
+        ),
+        request.durationMinutes,
+        true,
+      );
+      if (best) {
+        alternatives.push({
+          reason: AlternativeReason.OTHER_SECTOR,
+          candidate: best,
+          start: best.interval.start,
+          durationMinutes: request.durationMinutes,
+          distanceMinutes: 0,
+        });
+      }
+    }
+
+    // Same party and duration anywhere in the service day, closest to the window
+    if (request.windowStart || request.windowEnd) {
+      const durationMs = request.durationMinutes * 60 * 1000;
+      const requestedStart = Math.min(
+        ...requestedWindows.map((window) => window.start.getTime()),
+      );
+      const latestRequestedStart =
+        Math.max(...requestedWindows.map((window) => window.end.getTime())) -
+        durationMs;
+
+      // Ranked, so ties in distance go to the candidate the selector prefers
+      const dayCandidates = await search(
+        occupancies,
+        request.durationMinutes,
+        false,
+      );
+
+      let earlier: { candidate: ComboCandidate; start: number } | null = null;
+      let later: { candidate: ComboCandidate; start: number } | null = null;
+      for (const candidate of dayCandidates) {
+        const gapStart = candidate.interval.start.getTime();
+        const lastStart = candidate.interval.end.getTime() - durationMs;
+
+        // Latest slot starting before the window
+        const earlierStart = this.alignDown(
+          Math.min(lastStart, requestedStart - slotMs),
+          gapStart,
+          slotMs,
+        );
+        if (
+          earlierStart >= gapStart &&
+          (!earlier || earlierStart > earlier.start)
+        ) {
+          earlier = { candidate, start: earlierStart };
+        }
+
+        // Earliest slot starting after the window's last possible start
+        const laterStart = this.alignUp(
+          Math.max(gapStart, latestRequestedStart + slotMs),
+          gapStart,
+          slotMs,
+        );
+        if (laterStart <= lastStart && (!later || laterStart < later.start)) {
+          later = { candidate, start: laterStart };
+        }
+      }
+
+      if (earlier) {
+        alternatives.push({
+          reason: AlternativeReason.EARLIER,
+          candidate: earlier.candidate,
+          start: new Date(earlier.start),
+          durationMinutes: request.durationMinutes,
+          distanceMinutes: (requestedStart - earlier.start) / 60000,
+        });
+      }
+      if (later) {
+        alternatives.push({
+          reason: AlternativeReason.LATER,
+          candidate: later.candidate,
+          start: new Date(later.start),
+          durationMinutes: request.durationMinutes,
+          distanceMinutes: (later.start - latestRequestedStart) / 60000,
+        });
+      }
+    }
+
+    // Same window, shorter duration (longest that fits)
+    for (
+      let durationMinutes = request.durationMinutes - slotMinutes;
+      durationMinutes >= slotMinutes;
+      durationMinutes -= slotMinutes
+    ) {
+      const [best] = await search(occupancies, durationMinutes, true);
+      if (best) {
+        alternatives.push({
+          reason: AlternativeReason.SHORTER_DURATION,
+          candidate: best,
+          start: best.interval.start,
+          durationMinutes,
+          distanceMinutes: request.durationMinutes - durationMinutes,
+        });
+        break;
+      }
+    }
+
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return alternatives
+      .sort((a, b) => a.distanceMinutes - b.distanceMinutes)
+      .map((alternative) => ({
+        reason: alternative.reason,
+        kind: alternative.candidate.kind,
+        sectorId: alternative.candidate.sectorId,
+        tableIds: alternative.candidate.tableIds,
+        start: formatDateInTimezone(alternative.start),
+        end: formatDateInTimezone(
+          addMinutes(alternative.start, alternative.durationMinutes),
+        ),
+        durationMinutes: alternative.durationMinutes,
+        distanceMinutes: alternative.distanceMinutes,
+      }));
+  }
+
+  // Snap an instant onto the slot grid of a gap (gaps start on the grid)
+  private alignDown(instant: number, gapStart: number, slotMs: number): number {
+    return gapStart + Math.floor((instant - gapStart) / slotMs) * slotMs;
+  }
+
+  private alignUp(instant: number, gapStart: number, slotMs: number): number {
+    return gapStart + Math.ceil((instant - gapStart) / slotMs) * slotMs;
+  }
+}
@@ -5,36 +5,61 @@ import {
   BadRequestException,
   Inject,
 } from '@nestjs/common';
-import { parseISO } from 'date-fns';
+import { ConfigService } from '@nestjs/config';
+import { parseISO, addMinutes } from 'date-fns';
 import { formatInTimeZone } from 'date-fns-tz';
 import { randomUUID } from 'crypto';
 import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
 import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
-import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
 import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
 import { BlackoutRepository as IBlackoutRepository } from '../../ports/repositories/blackout.repository.interface';
 import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { GuestRepository as IGuestRepository } from '../../ports/repositories/guest.repository.interface';
 import {
   RESTAURANT_REPOSITORY,
   SECTOR_REPOSITORY,
-  TABLE_REPOSITORY,
   BOOKING_REPOSITORY,
   BLACKOUT_REPOSITORY,
   SERVICE_WINDOW_REPOSITORY,
+  GUEST_REPOSITORY,
 } from '../../tokens';
 import { WokiBrainSelectorService } from '../../domain/services/wokibrain-selector.service';
-import { LockManagerService } from '../../infrastructure/locking/lock-manager.service';
+import { BookingLifecycleService } from '../../domain/services/booking-lifecycle.service';
 import { IdempotencyService } from '../../infrastructure/idempotency/idempotency.service';
 import { MetricsService } from '../../infrastructure/metrics/metrics.service';
+import { CapacityEventsService } from '../../infrastructure/events/capacity-events.service';
 import { Booking } from '../../domain/entities/booking.entity';
+import { Guest } from '../../domain/entities/guest.entity';
+import { Restaurant } from '../../domain/entities/restaurant.entity';
 import { BookingStatus } from '../../domain/types/booking-status.enum';
 import { ComboCandidate } from '../../domain/types/combo-candidate.type';
 import {
   CreateBookingRequest,
   CreateBookingResponse,
 } from '../dto/create-booking.dto';
-import { BookingQueryService } from './booking-query.service';
-import { validateWindowWithinServiceHours } from '../utils/window-validation.util';
+import {
+  UpdateBookingRequest,
+  UpdateBookingResponse,
+} from '../dto/update-booking.dto';
+import { CreateHoldRequest, CreateHoldResponse } from '../dto/create-hold.dto';
+import { GuestRequest } from '../dto/guest.dto';
+import { SelectionExplanation } from '../dto/selection-explanation.dto';
+import { AllConfigType } from '../../../config/config.type';
+import { BookingQueryService, SectorOccupancy } from './booking-query.service';
+import { BookingAlternativesService } from './booking-alternatives.service';
+import { GuestCommandService } from './guest-command.service';
+import { SlotLockService } from './slot-lock.service';
+import {
+  validateSlotGrid,
+  validateWindowWithinServiceHours,
+} from '../utils/window-validation.util';
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { getServiceDate } from '../../domain/utils/service-day.util';
+import {
+  alignToSlotGrid,
+  moveToPreferredStart,
+} from '../../domain/utils/slot-grid.util';
+import { toGuestResponse } from '../utils/guest-response.util';
 
 @Injectable()
 export class BookingCommandService {
@@ -43,33 +68,34 @@ export class BookingCommandService {
     private readonly restaurantRepository: IRestaurantRepository,
     @Inject(SECTOR_REPOSITORY)
     private readonly sectorRepository: ISectorRepository,
-    @Inject(TABLE_REPOSITORY)
-    private readonly tableRepository: ITableRepository,
     @Inject(BOOKING_REPOSITORY)
     private readonly bookingRepository: IBookingRepository,
     @Inject(BLACKOUT_REPOSITORY)
     private readonly blackoutRepository: IBlackoutRepository,
     @Inject(SERVICE_WINDOW_REPOSITORY)
     private readonly serviceWindowRepository: IServiceWindowRepository,
+    @Inject(GUEST_REPOSITORY)
+    private readonly guestRepository: IGuestRepository,
     private readonly wokiBrainSelectorService: WokiBrainSelectorService,
-    private readonly lockManagerService: LockManagerService,
+    private readonly bookingLifecycleService: BookingLifecycleService,
     private readonly idempotencyService: IdempotencyService,
     private readonly bookingQueryService: BookingQueryService,
+    private readonly slotLockService: SlotLockService,
+    private readonly bookingAlternativesService: BookingAlternativesService,
+    private readonly guestCommandService: GuestCommandService,
     private readonly metricsService: MetricsService,
+    private readonly capacityEventsService: CapacityEventsService,
+    private readonly configService: ConfigService<AllConfigType>,
   ) {}
 
+  /**
+   * @param explain - Attach how the tables were chosen (not available on idempotent replays)
+   */
   async createBooking(
     request: CreateBookingRequest,
     idempotencyKey: string,
+    explain = false,
   ): Promise<CreateBookingResponse> {
-    // Validate duration is multiple of 15
-    if (request.durationMinutes % 15 !== 0) {
-      throw new BadRequestException({
-        error: 'invalid_input',
-        detail: 'Duration must be a multiple of 15 minutes',
-      });
-    }
-
     // Parse date
     const date = parseISO(request.date);
     if (isNaN(date.getTime())) {
@@ -90,52 +116,272 @@ export class BookingCommandService {
       });
     }
 
+    // Duration (when given; duration rules always are) and window on the slot grid
+    validateSlotGrid(restaurant.slotMinutes, request);
+
     // Check idempotency (key is now required, so always check)
     const cached = await this.idempotencyService.get(idempotencyKey, request);
     if (cached) {
-      return this.toResponse(cached, restaurant.timezone);
+      const cachedGuest = cached.guestId
+        ? await this.guestRepository.findById(cached.guestId)
+        : null;
+      return this.toResponse(cached, restaurant.timezone, cachedGuest);
     }
 
-    // Get sector
-    const sector = await this.sectorRepository.findById(request.sectorId);
-    if (!sector) {
+    // Requested sector, or every sector of the restaurant
+    const sectors = await this.bookingQueryService.resolveSectors(
+      restaurant.id,
+      request.sectorId,
+    );
+
+    // Service windows decide the service day's hours (it may run past midnight)
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+
+    // Requested duration, else the restaurant's turn time for the party
+    const slotRequest = {
+      ...request,
+      durationMinutes: this.bookingQueryService.resolveDuration(
+        restaurant,
+        date,
+        serviceWindows,
+        request,
+      ),
+    };
+
+    // Get all bookings and blackouts for the date ONCE and reuse them
+    // This ensures consistency between candidate selection and verification
+    const occupancies = await this.bookingQueryService.loadOccupancy(
+      restaurant,
+      sectors,
+      date,
+      serviceWindows,
+    );
+
+    // Find best candidate using query service
+    const { candidate, explanation } = await this.findBestCandidate(
+      slotRequest,
+      restaurant,
+      date,
+      serviceWindows,
+      occupancies,
+      undefined,
+      explain,
+    );
+
+    if (!candidate) {
+      this.metricsService.recordConflict('no_capacity');
+      throw new ConflictException({
+        error: 'no_capacity',
+        detail: 'No single or combo gap fits duration within window',
+        // Nearest times, durations or sectors that would fit instead
+        alternatives: await this.bookingAlternativesService.findAlternatives(
+          slotRequest,
+          restaurant,
+          date,
+          serviceWindows,
+          occupancies,
+        ),
+        ...(explanation && { explanation }),
+      });
+    }
+
+    // Start assignment time measurement (from candidate selection to booking creation)
+    const assignmentStartTime = Date.now();
+
+    // Book only the requested duration, leaving the rest of the gap free
+    const slot: ComboCandidate = {
+      ...candidate,
+      interval: {
+        start: candidate.interval.start,
+        end: addMinutes(candidate.interval.start, slotRequest.durationMinutes),
+      },
+    };
+
+    // Lock the candidate's tables and arrival slot and re-verify capacity and pacing
+    // (kept locked until the booking is saved)
+    const acquiredLocks = await this.slotLockService.lockSlot(
+      restaurant,
+      date,
+      serviceWindows,
+      slot,
+      request.partySize,
+    );
+
+    try {
+      // Resolve guest profile only once capacity is confirmed
+      const guest = request.guest
+        ? await this.guestCommandService.resolveGuest(
+            request.restaurantId,
+            request.guest,
+          )
+        : null;
+
+      // Create booking
+      const booking = new Booking();
+      booking.id = `BK_${randomUUID().substring(0, 8).toUpperCase()}`;
+      booking.restaurantId = request.restaurantId;
+      booking.sectorId = slot.sectorId;
+      booking.tableIds = slot.tableIds;
+      booking.partySize = request.partySize;
+      booking.guestId = guest ? guest.id : null;
+      booking.start = slot.interval.start;
+      booking.end = slot.interval.end;
+      booking.durationMinutes = slotRequest.durationMinutes;
+      booking.requiredAttributes = request.requiredAttributes ?? null;
+      booking.status = BookingStatus.CONFIRMED;
+      booking.createdAt = new Date();
+      booking.updatedAt = new Date();
+
+      const savedBooking = await this.bookingRepository.create(booking);
+
+      // Record assignment time (from candidate selection to booking creation)
+      const assignmentTime = Date.now() - assignmentStartTime;
+      this.metricsService.recordAssignmentTime(assignmentTime);
+
+      // Record booking created
+      this.metricsService.recordBookingCreated();
+
+      // Store idempotency key (required, so always store)
+      await this.idempotencyService.set(idempotencyKey, savedBooking, request);
+
+      return {
+        ...this.toResponse(savedBooking, restaurant.timezone, guest),
+        ...(explanation && { explanation }),
+      };
+    } finally {
+      // Release all acquired locks
+      this.slotLockService.releaseLocks(acquiredLocks);
+    }
+  }
+
+  /**
+   * Reschedule and/or resize an existing booking.
+   * Discovery is re-run without the booking's own occupancy; the current tables are kept
+   * whenever they still fit. Without a new window, the booking keeps its current start time.
+   */
+  async updateBooking(
+    id: string,
+    request: UpdateBookingRequest,
+  ): Promise<UpdateBookingResponse> {
+    const booking = await this.bookingRepository.findById(id);
+    if (!booking) {
       throw new NotFoundException({
         error: 'not_found',
-        detail: 'Sector not found',
+        detail: 'Booking not found',
+      });
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new ConflictException({
+        error: 'invalid_state',
+        detail: `Cannot modify a booking in status ${booking.status}`,
       });
     }
 
-    if (sector.restaurantId !== restaurant.id) {
+    const durationMinutes = request.durationMinutes ?? booking.durationMinutes;
+    const partySize = request.partySize ?? booking.partySize;
+
+    const restaurant = await this.restaurantRepository.findById(
+      booking.restaurantId,
+    );
+    if (!restaurant) {
       throw new NotFoundException({
         error: 'not_found',
-        detail: 'Sector not found in restaurant',
+        detail: 'Restaurant not found',
       });
     }
 
-    // Get all bookings and blackouts for the date ONCE and reuse them
-    // This ensures consistency between candidate selection and verification
-    const bookings = await this.bookingRepository.findByDate(
-      request.restaurantId,
-      request.sectorId,
-      date,
-      restaurant.timezone,
+    // Only what changes must be on the grid (the current times may predate it)
+    validateSlotGrid(restaurant.slotMinutes, request);
+
+    const sector = await this.sectorRepository.findById(booking.sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+
+    // Default to the booking's current service day (after-midnight bookings
+    // belong to the previous evening's service)
+    const date = parseISO(
+      request.date ??
+        getServiceDate(serviceWindows, booking.start, restaurant.timezone),
     );
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'Invalid date format',
+      });
+    }
+
+    // Without an explicit window, keep the current start time. A start left off the
+    // grid by a grid change searches the grid slots around it instead
+    let windowStart = request.windowStart;
+    let windowEnd = request.windowEnd;
+    if (!windowStart && !windowEnd) {
+      const slotMs = restaurant.slotMinutes * 60 * 1000;
+      const nextStart = alignToSlotGrid(
+        booking.start,
+        restaurant.slotMinutes,
+        restaurant.timezone,
+      );
+      windowStart = formatInTimeZone(
+        nextStart > booking.start
+          ? new Date(nextStart.getTime() - slotMs)
+          : booking.start,
+        restaurant.timezone,
+        'HH:mm',
+      );
+      windowEnd = formatInTimeZone(
+        alignToSlotGrid(
+          addMinutes(booking.start, durationMinutes),
+          restaurant.slotMinutes,
+          restaurant.timezone,
+        ),
+        restaurant.timezone,
+        'HH:mm',
+      );
+    }
+
+    // Exclude the booking's own occupancy from discovery
+    const bookings = (
+      await this.bookingRepository.findByDate(
+        booking.restaurantId,
+        booking.sectorId,
+        date,
+        restaurant.timezone,
+        serviceWindows,
+      )
+    ).filter((b) => b.id !== booking.id);
 
     const blackouts = await this.blackoutRepository.findByDate(
-      request.restaurantId,
-      request.sectorId,
+      booking.restaurantId,
+      booking.sectorId,
       date,
       restaurant.timezone,
+      serviceWindows,
     );
 
-    // Find best candidate using query service
-    const candidate = await this.findBestCandidate(
-      request,
+    // Rescheduling keeps the booking in its sector
+    const { candidate } = await this.findBestCandidate(
+      {
+        restaurantId: booking.restaurantId,
+        partySize,
+        durationMinutes,
+        windowStart,
+        windowEnd,
+        requiredAttributes: booking.requiredAttributes ?? undefined,
+      },
       restaurant,
-      sector,
       date,
-      bookings,
-      blackouts,
+      serviceWindows,
+      [{ sectorId: sector.id, bookings, blackouts }],
+      booking.tableIds,
     );
 
     if (!candidate) {
@@ -146,249 +392,444 @@ export class BookingCommandService {
       });
     }
 
-    // Start assignment time measurement (from candidate selection to booking creation)
-    const assignmentStartTime = Date.now();
+    // Narrow the gap to the requested duration
+    const slot: ComboCandidate = {
+      ...candidate,
+      interval: {
+        start: candidate.interval.start,
+        end: addMinutes(candidate.interval.start, durationMinutes),
+      },
+    };
 
-    // Acquire locks for all tables in the candidate (sorted to prevent deadlocks)
-    const sortedTableIds = [...candidate.tableIds].sort();
-    const acquiredLocks: Array<{ release: () => void; waitTimeMs: number }> =
-      [];
-    let maxWaitTimeMs = 0;
+    const acquiredLocks = await this.slotLockService.lockSlot(
+      restaurant,
+      date,
+      serviceWindows,
+      slot,
+      partySize,
+      { bookingId: booking.id },
+    );
 
     try {
-      // Acquire locks sequentially for each table
-      for (const tableId of sortedTableIds) {
-        const lockKey = this.createTableLockKey(
+      booking.tableIds = slot.tableIds;
+      booking.partySize = partySize;
+      booking.start = slot.interval.start;
+      booking.end = slot.interval.end;
+      booking.durationMinutes = durationMinutes;
+      booking.updatedAt = new Date();
+
+      const savedBooking = await this.bookingRepository.update(booking);
+
+      const guest = savedBooking.guestId
+        ? await this.guestRepository.findById(savedBooking.guestId)
+        : null;
+
+      return this.toResponse(savedBooking, restaurant.timezone, guest);
+    } finally {
+      this.slotLockService.releaseLocks(acquiredLocks);
+    }
+  }
+
+  /**
+   * Reserve a slot tentatively (e.g. while the guest fills in their details).
+   * The hold expires after the configured TTL unless confirmed.
+   */
+  async createHold(request: CreateHoldRequest): Promise<CreateHoldResponse> {
+    // Restaurant is needed for timezone formatting of the response
+    const restaurant = await this.restaurantRepository.findById(
+      request.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    // Duration (when given; duration rules always are) and window on the slot grid
+    validateSlotGrid(restaurant.slotMinutes, request);
+
+    const ttlSeconds = this.configService.getOrThrow('woki.holdTtlSeconds', {
+      infer: true,
+    });
+
+    const hold = await this.placeHold(
+      request,
+      null,
+      new Date(Date.now() + ttlSeconds * 1000),
+    );
+
+    // Resolve guest profile only once the slot is held
+    const guest = request.guest
+      ? await this.guestCommandService.resolveGuest(
           request.restaurantId,
-          request.sectorId,
-          tableId,
-          candidate.interval.start,
-        );
-
-        try {
-          const lockResult = await this.lockManagerService.acquire(lockKey);
-          acquiredLocks.push(lockResult);
-          maxWaitTimeMs = Math.max(maxWaitTimeMs, lockResult.waitTimeMs);
-        } catch (error) {
-          // Release all previously acquired locks before throwing
-          for (const lock of acquiredLocks) {
-            lock.release();
-          }
-          acquiredLocks.length = 0;
-
-          if (error instanceof Error && error.message === 'Lock timeout') {
-            // For timeout cases, we can't get the exact wait time since the error
-            // is thrown before returning. We record the timeout separately.
-            this.metricsService.recordLockTimeout();
-            this.metricsService.recordConflict('table_locked');
-            throw new ConflictException({
-              error: 'table_locked',
-              detail:
-                'Table is currently being booked by another request. Please try again.',
-            });
-          }
-          throw error;
-        }
-      }
+          request.guest,
+        )
+      : null;
+    if (guest) {
+      hold.guestId = guest.id;
+      await this.bookingRepository.update(hold);
+    }
 
-      // Record lock wait time (use max wait time as it represents the longest wait)
-      if (maxWaitTimeMs > 0) {
-        this.metricsService.recordLockWaitTime(maxWaitTimeMs);
-      }
-    } catch (error) {
-      // Ensure all locks are released if we haven't already
-      for (const lock of acquiredLocks) {
-        lock.release();
-      }
-      throw error;
+    return this.toResponse(hold, restaurant.timezone, guest);
+  }
+
+  /**
+   * Place a HELD booking on the best candidate for the request.
+   * The hold blocks capacity until `expiresAt` and must be confirmed to become a regular booking.
+   * Without a duration, the restaurant's duration rules decide it.
+   * Throws 409 `no_capacity` / `table_locked` like createBooking when nothing can be held.
+   */
+  async placeHold(
+    request: Pick<
+      CreateBookingRequest,
+      | 'restaurantId'
+      | 'sectorId'
+      | 'partySize'
+      | 'durationMinutes'
+      | 'date'
+      | 'windowStart'
+      | 'windowEnd'
+      | 'requiredAttributes'
+    >,
+    guestId: string | null,
+    expiresAt: Date,
+  ): Promise<Booking> {
+    const date = parseISO(request.date);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'Invalid date format',
+      });
     }
 
-    try {
-      // Re-verify capacity (double-check after acquiring lock)
-      // Re-query ALL bookings and blackouts for the date to check for any new bookings/blackouts created between
-      // candidate selection and lock acquisition. Use the same query method as initial query.
-      const currentBookings = await this.bookingRepository.findByDate(
-        request.restaurantId,
-        request.sectorId,
-        date,
-        restaurant.timezone,
-      );
+    const restaurant = await this.restaurantRepository.findById(
+      request.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
 
-      const currentBlackouts = await this.blackoutRepository.findByDate(
-        request.restaurantId,
-        request.sectorId,
-        date,
-        restaurant.timezone,
-      );
+    const sectors = await this.bookingQueryService.resolveSectors(
+      restaurant.id,
+      request.sectorId,
+    );
 
-      // Filter to only bookings that involve the candidate's tables
-      const relevantBookings = currentBookings.filter(
-        (b) =>
-          b.status === BookingStatus.CONFIRMED &&
-          b.tableIds.some((id) => candidate.tableIds.includes(id)),
-      );
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
 
-      // Filter blackouts that affect the candidate's tables
-      const relevantBlackouts = currentBlackouts.filter((bl) => {
-        // Check if any candidate table is in the blackout's tableIds
-        if (bl.tableIds.some((id) => candidate.tableIds.includes(id))) {
-          return true;
-        }
-        // If blackout has empty tableIds and sectorId matches, it's a whole-sector blackout
-        if (bl.sectorId === request.sectorId && bl.tableIds.length === 0) {
-          return true;
-        }
-        return false;
+    const durationMinutes = this.bookingQueryService.resolveDuration(
+      restaurant,
+      date,
+      serviceWindows,
+      request,
+    );
+
+    const occupancies = await this.bookingQueryService.loadOccupancy(
+      restaurant,
+      sectors,
+      date,
+      serviceWindows,
+    );
+
+    const { candidate } = await this.findBestCandidate(
+      { ...request, durationMinutes },
+      restaurant,
+      date,
+      serviceWindows,
+      occupancies,
+    );
+
+    if (!candidate) {
+      this.metricsService.recordConflict('no_capacity');
+      throw new ConflictException({
+        error: 'no_capacity',
+        detail: 'No single or combo gap fits duration within window',
       });
+    }
 
-      const stillAvailable = this.verifyCapacityStillAvailable(
-        candidate,
-        relevantBookings,
-        relevantBlackouts,
-      );
+    // Only hold what was asked for, leaving the rest of the gap free
+    const slot: ComboCandidate = {
+      ...candidate,
+      interval: {
+        start: candidate.interval.start,
+        end: addMinutes(candidate.interval.start, durationMinutes),
+      },
+    };
 
-      if (!stillAvailable) {
-        this.metricsService.recordConflict('no_capacity');
-        throw new ConflictException({
-          error: 'no_capacity',
-          detail: 'Capacity no longer available',
-        });
-      }
+    const acquiredLocks = await this.slotLockService.lockSlot(
+      restaurant,
+      date,
+      serviceWindows,
+      slot,
+      request.partySize,
+    );
 
-      // Create booking
+    try {
       const booking = new Booking();
       booking.id = `BK_${randomUUID().substring(0, 8).toUpperCase()}`;
       booking.restaurantId = request.restaurantId;
-      booking.sectorId = request.sectorId;
-      booking.tableIds = candidate.tableIds;
+      booking.sectorId = slot.sectorId;
+      booking.tableIds = slot.tableIds;
       booking.partySize = request.partySize;
-      booking.start = candidate.interval.start;
-      booking.end = candidate.interval.end;
-      booking.durationMinutes = request.durationMinutes;
-      booking.status = BookingStatus.CONFIRMED;
+      booking.guestId = guestId;
+      booking.start = slot.interval.start;
+      booking.end = slot.interval.end;
+      booking.durationMinutes = durationMinutes;
+      booking.requiredAttributes = request.requiredAttributes ?? null;
+      booking.status = BookingStatus.HELD;
+      booking.holdExpiresAt = expiresAt;
       booking.createdAt = new Date();
       booking.updatedAt = new Date();
 
-      const savedBooking = await this.bookingRepository.create(booking);
+      return await this.bookingRepository.create(booking);
+    } finally {
+      this.slotLockService.releaseLocks(acquiredLocks);
+    }
+  }
 
-      // Record assignment time (from candidate selection to booking creation)
-      const assignmentTime = Date.now() - assignmentStartTime;
-      this.metricsService.recordAssignmentTime(assignmentTime);
+  /**
+   * Turn a HELD booking into a CONFIRMED one, optionally attaching the guest.
+   * Expired holds are marked EXPIRED and rejected with 409 `hold_expired`.
+   */
+  async confirmHold(
+    id: string,
+    guestRequest?: GuestRequest,
+  ): Promise<CreateBookingResponse> {
+    const booking = await this.bookingRepository.findById(id);
+    if (!booking) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Booking not found',
+      });
+    }
 
-      // Record booking created
-      this.metricsService.recordBookingCreated();
+    const restaurant = await this.restaurantRepository.findById(
+      booking.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
 
-      // Store idempotency key (required, so always store)
-      await this.idempotencyService.set(idempotencyKey, savedBooking, request);
+    if (
+      booking.status === BookingStatus.HELD &&
+      this.bookingLifecycleService.isHoldExpired(booking)
+    ) {
+      // Not swept yet
+      this.bookingLifecycleService.transition(booking, BookingStatus.EXPIRED);
+      booking.updatedAt = new Date();
+      await this.bookingRepository.update(booking);
+    }
 
-      return this.toResponse(savedBooking, restaurant.timezone);
-    } finally {
-      // Release all acquired locks
-      for (const lock of acquiredLocks) {
-        lock.release();
+    if (booking.status === BookingStatus.EXPIRED) {
+      throw new ConflictException({
+        error: 'hold_expired',
+        detail: 'Hold has expired',
+      });
+    }
+
+    const previousStatus = booking.status;
+    if (
+      !this.bookingLifecycleService.transition(booking, BookingStatus.CONFIRMED)
+    ) {
+      throw this.invalidTransition(previousStatus, BookingStatus.CONFIRMED);
+    }
+
+    const guest = guestRequest
+      ? await this.guestCommandService.resolveGuest(
+          booking.restaurantId,
+          guestRequest,
+        )
+      : booking.guestId
+        ? await this.guestRepository.findById(booking.guestId)
+        : null;
+    booking.guestId = guest ? guest.id : null;
+    booking.updatedAt = new Date();
+
+    const savedBooking = await this.bookingRepository.update(booking);
+    this.metricsService.recordBookingCreated();
+
+    return this.toResponse(savedBooking, restaurant.timezone, guest);
+  }
+
+  /**
+   * Mark every HELD booking past its expiry as EXPIRED and notify that the
+   * capacity is free again (once per restaurant/sector/day).
+   *
+   * @returns number of holds expired
+   */
+  async expireHolds(now: Date = new Date()): Promise<number> {
+    const expiredHolds = await this.bookingRepository.findExpiredHolds(now);
+
+    const released = new Map<
+      string,
+      { restaurantId: string; sectorId: string; date: string }
+    >();
+    let expiredCount = 0;
+    for (const hold of expiredHolds) {
+      if (
+        !this.bookingLifecycleService.transition(
+          hold,
+          BookingStatus.EXPIRED,
+          now,
+        )
+      ) {
+        continue;
+      }
+      hold.updatedAt = new Date();
+      await this.bookingRepository.update(hold);
+      expiredCount++;
+
+      const restaurant = await this.restaurantRepository.findById(
+        hold.restaurantId,
+      );
+      if (restaurant) {
+        const date = await this.getServiceDate(hold, restaurant.timezone);
+        released.set(`${hold.restaurantId}|${hold.sectorId}|${date}`, {
+          restaurantId: hold.restaurantId,
+          sectorId: hold.sectorId,
+          date,
+        });
       }
     }
+
+    for (const event of released.values()) {
+      await this.capacityEventsService.capacityReleased(event);
+    }
+
+    return expiredCount;
   }
 
+  /**
+   * @param preferredTableIds - When given, candidates on exactly these tables win over
+   *   any other candidate (used to keep a rescheduled booking on its current tables).
+   * @param explain - Also return the ranking and rejected tables behind the choice.
+   */
   private async findBestCandidate(
-    request: CreateBookingRequest,
-    restaurant: { timezone: string },
-    sector: { id: string },
+    request: Pick<
+      CreateBookingRequest,
+      | 'restaurantId'
+      | 'partySize'
+      | 'windowStart'
+      | 'windowEnd'
+      | 'preferredTime'
+      | 'requiredAttributes'
+      | 'preferredAttributes'
+      | 'strategy'
+    > & { durationMinutes: number },
+    restaurant: Pick<
+      Restaurant,
+      | 'id'
+      | 'timezone'
+      | 'slotMinutes'
+      | 'bufferMinutes'
+      | 'pacing'
+      | 'selectionStrategy'
+      | 'sectorPreference'
+    >,
     date: Date,
-    bookings: Booking[],
-    blackouts: Array<{
-      tableIds: string[];
-      sectorId: string | null;
-      start: Date;
-      end: Date;
-    }>,
-  ): Promise<ComboCandidate | null> {
-    // Get all tables in sector
-    const tables = await this.tableRepository.findBySectorId(sector.id);
-
-    // Get service windows for the restaurant
-    const serviceWindows =
-      await this.serviceWindowRepository.findByRestaurantId(
-        request.restaurantId,
-      );
-
+    serviceWindows: ServiceWindowRule[],
+    occupancies: SectorOccupancy[],
+    preferredTableIds?: string[],
+    explain = false,
+  ): Promise<{
+    candidate: ComboCandidate | null;
+    explanation: SelectionExplanation | null;
+  }> {
     // Validate windowStart/windowEnd is within service windows (if provided)
     if (request.windowStart && request.windowEnd) {
       validateWindowWithinServiceHours(
         request.windowStart,
         request.windowEnd,
         serviceWindows,
+        date,
       );
     }
 
-    // Use query service to find all candidates
-    const candidates = this.bookingQueryService.findCandidates(
-      tables,
-      bookings,
-      blackouts,
-      sector.id,
+    // Use query service to find all candidates, sector by sector
+    const searches = await this.bookingQueryService.searchSectors(
+      occupancies,
       date,
       request.durationMinutes,
       request.partySize,
       restaurant,
-      serviceWindows.map((w) => ({ start: w.start, end: w.end })),
+      serviceWindows,
       request.windowStart,
       request.windowEnd,
+      request.requiredAttributes,
     );
 
-    // Select best candidate using WokiBrain selector
-    return this.wokiBrainSelectorService.selectBestCandidate(candidates);
-  }
-
-  private verifyCapacityStillAvailable(
-    candidate: ComboCandidate,
-    bookings: Booking[],
-    blackouts: Array<{ start: Date; end: Date }>,
-  ): boolean {
-    // Check if candidate interval conflicts with any bookings
-    const bookingConflicts = bookings.filter((b) =>
-      this.intervalsOverlap(
-        candidate.interval.start,
-        candidate.interval.end,
-        b.start,
-        b.end,
-      ),
-    );
-
-    // Check if candidate interval conflicts with any blackouts
-    const blackoutConflicts = blackouts.filter((bl) =>
-      this.intervalsOverlap(
-        candidate.interval.start,
-        candidate.interval.end,
-        bl.start,
-        bl.end,
-      ),
+    // With a preferred time, each gap starts as close to it as it can
+    const preferredStart = this.bookingQueryService.resolvePreferredStart(
+      restaurant,
+      date,
+      serviceWindows,
+      request.preferredTime,
     );
+    const gaps = searches.flatMap((search) => search.candidates);
+    const candidates = preferredStart
+      ? moveToPreferredStart(
+          gaps,
+          preferredStart,
+          request.durationMinutes,
+          restaurant.slotMinutes,
+        )
+      : gaps;
+
+    // Per-request strategy wins over the restaurant's, which wins over the configured default
+    const selectionOptions = {
+      strategy: request.strategy ?? restaurant.selectionStrategy,
+      partySize: request.partySize,
+      tables: searches.flatMap((search) => search.tables),
+      sectorPreference: restaurant.sectorPreference,
+      preferredStart,
+      preferredAttributes: request.preferredAttributes,
+      slotMinutes: restaurant.slotMinutes,
+    };
 
-    return bookingConflicts.length === 0 && blackoutConflicts.length === 0;
-  }
-
-  private intervalsOverlap(
-    start1: Date,
-    end1: Date,
-    start2: Date,
-    end2: Date,
-  ): boolean {
-    return start1 < end2 && end1 > start2;
-  }
+    if (preferredTableIds) {
+      const preferredKey = [...preferredTableIds].sort().join('+');
+      const onPreferredTables = candidates.filter(
+        (c) => [...c.tableIds].sort().join('+') === preferredKey,
+      );
+      if (onPreferredTables.length > 0) {
+        return {
+          candidate: this.wokiBrainSelectorService.selectBestCandidate(
+            onPreferredTables,
+            selectionOptions,
+          ),
+          explanation: null,
+        };
+      }
+    }
 
-  /**
-   * Create a lock key for a single table at a specific time.
-   * Format: {restaurantId}|{sectorId}|{tableId}|{start}
-   */
-  private createTableLockKey(
-    restaurantId: string,
-    sectorId: string,
-    tableId: string,
-    start: Date,
-  ): string {
-    const startStr = start.toISOString();
-    return `${restaurantId}|${sectorId}|${tableId}|${startStr}`;
+    // Select best candidate using WokiBrain selector
+    return {
+      candidate: this.wokiBrainSelectorService.selectBestCandidate(
+        candidates,
+        selectionOptions,
+      ),
+      explanation: explain
+        ? this.bookingQueryService.explainSelection(
+            candidates,
+            selectionOptions,
+            searches,
+            date,
+            request.durationMinutes,
+            restaurant,
+            serviceWindows,
+            request.windowStart,
+            request.windowEnd,
+            request.requiredAttributes,
+          )
+        : null,
+    };
   }
 
   async cancelBooking(id: string): Promise<void> {
@@ -407,20 +848,109 @@ export class BookingCommandService {
     }
 
     // Mark booking as cancelled instead of deleting
-    booking.status = BookingStatus.CANCELLED;
+    if (
+      !this.bookingLifecycleService.transition(booking, BookingStatus.CANCELLED)
+    ) {
+      throw this.invalidTransition(booking.status, BookingStatus.CANCELLED);
+    }
     booking.updatedAt = new Date();
     await this.bookingRepository.update(booking);
 
     // Record cancellation in metrics
     this.metricsService.recordBookingCancelled();
+
+    // Let waiting guests pick up the freed tables
+    const restaurant = await this.restaurantRepository.findById(
+      booking.restaurantId,
+    );
+    if (restaurant) {
+      await this.capacityEventsService.capacityReleased({
+        restaurantId: booking.restaurantId,
+        sectorId: booking.sectorId,
+        date: await this.getServiceDate(booking, restaurant.timezone),
+      });
+    }
+  }
+
+  /**
+   * Service day a booking belongs to (a 01:00 booking after a 20:00-02:00
+   * window belongs to the previous evening).
+   */
+  private async getServiceDate(
+    booking: Booking,
+    timezone: string,
+  ): Promise<string> {
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(
+        booking.restaurantId,
+      );
+    return getServiceDate(serviceWindows, booking.start, timezone);
+  }
+
+  /**
+   * Move a booking along the seating lifecycle (arrive, seat, complete, no-show).
+   * Completing a booking before its scheduled end frees the rest of its interval.
+   */
+  async transitionBooking(
+    id: string,
+    status:
+      | BookingStatus.ARRIVED
+      | BookingStatus.SEATED
+      | BookingStatus.COMPLETED
+      | BookingStatus.NO_SHOW,
+  ): Promise<CreateBookingResponse> {
+    const booking = await this.bookingRepository.findById(id);
+    if (!booking) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Booking not found',
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      booking.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const previousStatus = booking.status;
+    if (!this.bookingLifecycleService.transition(booking, status)) {
+      throw this.invalidTransition(previousStatus, status);
+    }
+    booking.updatedAt = new Date();
+
+    const savedBooking = await this.bookingRepository.update(booking);
+
+    const guest = savedBooking.guestId
+      ? await this.guestRepository.findById(savedBooking.guestId)
+      : null;
+
+    return this.toResponse(savedBooking, restaurant.timezone, guest);
+  }
+
+  private invalidTransition(
+    from: BookingStatus,
+    to: BookingStatus,
+  ): ConflictException {
+    return new ConflictException({
+      error: 'invalid_transition',
+      detail: `Cannot move booking from ${from} to ${to}`,
+    });
   }
 
   private toResponse(
     booking: Booking,
     timezone: string,
+    guest: Guest | null = null,
   ): CreateBookingResponse {
     const formatDateInTimezone = (date: Date) =>
       formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+    const formatOptional = (date: Date | null | undefined) =>
+      date ? formatDateInTimezone(date) : null;
 
     return {
       id: booking.id,
@@ -432,6 +962,13 @@ export class BookingCommandService {
       end: formatDateInTimezone(booking.end),
       durationMinutes: booking.durationMinutes,
       status: booking.status,
+      guest: toGuestResponse(guest),
+      arrivedAt: formatOptional(booking.arrivedAt),
+      seatedAt: formatOptional(booking.seatedAt),
+      completedAt: formatOptional(booking.completedAt),
+      noShowAt: formatOptional(booking.noShowAt),
+      cancelledAt: formatOptional(booking.cancelledAt),
+      holdExpiresAt: formatOptional(booking.holdExpiresAt),
       createdAt: formatDateInTimezone(booking.createdAt),
       updatedAt: formatDateInTimezone(booking.updatedAt),
     };
@@ -1,4 +1,9 @@
-import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+} from '@nestjs/common';
 import { parseISO } from 'date-fns';
 import { formatInTimeZone } from 'date-fns-tz';
 import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
@@ -7,6 +12,8 @@ import { TableRepository as ITableRepository } from '../../ports/repositories/ta
 import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
 import { BlackoutRepository as IBlackoutRepository } from '../../ports/repositories/blackout.repository.interface';
 import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { GuestRepository as IGuestRepository } from '../../ports/repositories/guest.repository.interface';
+import { TableAdjacencyRepository as ITableAdjacencyRepository } from '../../ports/repositories/table-adjacency.repository.interface';
 import {
   RESTAURANT_REPOSITORY,
   SECTOR_REPOSITORY,
@@ -14,22 +21,80 @@ import {
   BOOKING_REPOSITORY,
   BLACKOUT_REPOSITORY,
   SERVICE_WINDOW_REPOSITORY,
+  GUEST_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
 } from '../../tokens';
 import { GapDiscoveryService } from '../../domain/services/gap-discovery.service';
 import { ComboCalculatorService } from '../../domain/services/combo-calculator.service';
+import {
+  SelectionOptions,
+  WokiBrainSelectorService,
+} from '../../domain/services/wokibrain-selector.service';
+import { Booking } from '../../domain/entities/booking.entity';
+import { Blackout } from '../../domain/entities/blackout.entity';
+import { Sector } from '../../domain/entities/sector.entity';
+import { Table } from '../../domain/entities/table.entity';
 import { ComboCandidate } from '../../domain/types/combo-candidate.type';
+import { TableRejectionReason } from '../../domain/types/table-rejection-reason.enum';
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { TimeInterval } from '../../domain/types/time-interval.type';
+import { PacingScope } from '../../domain/types/pacing-limit.type';
+import { PacingService } from '../../domain/services/pacing.service';
+import { TableAttribute } from '../../domain/types/table-attribute.enum';
+import { hasAttributes } from '../../domain/utils/table-attributes.util';
+import {
+  getServiceDayInterval,
+  placeWindowMinutes,
+  zonedDayMinutesToUtc,
+} from '../../domain/utils/service-day.util';
+import { resolveServiceWindowsForDate } from '../../domain/utils/service-window-schedule.util';
+import {
+  expandSlots,
+  moveToPreferredStart,
+} from '../../domain/utils/slot-grid.util';
+import { Restaurant } from '../../domain/entities/restaurant.entity';
+import {
+  findTargetServiceWindowId,
+  resolveDurationMinutes,
+} from '../../domain/utils/duration-rules.util';
 import {
   DiscoverSeatsQuery,
   DiscoverSeatsResponse,
 } from '../dto/discover-seats.dto';
+import { SelectionExplanation } from '../dto/selection-explanation.dto';
 import {
   ListBookingsQuery,
   ListBookingsResponse,
 } from '../dto/list-bookings.dto';
-import { validateWindowWithinServiceHours } from '../utils/window-validation.util';
+import {
+  validateSlotGrid,
+  validateWindowWithinServiceHours,
+} from '../utils/window-validation.util';
+import { toGuestResponse } from '../utils/guest-response.util';
+
+export interface SectorOccupancy {
+  sectorId: string;
+  bookings: Booking[];
+  blackouts: Blackout[];
+}
+
+// Position of the last slot of a page (distance from the preferred start and start, in ms)
+interface SlotCursor {
+  distance: number;
+  start: number;
+  skip: number;
+}
+
+export interface SectorSearch extends SectorOccupancy {
+  tables: Table[];
+  candidates: ComboCandidate[]; // Unranked
+}
 
 @Injectable()
 export class BookingQueryService {
+  // Slots per page with mode=slots when no limit is given
+  private readonly DEFAULT_SLOT_PAGE_SIZE = 100;
+
   constructor(
     @Inject(RESTAURANT_REPOSITORY)
     private readonly restaurantRepository: IRestaurantRepository,
@@ -43,8 +108,14 @@ export class BookingQueryService {
     private readonly blackoutRepository: IBlackoutRepository,
     @Inject(SERVICE_WINDOW_REPOSITORY)
     private readonly serviceWindowRepository: IServiceWindowRepository,
+    @Inject(GUEST_REPOSITORY)
+    private readonly guestRepository: IGuestRepository,
+    @Inject(TABLE_ADJACENCY_REPOSITORY)
+    private readonly tableAdjacencyRepository: ITableAdjacencyRepository,
     private readonly gapDiscoveryService: GapDiscoveryService,
     private readonly comboCalculatorService: ComboCalculatorService,
+    private readonly wokiBrainSelectorService: WokiBrainSelectorService,
+    private readonly pacingService: PacingService,
   ) {}
 
   async discoverSeats(
@@ -56,10 +127,13 @@ export class BookingQueryService {
       throw new Error('Invalid date format');
     }
 
-    // Validate duration is multiple of 15
-    if (query.duration % 15 !== 0) {
-      throw new Error('Duration must be a multiple of 15 minutes');
+    if (query.cursor && query.mode !== 'slots') {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'cursor is only supported with mode=slots',
+      });
     }
+    const cursor = query.cursor ? this.decodeSlotCursor(query.cursor) : null;
 
     // Get restaurant
     const restaurant = await this.restaurantRepository.findById(
@@ -72,94 +146,441 @@ export class BookingQueryService {
       });
     }
 
-    // Get sector
-    const sector = await this.sectorRepository.findById(query.sectorId);
-    if (!sector) {
-      throw new NotFoundException({
-        error: 'not_found',
-        detail: 'Sector not found',
-      });
-    }
-
-    if (sector.restaurantId !== restaurant.id) {
-      throw new NotFoundException({
-        error: 'not_found',
-        detail: 'Sector not found in restaurant',
-      });
-    }
-
-    // Get all tables in sector
-    const tables = await this.tableRepository.findBySectorId(sector.id);
-    if (tables.length === 0) {
-      return {
-        slotMinutes: 15,
-        durationMinutes: query.duration,
-        candidates: [],
-      };
-    }
-
-    // Get all bookings for the date (using restaurant timezone)
-    const bookings = await this.bookingRepository.findByDate(
-      restaurant.id,
-      sector.id,
-      date,
-      restaurant.timezone,
-    );
-
-    // Get all blackouts for the date (using restaurant timezone)
-    const blackouts = await this.blackoutRepository.findByDate(
-      restaurant.id,
-      sector.id,
-      date,
-      restaurant.timezone,
-    );
+    // Requested sector, or every sector of the restaurant
+    const sectors = await this.resolveSectors(restaurant.id, query.sectorId);
 
     // Get service windows for the restaurant
     const serviceWindows =
       await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
 
+    // Requested duration, else the restaurant's turn time for the party
+    const duration = this.resolveDuration(restaurant, date, serviceWindows, {
+      partySize: query.partySize,
+      durationMinutes: query.duration,
+      windowStart: query.windowStart,
+      windowEnd: query.windowEnd,
+    });
+
+    // Duration and window times must sit on the restaurant's slot grid
+    validateSlotGrid(restaurant.slotMinutes, {
+      durationMinutes: duration,
+      windowStart: query.windowStart,
+      windowEnd: query.windowEnd,
+    });
+
     // Validate windowStart/windowEnd is within service windows (if provided)
     if (query.windowStart && query.windowEnd) {
       validateWindowWithinServiceHours(
         query.windowStart,
         query.windowEnd,
         serviceWindows,
+        date,
       );
     }
 
+    // Bookings and blackouts of each sector for the service day (restaurant timezone)
+    const occupancies = await this.loadOccupancy(
+      restaurant,
+      sectors,
+      date,
+      serviceWindows,
+    );
+
     // Find candidates
-    const candidates = this.findCandidates(
-      tables,
-      bookings,
-      blackouts,
-      sector.id,
+    const searches = await this.searchSectors(
+      occupancies,
       date,
-      query.duration,
+      duration,
       query.partySize,
       restaurant,
-      serviceWindows.map((w) => ({ start: w.start, end: w.end })),
+      serviceWindows,
       query.windowStart,
       query.windowEnd,
+      query.requiredAttributes,
+    );
+    // Gaps start as close to the preferred time as they can (slots are expanded later)
+    const preferredStart = this.resolvePreferredStart(
+      restaurant,
+      date,
+      serviceWindows,
+      query.preferredTime,
+    );
+    const gaps = searches.flatMap((search) => search.candidates);
+    const candidates =
+      preferredStart && query.mode !== 'slots'
+        ? moveToPreferredStart(
+            gaps,
+            preferredStart,
+            duration,
+            restaurant.slotMinutes,
+          )
+        : gaps;
+
+    // Order by the selection strategy (per request, else the restaurant's)
+    const selectionOptions = {
+      strategy: query.strategy ?? restaurant.selectionStrategy,
+      partySize: query.partySize,
+      tables: searches.flatMap((search) => search.tables),
+      sectorPreference: restaurant.sectorPreference,
+      preferredStart,
+      preferredAttributes: query.preferredAttributes,
+      slotMinutes: restaurant.slotMinutes,
+    };
+    const rankedCandidates = this.wokiBrainSelectorService.rankCandidates(
+      candidates,
+      selectionOptions,
     );
 
-    // Apply limit if specified
-    const limitedCandidates = query.limit
-      ? candidates.slice(0, query.limit)
-      : candidates;
+    // Gaps: apply limit if specified. Slots: one page of bookable starts
+    const page =
+      query.mode === 'slots'
+        ? this.paginateSlots(
+            expandSlots(rankedCandidates, duration, restaurant.slotMinutes),
+            query.limit ?? this.DEFAULT_SLOT_PAGE_SIZE,
+            cursor,
+            preferredStart,
+          )
+        : {
+            items: query.limit
+              ? rankedCandidates.slice(0, query.limit)
+              : rankedCandidates,
+          };
 
     const formatDateInTimezone = (date: Date) =>
       formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
 
     return {
-      slotMinutes: 15,
-      durationMinutes: query.duration,
-      candidates: limitedCandidates.map((c) => ({
+      slotMinutes: restaurant.slotMinutes,
+      durationMinutes: duration,
+      candidates: page.items.map((c) => ({
         kind: c.kind,
+        sectorId: c.sectorId,
         tableIds: c.tableIds,
         start: formatDateInTimezone(c.interval.start),
         end: formatDateInTimezone(c.interval.end),
       })),
+      ...('nextCursor' in page && { nextCursor: page.nextCursor }),
+      ...(query.explain && {
+        explanation: this.explainSelection(
+          candidates,
+          selectionOptions,
+          searches,
+          date,
+          duration,
+          restaurant,
+          serviceWindows,
+          query.windowStart,
+          query.windowEnd,
+          query.requiredAttributes,
+        ),
+      }),
+    };
+  }
+
+  /**
+   * One page of expanded slots, ordered by start (closest to the preferred start
+   * first when there is one). The cursor records the position of the last slot
+   * returned and how many slots at that position were already returned, so slots
+   * booked or freed elsewhere do not shift later pages.
+   */
+  private paginateSlots(
+    slots: ComboCandidate[],
+    limit: number,
+    cursor: SlotCursor | null,
+    preferredStart: Date | null,
+  ): { items: ComboCandidate[]; nextCursor: string | null } {
+    const positionOf = (slot: ComboCandidate) => {
+      const start = slot.interval.start.getTime();
+      return {
+        distance: preferredStart
+          ? Math.abs(start - preferredStart.getTime())
+          : 0,
+        start,
+      };
     };
+    const comparePositions = (
+      a: Omit<SlotCursor, 'skip'>,
+      b: Omit<SlotCursor, 'skip'>,
+    ) => a.distance - b.distance || a.start - b.start;
+
+    // Stable, so slots at the same position keep their ranking
+    const ordered = [...slots].sort((a, b) =>
+      comparePositions(positionOf(a), positionOf(b)),
+    );
+
+    let seenAtCursor = 0;
+    const remaining = cursor
+      ? ordered.filter((slot) => {
+          const order = comparePositions(positionOf(slot), cursor);
+          return order === 0 ? seenAtCursor++ >= cursor.skip : order > 0;
+        })
+      : ordered;
+
+    const items = remaining.slice(0, limit);
+    if (remaining.length <= limit) {
+      return { items, nextCursor: null };
+    }
+
+    const last = positionOf(items[items.length - 1]);
+    const skip =
+      (cursor && comparePositions(cursor, last) === 0 ? cursor.skip : 0) +
+      items.filter((slot) => comparePositions(positionOf(slot), last) === 0)
+        .length;
+    return { items, nextCursor: this.encodeSlotCursor({ ...last, skip }) };
+  }
+
+  private encodeSlotCursor(cursor: SlotCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeSlotCursor(value: string): SlotCursor {
+    try {
+      const cursor = JSON.parse(
+        Buffer.from(value, 'base64url').toString('utf8'),
+      );
+      if (
+        Number.isInteger(cursor?.distance) &&
+        Number.isInteger(cursor?.start) &&
+        Number.isInteger(cursor?.skip)
+      ) {
+        return {
+          distance: cursor.distance,
+          start: cursor.start,
+          skip: cursor.skip,
+        };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException({
+      error: 'invalid_input',
+      detail: 'Invalid cursor',
+    });
+  }
+
+  /**
+   * Instant of a requested HH:mm preferred time on the service day (small hours of an
+   * overnight service fall after midnight, like request windows). Null without one.
+   */
+  resolvePreferredStart(
+    restaurant: Pick<Restaurant, 'timezone'>,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+    preferredTime?: string,
+  ): Date | null {
+    if (!preferredTime) {
+      return null;
+    }
+    const { start } = placeWindowMinutes(
+      preferredTime,
+      undefined,
+      resolveServiceWindowsForDate(serviceWindows, date),
+    );
+    return zonedDayMinutesToUtc(date, start ?? 0, restaurant.timezone);
+  }
+
+  /**
+   * Duration of a request: the requested one, else the restaurant's duration rule for
+   * the party size and the service window the request targets.
+   * Throws 400 when no duration is given and no rule applies.
+   */
+  resolveDuration(
+    restaurant: Pick<Restaurant, 'durationRules'>,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+    request: {
+      partySize: number;
+      durationMinutes?: number;
+      windowStart?: string;
+      windowEnd?: string;
+    },
+  ): number {
+    if (request.durationMinutes !== undefined) {
+      return request.durationMinutes;
+    }
+
+    const durationMinutes = resolveDurationMinutes(
+      restaurant.durationRules ?? [],
+      request.partySize,
+      findTargetServiceWindowId(
+        serviceWindows,
+        date,
+        request.windowStart,
+        request.windowEnd,
+      ),
+    );
+    if (durationMinutes === null) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: `Duration is required: no duration rule matches a party of ${request.partySize}`,
+      });
+    }
+    return durationMinutes;
+  }
+
+  /**
+   * Sectors to search: the requested one, or every sector of the restaurant.
+   * Throws 404 when the requested sector does not exist or belongs to another restaurant.
+   */
+  async resolveSectors(
+    restaurantId: string,
+    sectorId?: string,
+  ): Promise<Sector[]> {
+    if (!sectorId) {
+      return this.sectorRepository.findByRestaurantId(restaurantId);
+    }
+
+    const sector = await this.sectorRepository.findById(sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    if (sector.restaurantId !== restaurantId) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found in restaurant',
+      });
+    }
+
+    return [sector];
+  }
+
+  /**
+   * Bookings and blackouts of each sector for the service day.
+   */
+  async loadOccupancy(
+    restaurant: { id: string; timezone: string },
+    sectors: Array<{ id: string }>,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+  ): Promise<SectorOccupancy[]> {
+    const occupancies: SectorOccupancy[] = [];
+    for (const sector of sectors) {
+      occupancies.push({
+        sectorId: sector.id,
+        bookings: await this.bookingRepository.findByDate(
+          restaurant.id,
+          sector.id,
+          date,
+          restaurant.timezone,
+          serviceWindows,
+        ),
+        blackouts: await this.blackoutRepository.findByDate(
+          restaurant.id,
+          sector.id,
+          date,
+          restaurant.timezone,
+          serviceWindows,
+        ),
+      });
+    }
+    return occupancies;
+  }
+
+  /**
+   * Find each sector's candidates with its own tables and adjacency graph.
+   * Candidates are tagged with their sector and limited to the start times pacing
+   * allows; they are not ranked yet.
+   *
+   * @param requiredAttributes - Only tables with all of these attributes are used
+   */
+  async searchSectors(
+    occupancies: SectorOccupancy[],
+    date: Date,
+    durationMinutes: number,
+    partySize: number,
+    restaurant: Pick<
+      Restaurant,
+      'id' | 'timezone' | 'slotMinutes' | 'bufferMinutes' | 'pacing'
+    >,
+    serviceWindows: ServiceWindowRule[],
+    windowStart?: string,
+    windowEnd?: string,
+    requiredAttributes: TableAttribute[] = [],
+  ): Promise<SectorSearch[]> {
+    const searches: SectorSearch[] = [];
+    for (const occupancy of occupancies) {
+      const tables = await this.tableRepository.findBySectorId(
+        occupancy.sectorId,
+      );
+      // Tables that can be pushed together (empty = any)
+      const adjacencies = await this.tableAdjacencyRepository.findBySectorId(
+        occupancy.sectorId,
+      );
+
+      const pacingScopes = await this.loadPacingScopes(
+        restaurant,
+        occupancy.sectorId,
+        occupancy.bookings,
+        getServiceDayInterval(serviceWindows, date, restaurant.timezone),
+      );
+
+      searches.push({
+        ...occupancy,
+        tables,
+        candidates: this.pacingService.applyPacing(
+          this.findCandidates(
+            tables,
+            occupancy.bookings,
+            occupancy.blackouts,
+            occupancy.sectorId,
+            date,
+            durationMinutes,
+            partySize,
+            restaurant,
+            serviceWindows,
+            adjacencies,
+            windowStart,
+            windowEnd,
+            requiredAttributes,
+          ),
+          durationMinutes,
+          partySize,
+          pacingScopes,
+          restaurant,
+        ),
+      });
+    }
+    return searches;
+  }
+
+  /**
+   * Pacing limits on arrivals in a sector: the restaurant's (counting arrivals in
+   * every sector) and the sector's own. Empty when neither is set.
+   *
+   * @param sectorBookings - The sector's bookings (without a booking being moved)
+   * @param interval - Period whose arrivals are counted (a service day or a date range)
+   */
+  async loadPacingScopes(
+    restaurant: Pick<Restaurant, 'id' | 'pacing'>,
+    sectorId: string,
+    sectorBookings: Booking[],
+    interval: TimeInterval,
+  ): Promise<PacingScope[]> {
+    const scopes: PacingScope[] = [];
+
+    if (restaurant.pacing) {
+      const otherSectorBookings = (
+        await this.bookingRepository.findByRestaurantAndInterval(
+          restaurant.id,
+          interval,
+        )
+      ).filter((booking) => booking.sectorId !== sectorId);
+      scopes.push({
+        limit: restaurant.pacing,
+        bookings: [...otherSectorBookings, ...sectorBookings],
+      });
+    }
+
+    const sector = await this.sectorRepository.findById(sectorId);
+    if (sector?.pacing) {
+      scopes.push({ limit: sector.pacing, bookings: sectorBookings });
+    }
+
+    return scopes;
   }
 
   async listBookings(query: ListBookingsQuery): Promise<ListBookingsResponse> {
@@ -196,16 +617,33 @@ export class BookingQueryService {
       });
     }
 
-    // Get bookings (using restaurant timezone)
+    // Get bookings for the service day (after-midnight bookings of an
+    // overnight window are listed under the evening they belong to)
+    const serviceWindows =
+      await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
     const bookings = await this.bookingRepository.findByDate(
       query.restaurantId,
       query.sectorId,
       date,
       restaurant.timezone,
+      serviceWindows,
     );
 
+    // Load guest profiles for the day in a single query
+    const guestIds = [
+      ...new Set(
+        bookings
+          .map((booking) => booking.guestId)
+          .filter((id): id is string => !!id),
+      ),
+    ];
+    const guests = await this.guestRepository.findByIds(guestIds);
+    const guestMap = new Map(guests.map((g) => [g.id, g]));
+
     const formatDateInTimezone = (date: Date) =>
       formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+    const formatOptional = (date: Date | null) =>
+      date ? formatDateInTimezone(date) : null;
 
     return {
       date: query.date,
@@ -216,17 +654,100 @@ export class BookingQueryService {
         start: formatDateInTimezone(booking.start),
         end: formatDateInTimezone(booking.end),
         status: booking.status,
+        guest: toGuestResponse(
+          booking.guestId ? (guestMap.get(booking.guestId) ?? null) : null,
+        ),
+        arrivedAt: formatOptional(booking.arrivedAt),
+        seatedAt: formatOptional(booking.seatedAt),
+        completedAt: formatOptional(booking.completedAt),
+        noShowAt: formatOptional(booking.noShowAt),
+      })),
+    };
+  }
+
+  /**
+   * Explain a selection: every candidate with its rank and scores, and why the
+   * remaining tables are part of no candidate.
+   */
+  explainSelection(
+    candidates: ComboCandidate[],
+    selectionOptions: SelectionOptions & { partySize: number },
+    searches: SectorSearch[],
+    date: Date,
+    durationMinutes: number,
+    restaurant: Pick<Restaurant, 'timezone' | 'slotMinutes' | 'bufferMinutes'>,
+    serviceWindows: ServiceWindowRule[],
+    windowStart?: string,
+    windowEnd?: string,
+    requiredAttributes: TableAttribute[] = [],
+  ): SelectionExplanation {
+    const { strategy, ranked } = this.wokiBrainSelectorService.explainRanking(
+      candidates,
+      selectionOptions,
+    );
+
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    const usedTableIds = new Set(candidates.flatMap((c) => c.tableIds));
+    const rejectedTables = searches.flatMap((search) =>
+      search.tables
+        .filter((table) => !usedTableIds.has(table.id))
+        .map((table) => ({
+          tableId: table.id,
+          reasons: [
+            ...(this.canSeatParty(table, selectionOptions.partySize)
+              ? []
+              : [TableRejectionReason.CAPACITY]),
+            ...(hasAttributes(table, requiredAttributes)
+              ? []
+              : [TableRejectionReason.MISSING_ATTRIBUTES]),
+            ...this.gapDiscoveryService.findUnavailabilityReasons(
+              search.bookings,
+              search.blackouts,
+              table.id,
+              search.sectorId,
+              date,
+              durationMinutes,
+              restaurant,
+              serviceWindows,
+              windowStart,
+              windowEnd,
+              this.getTableBufferMinutes(search.tables, restaurant),
+            ),
+          ],
+        })),
+    );
+
+    return {
+      strategy,
+      candidates: ranked.map(({ candidate, scores }, index) => ({
+        kind: candidate.kind,
+        sectorId: candidate.sectorId,
+        tableIds: candidate.tableIds,
+        start: formatDateInTimezone(candidate.interval.start),
+        end: formatDateInTimezone(candidate.interval.end),
+        rank: index + 1,
+        scores,
       })),
+      rejectedTables,
     };
   }
 
   findCandidates(
-    tables: Array<{ id: string; minSize: number; maxSize: number }>,
+    tables: Array<{
+      id: string;
+      minSize: number;
+      maxSize: number;
+      bufferMinutes?: number | null;
+      attributes?: TableAttribute[] | null;
+    }>,
     bookings: Array<{
       tableIds: string[];
       start: Date;
       end: Date;
       status: string;
+      completedAt?: Date | null;
     }>,
     blackouts: Array<{
       tableIds: string[];
@@ -238,22 +759,28 @@ export class BookingQueryService {
     date: Date,
     durationMinutes: number,
     partySize: number,
-    restaurant: { timezone: string },
-    serviceWindows: Array<{ start: string; end: string }>,
+    restaurant: {
+      timezone: string;
+      slotMinutes: number;
+      bufferMinutes?: number;
+    },
+    serviceWindows: ServiceWindowRule[],
+    adjacencies: Array<{ tableAId: string; tableBId: string }>,
     windowStart?: string,
     windowEnd?: string,
+    requiredAttributes: TableAttribute[] = [],
   ): ComboCandidate[] {
     const candidates: ComboCandidate[] = [];
+    const tableBufferMinutes = this.getTableBufferMinutes(tables, restaurant);
+
+    // Hard requirements: singles and every table of a combo must have them
+    const eligibleTables = tables.filter((table) =>
+      hasAttributes(table, requiredAttributes),
+    );
 
     // Single table candidates
-    for (const table of tables) {
-      // Special case: allow single-person parties (partySize=1) to use tables
-      // even if minSize > 1, as long as maxSize >= 1
-      const canUseTable =
-        partySize === 1
-          ? partySize <= table.maxSize
-          : partySize >= table.minSize && partySize <= table.maxSize;
-      if (canUseTable) {
+    for (const table of eligibleTables) {
+      if (this.canSeatParty(table, partySize)) {
         const gaps = this.gapDiscoveryService.findGapsForTable(
           bookings as any,
           blackouts as any,
@@ -265,6 +792,7 @@ export class BookingQueryService {
           serviceWindows,
           windowStart,
           windowEnd,
+          tableBufferMinutes,
         );
 
         // Sort gaps by start time to ensure deterministic candidate generation
@@ -279,6 +807,7 @@ export class BookingQueryService {
             maxCapacity: table.maxSize,
             interval: gap,
             kind: 'single',
+            sectorId,
           });
         }
       }
@@ -286,7 +815,7 @@ export class BookingQueryService {
 
     // Combo candidates (all combinations of 2+ tables)
     const comboCandidates = this.findComboCandidates(
-      tables,
+      eligibleTables,
       bookings,
       blackouts,
       sectorId,
@@ -295,6 +824,8 @@ export class BookingQueryService {
       partySize,
       restaurant as any,
       serviceWindows,
+      adjacencies,
+      tableBufferMinutes,
       windowStart,
       windowEnd,
     );
@@ -329,6 +860,32 @@ export class BookingQueryService {
     return sorted;
   }
 
+  /**
+   * Cleanup buffer of each table: its own, else the restaurant's.
+   */
+  getTableBufferMinutes(
+    tables: Array<{ id: string; bufferMinutes?: number | null }>,
+    restaurant: { bufferMinutes?: number },
+  ): Map<string, number> {
+    return new Map(
+      tables.map((table) => [
+        table.id,
+        table.bufferMinutes ?? restaurant.bufferMinutes ?? 0,
+      ]),
+    );
+  }
+
+  private canSeatParty(
+    table: { minSize: number; maxSize: number },
+    partySize: number,
+  ): boolean {
+    // Special case: allow single-person parties (partySize=1) to use tables
+    // even if minSize > 1, as long as maxSize >= 1
+    return partySize === 1
+      ? partySize <= table.maxSize
+      : partySize >= table.minSize && partySize <= table.maxSize;
+  }
+
   private findComboCandidates(
     tables: Array<{ id: string; minSize: number; maxSize: number }>,
     bookings: Array<{
@@ -336,6 +893,7 @@ export class BookingQueryService {
       start: Date;
       end: Date;
       status: string;
+      completedAt?: Date | null;
     }>,
     blackouts: Array<{
       tableIds: string[];
@@ -347,15 +905,22 @@ export class BookingQueryService {
     date: Date,
     durationMinutes: number,
     partySize: number,
-    restaurant: { timezone: string },
-    serviceWindows: Array<{ start: string; end: string }>,
+    restaurant: { timezone: string; slotMinutes: number },
+    serviceWindows: ServiceWindowRule[],
+    adjacencies: Array<{ tableAId: string; tableBId: string }>,
+    tableBufferMinutes: Map<string, number>,
     windowStart?: string,
     windowEnd?: string,
   ): ComboCandidate[] {
     const candidates: ComboCandidate[] = [];
 
     // Generate all combinations of 2+ tables (pruned: only if sum of mins <= partySize <= sum of maxs)
-    const combinations = this.generateTableCombinations(tables, partySize);
+    // restricted to tables that are joinable according to the sector's adjacency graph
+    const combinations = this.generateTableCombinations(
+      tables,
+      partySize,
+      this.comboCalculatorService.buildAdjacencyGraph(adjacencies),
+    );
 
     for (const combo of combinations) {
       const { minCapacity, maxCapacity } =
@@ -374,6 +939,7 @@ export class BookingQueryService {
           serviceWindows,
           windowStart,
           windowEnd,
+          tableBufferMinutes,
         );
 
         for (const gap of gaps) {
@@ -383,6 +949,7 @@ export class BookingQueryService {
             maxCapacity,
             interval: gap,
             kind: 'combo',
+            sectorId,
           });
         }
       }
@@ -394,6 +961,7 @@ export class BookingQueryService {
   private generateTableCombinations(
     tables: Array<{ id: string; minSize: number; maxSize: number }>,
     partySize: number,
+    adjacencyGraph: Map<string, Set<string>> | null,
   ): Array<Array<{ id: string; minSize: number; maxSize: number }>> {
     const combinations: Array<
       Array<{ id: string; minSize: number; maxSize: number }>
@@ -422,12 +990,17 @@ export class BookingQueryService {
       currentMin: number,
       currentMax: number,
     ) => {
-      // If current combo already fits the party, record it
-      // Do NOT return here: adding more tables may produce other valid combos
+      // If current combo already fits the party (and its tables are joinable), record it
+      // Do NOT return here: adding more tables may produce other valid combos,
+      // and a disconnected set may become connected through a table added later
       if (
         current.length >= 2 &&
         currentMin <= partySize &&
-        partySize <= currentMax
+        partySize <= currentMax &&
+        this.comboCalculatorService.isJoinable(
+          current.map((t) => t.id),
+          adjacencyGraph,
+        )
       ) {
         combinations.push([...current]);
       }
@@ -0,0 +1,60 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { GuestRepository as IGuestRepository } from '../../ports/repositories/guest.repository.interface';
+import { GUEST_REPOSITORY } from '../../tokens';
+import { Guest } from '../../domain/entities/guest.entity';
+import { GuestRequest } from '../dto/guest.dto';
+
+@Injectable()
+export class GuestCommandService {
+  constructor(
+    @Inject(GUEST_REPOSITORY)
+    private readonly guestRepository: IGuestRepository,
+  ) {}
+
+  /**
+   * Find the guest profile matching the given contact details (email first,
+   * then phone) within the restaurant, or create a new one.
+   * An existing profile is refreshed with the latest name, notes and dietary tags.
+   */
+  async resolveGuest(
+    restaurantId: string,
+    request: GuestRequest,
+  ): Promise<Guest> {
+    const email = request.email ? request.email.trim().toLowerCase() : null;
+    const phone = request.phone ? request.phone.trim() : null;
+
+    const existing = await this.guestRepository.findByContact(
+      restaurantId,
+      email,
+      phone,
+    );
+
+    if (existing) {
+      existing.name = request.name;
+      existing.phone = phone ?? existing.phone;
+      existing.email = email ?? existing.email;
+      if (request.notes !== undefined) {
+        existing.notes = request.notes;
+      }
+      if (request.dietaryTags !== undefined) {
+        existing.dietaryTags = request.dietaryTags;
+      }
+      existing.updatedAt = new Date();
+      return this.guestRepository.update(existing);
+    }
+
+    const guest = new Guest();
+    guest.id = `GST_${randomUUID().substring(0, 8).toUpperCase()}`;
+    guest.restaurantId = restaurantId;
+    guest.name = request.name;
+    guest.phone = phone;
+    guest.email = email;
+    guest.notes = request.notes ?? null;
+    guest.dietaryTags = request.dietaryTags ?? [];
+    guest.createdAt = new Date();
+    guest.updatedAt = new Date();
+
+    return this.guestRepository.create(guest);
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { GuestRepository as IGuestRepository } from '../../ports/repositories/guest.repository.interface';
+import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  GUEST_REPOSITORY,
+  BOOKING_REPOSITORY,
+} from '../../tokens';
+import { GuestHistoryResponse } from '../dto/guest.dto';
+
+@Injectable()
+export class GuestQueryService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(GUEST_REPOSITORY)
+    private readonly guestRepository: IGuestRepository,
+    @Inject(BOOKING_REPOSITORY)
+    private readonly bookingRepository: IBookingRepository,
+  ) {}
+
+  async getGuestHistory(id: string): Promise<GuestHistoryResponse> {
+    const guest = await this.guestRepository.findById(id);
+    if (!guest) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Guest not found',
+      });
+    }
+
+    // Restaurant is needed for timezone formatting
+    const restaurant = await this.restaurantRepository.findById(
+      guest.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const bookings = await this.bookingRepository.findByGuestId(guest.id);
+
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return {
+      id: guest.id,
+      restaurantId: guest.restaurantId,
+      name: guest.name,
+      phone: guest.phone,
+      email: guest.email,
+      notes: guest.notes,
+      dietaryTags: guest.dietaryTags,
+      createdAt: formatDateInTimezone(guest.createdAt),
+      updatedAt: formatDateInTimezone(guest.updatedAt),
+      bookings: bookings.map((booking) => ({
+        id: booking.id,
+        sectorId: booking.sectorId,
+        tableIds: booking.tableIds,
+        partySize: booking.partySize,
+        start: formatDateInTimezone(booking.start),
+        end: formatDateInTimezone(booking.end),
+        status: booking.status,
+      })),
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+} from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  SECTOR_REPOSITORY,
+  SERVICE_WINDOW_REPOSITORY,
+  TABLE_REPOSITORY,
+} from '../../tokens';
+import { Restaurant } from '../../domain/entities/restaurant.entity';
+import {
+  UpdateRestaurantRequest,
+  RestaurantResponse,
+} from '../dto/update-restaurant.dto';
+
+@Injectable()
+export class RestaurantCommandService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(SERVICE_WINDOW_REPOSITORY)
+    private readonly serviceWindowRepository: IServiceWindowRepository,
+    @Inject(TABLE_REPOSITORY)
+    private readonly tableRepository: ITableRepository,
+  ) {}
+
+  /**
+   * Update restaurant-level settings (slot grid, table selection strategy, sector
+   * preference, duration rules, cleanup buffer, pacing). Every sector in the preference
+   * and every service window of a duration rule must belong to the restaurant; rule
+   * durations and the buffers (the restaurant's and its tables') must be whole slots
+   * of the resulting grid.
+   */
+  async updateRestaurant(
+    id: string,
+    request: UpdateRestaurantRequest,
+  ): Promise<RestaurantResponse> {
+    const restaurant = await this.restaurantRepository.findById(id);
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    if (request.slotMinutes !== undefined) {
+      restaurant.slotMinutes = request.slotMinutes;
+    }
+
+    if (request.selectionStrategy !== undefined) {
+      restaurant.selectionStrategy = request.selectionStrategy;
+    }
+
+    if (request.sectorPreference !== undefined) {
+      if (request.sectorPreference) {
+        const sectorIds = new Set(
+          (await this.sectorRepository.findByRestaurantId(restaurant.id)).map(
+            (sector) => sector.id,
+          ),
+        );
+        const unknown = request.sectorPreference.find(
+          (sectorId) => !sectorIds.has(sectorId),
+        );
+        if (unknown) {
+          throw new NotFoundException({
+            error: 'not_found',
+            detail: `Sector ${unknown} not found in restaurant`,
+          });
+        }
+      }
+      restaurant.sectorPreference = request.sectorPreference;
+    }
+
+    if (request.durationRules !== undefined) {
+      if (request.durationRules) {
+        const serviceWindowIds = new Set(
+          (
+            await this.serviceWindowRepository.findByRestaurantId(restaurant.id)
+          ).map((serviceWindow) => serviceWindow.id),
+        );
+        const unknown = request.durationRules.find(
+          (rule) =>
+            rule.serviceWindowId && !serviceWindowIds.has(rule.serviceWindowId),
+        );
+        if (unknown) {
+          throw new NotFoundException({
+            error: 'not_found',
+            detail: `Service window ${unknown.serviceWindowId} not found in restaurant`,
+          });
+        }
+      }
+      restaurant.durationRules =
+        request.durationRules?.map((rule) => ({
+          minPartySize: rule.minPartySize,
+          maxPartySize: rule.maxPartySize ?? null,
+          serviceWindowId: rule.serviceWindowId ?? null,
+          durationMinutes: rule.durationMinutes,
+        })) ?? null;
+    }
+
+    if (request.bufferMinutes !== undefined) {
+      restaurant.bufferMinutes = request.bufferMinutes;
+    }
+
+    if (request.pacing !== undefined) {
+      restaurant.pacing = request.pacing;
+    }
+
+    // Checked on the merged settings, so changing the grid cannot strand them
+    const slotMinutes = restaurant.slotMinutes;
+    if (
+      restaurant.durationRules?.some(
+        (rule) => rule.durationMinutes % slotMinutes !== 0,
+      )
+    ) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: `Duration rules must be a multiple of ${slotMinutes} minutes`,
+      });
+    }
+    if (restaurant.bufferMinutes % slotMinutes !== 0) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: `Buffer must be a multiple of ${slotMinutes} minutes`,
+      });
+    }
+    if (request.slotMinutes !== undefined) {
+      const offGridTableIds: string[] = [];
+      for (const sector of await this.sectorRepository.findByRestaurantId(
+        restaurant.id,
+      )) {
+        for (const table of await this.tableRepository.findBySectorId(
+          sector.id,
+        )) {
+          if ((table.bufferMinutes ?? 0) % slotMinutes !== 0) {
+            offGridTableIds.push(table.id);
+          }
+        }
+      }
+      if (offGridTableIds.length > 0) {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: `Table buffers must be a multiple of ${slotMinutes} minutes (tables ${offGridTableIds.join(', ')})`,
+        });
+      }
+    }
+    restaurant.updatedAt = new Date();
+
+    const savedRestaurant = await this.restaurantRepository.update(restaurant);
+
+    return this.toResponse(savedRestaurant);
+  }
+
+  private toResponse(restaurant: Restaurant): RestaurantResponse {
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return {
+      id: restaurant.id,
+      name: restaurant.name,
+      timezone: restaurant.timezone,
+      slotMinutes: restaurant.slotMinutes,
+      selectionStrategy: restaurant.selectionStrategy,
+      sectorPreference: restaurant.sectorPreference,
+      durationRules: restaurant.durationRules,
+      bufferMinutes: restaurant.bufferMinutes,
+      pacing: restaurant.pacing,
+      createdAt: formatDateInTimezone(restaurant.createdAt),
+      updatedAt: formatDateInTimezone(restaurant.updatedAt),
+    };
+  }
+}
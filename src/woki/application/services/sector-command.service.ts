@@ -0,0 +1,61 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { RESTAURANT_REPOSITORY, SECTOR_REPOSITORY } from '../../tokens';
+import { Sector } from '../../domain/entities/sector.entity';
+import { UpdateSectorRequest, SectorResponse } from '../dto/update-sector.dto';
+
+@Injectable()
+export class SectorCommandService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+  ) {}
+
+  /**
+   * Update sector-level settings (pacing, applied on top of the restaurant's).
+   */
+  async updateSector(
+    id: string,
+    request: UpdateSectorRequest,
+  ): Promise<SectorResponse> {
+    const sector = await this.sectorRepository.findById(id);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    if (request.pacing !== undefined) {
+      sector.pacing = request.pacing;
+    }
+    sector.updatedAt = new Date();
+
+    const savedSector = await this.sectorRepository.update(sector);
+
+    // Timestamps are formatted in the restaurant's timezone
+    const restaurant = await this.restaurantRepository.findById(
+      savedSector.restaurantId,
+    );
+
+    return this.toResponse(savedSector, restaurant?.timezone ?? 'UTC');
+  }
+
+  private toResponse(sector: Sector, timezone: string): SectorResponse {
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return {
+      id: sector.id,
+      restaurantId: sector.restaurantId,
+      name: sector.name,
+      pacing: sector.pacing,
+      createdAt: formatDateInTimezone(sector.createdAt),
+      updatedAt: formatDateInTimezone(sector.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+} from '@nestjs/common';
+import { parseISO } from 'date-fns';
+import { randomUUID } from 'crypto';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { RESTAURANT_REPOSITORY, SERVICE_WINDOW_REPOSITORY } from '../../tokens';
+import { ServiceWindow } from '../../domain/entities/service-window.entity';
+import {
+  CreateServiceWindowRequest,
+  ServiceWindowResponse,
+} from '../dto/create-service-window.dto';
+import {
+  UpdateServiceWindowRequest,
+  UpdateServiceWindowResponse,
+} from '../dto/update-service-window.dto';
+import { toServiceWindowResponse } from '../utils/service-window-response.util';
+
+@Injectable()
+export class ServiceWindowCommandService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SERVICE_WINDOW_REPOSITORY)
+    private readonly serviceWindowRepository: IServiceWindowRepository,
+  ) {}
+
+  async createServiceWindow(
+    request: CreateServiceWindowRequest,
+  ): Promise<ServiceWindowResponse> {
+    const restaurant = await this.restaurantRepository.findById(
+      request.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const window = new ServiceWindow();
+    window.id = `SW_${randomUUID().substring(0, 8).toUpperCase()}`;
+    window.restaurantId = restaurant.id;
+    window.start = request.start ?? null;
+    window.end = request.end ?? null;
+    window.dayOfWeek = request.dayOfWeek ?? null;
+    window.date = request.date ?? null;
+    window.closed = request.closed ?? false;
+    window.createdAt = new Date();
+    window.updatedAt = new Date();
+
+    this.validateServiceWindow(window, restaurant.slotMinutes);
+
+    const savedWindow = await this.serviceWindowRepository.create(window);
+
+    return toServiceWindowResponse(savedWindow, restaurant.timezone);
+  }
+
+  /**
+   * Partially update a service window. The merged row is re-validated as a whole.
+   */
+  async updateServiceWindow(
+    id: string,
+    request: UpdateServiceWindowRequest,
+  ): Promise<UpdateServiceWindowResponse> {
+    const window = await this.serviceWindowRepository.findById(id);
+    if (!window) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Service window not found',
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      window.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    if (request.start !== undefined) window.start = request.start;
+    if (request.end !== undefined) window.end = request.end;
+    if (request.dayOfWeek !== undefined) window.dayOfWeek = request.dayOfWeek;
+    if (request.date !== undefined) window.date = request.date;
+    if (request.closed !== undefined) window.closed = request.closed;
+    window.updatedAt = new Date();
+
+    this.validateServiceWindow(window, restaurant.slotMinutes);
+
+    const savedWindow = await this.serviceWindowRepository.update(window);
+
+    return toServiceWindowResponse(savedWindow, restaurant.timezone);
+  }
+
+  async deleteServiceWindow(id: string): Promise<void> {
+    const window = await this.serviceWindowRepository.findById(id);
+    if (!window) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Service window not found',
+      });
+    }
+
+    await this.serviceWindowRepository.delete(id);
+  }
+
+  /**
+   * A row is either weekly (optionally for one `dayOfWeek`) or a `date` override.
+   * Only date overrides can be `closed`; every other row needs grid-aligned, distinct
+   * start/end (an end before the start crosses midnight).
+   * Clears start/end on closed overrides.
+   */
+  private validateServiceWindow(
+    window: ServiceWindow,
+    slotMinutes: number,
+  ): void {
+    if (window.date !== null && window.dayOfWeek !== null) {
+      throw this.invalidInput('dayOfWeek and date cannot be combined');
+    }
+
+    if (window.date !== null && isNaN(parseISO(window.date).getTime())) {
+      throw this.invalidInput('Invalid date format');
+    }
+
+    if (window.closed) {
+      if (window.date === null) {
+        throw this.invalidInput('Only date overrides can be closed');
+      }
+      window.start = null;
+      window.end = null;
+      return;
+    }
+
+    if (window.start === null || window.end === null) {
+      throw this.invalidInput('start and end are required');
+    }
+
+    const startMinutes = this.toMinutes(window.start);
+    const endMinutes = this.toMinutes(window.end);
+    if (
+      startMinutes === null ||
+      endMinutes === null ||
+      startMinutes > 24 * 60 ||
+      endMinutes > 24 * 60
+    ) {
+      throw this.invalidInput('Invalid time format');
+    }
+
+    if (startMinutes % slotMinutes !== 0 || endMinutes % slotMinutes !== 0) {
+      throw this.invalidInput(
+        `Times must be on the ${slotMinutes}-minute grid`,
+      );
+    }
+
+    if (startMinutes >= 24 * 60) {
+      throw this.invalidInput('start must be before 24:00');
+    }
+
+    // An end before the start rolls over to the next day (e.g. 20:00-02:00)
+    if (startMinutes === endMinutes) {
+      throw this.invalidInput('start and end must differ');
+    }
+  }
+
+  private toMinutes(time: string): number | null {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (minutes >= 60) {
+      return null;
+    }
+    return hours * 60 + minutes;
+  }
+
+  private invalidInput(detail: string): BadRequestException {
+    return new BadRequestException({
+      error: 'invalid_input',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { RESTAURANT_REPOSITORY, SERVICE_WINDOW_REPOSITORY } from '../../tokens';
+import {
+  ListServiceWindowsQuery,
+  ListServiceWindowsResponse,
+} from '../dto/list-service-windows.dto';
+import { toServiceWindowResponse } from '../utils/service-window-response.util';
+
+@Injectable()
+export class ServiceWindowQueryService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SERVICE_WINDOW_REPOSITORY)
+    private readonly serviceWindowRepository: IServiceWindowRepository,
+  ) {}
+
+  async listServiceWindows(
+    query: ListServiceWindowsQuery,
+  ): Promise<ListServiceWindowsResponse> {
+    const restaurant = await this.restaurantRepository.findById(
+      query.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const windows = await this.serviceWindowRepository.findByRestaurantId(
+      restaurant.id,
+    );
+
+    return {
+      items: windows.map((w) =>
+        toServiceWindowResponse(w, restaurant.timezone),
+      ),
+    };
+  }
+}
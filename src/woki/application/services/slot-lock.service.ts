@@ -0,0 +1,401 @@
+import { Injectable, ConflictException, Inject } from '@nestjs/common';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
+import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
+import { BlackoutRepository as IBlackoutRepository } from '../../ports/repositories/blackout.repository.interface';
+import {
+  SECTOR_REPOSITORY,
+  TABLE_REPOSITORY,
+  BOOKING_REPOSITORY,
+  BLACKOUT_REPOSITORY,
+} from '../../tokens';
+import { BookingLifecycleService } from '../../domain/services/booking-lifecycle.service';
+import { PacingService } from '../../domain/services/pacing.service';
+import { LockManagerService } from '../../infrastructure/locking/lock-manager.service';
+import { MetricsService } from '../../infrastructure/metrics/metrics.service';
+import { Restaurant } from '../../domain/entities/restaurant.entity';
+import { ComboCandidate } from '../../domain/types/combo-candidate.type';
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { TimeInterval } from '../../domain/types/time-interval.type';
+import { getServiceDayInterval } from '../../domain/utils/service-day.util';
+import { BookingQueryService } from './booking-query.service';
+
+export interface SlotLock {
+  release: () => void;
+  waitTimeMs: number;
+}
+
+export type SlotToLock = Pick<
+  ComboCandidate,
+  'sectorId' | 'tableIds' | 'interval'
+>;
+
+/**
+ * Serializes writes that put a booking on tables: locks the tables and arrival slot,
+ * then re-checks against the stored bookings and blackouts that they are still free.
+ * Shared by everything that places or moves bookings (new bookings, reschedules,
+ * holds, blackout relocations and restores).
+ */
+@Injectable()
+export class SlotLockService {
+  constructor(
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(TABLE_REPOSITORY)
+    private readonly tableRepository: ITableRepository,
+    @Inject(BOOKING_REPOSITORY)
+    private readonly bookingRepository: IBookingRepository,
+    @Inject(BLACKOUT_REPOSITORY)
+    private readonly blackoutRepository: IBlackoutRepository,
+    private readonly bookingLifecycleService: BookingLifecycleService,
+    private readonly pacingService: PacingService,
+    private readonly lockManagerService: LockManagerService,
+    private readonly bookingQueryService: BookingQueryService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Lock the slot's tables (and arrival slot, when pacing applies) and re-verify
+   * capacity and pacing under those locks. The caller writes the booking and then
+   * releases the returned locks; on failure nothing stays locked.
+   * Throws 409 `table_locked` on lock timeout and `no_capacity` when the slot is taken.
+   *
+   * @param exclude - Booking (the one being moved) and blackout (the one being edited)
+   *   to ignore when re-checking
+   */
+  async lockSlot(
+    restaurant: Restaurant,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+    slot: SlotToLock,
+    partySize: number,
+    exclude: { bookingId?: string; blackoutId?: string } = {},
+  ): Promise<SlotLock[]> {
+    // Sorted to prevent deadlocks
+    const acquiredLocks = await this.acquireTableLocks(
+      restaurant.id,
+      slot.sectorId,
+      slot.tableIds,
+      slot.interval.start,
+    );
+
+    try {
+      // Re-verify capacity (double-check after acquiring lock)
+      await this.ensureCapacityStillAvailable(
+        restaurant,
+        date,
+        serviceWindows,
+        slot,
+        exclude,
+      );
+
+      // Re-check pacing for the arrival slot
+      acquiredLocks.push(
+        ...(await this.ensurePacingStillAllows(
+          restaurant,
+          slot.sectorId,
+          date,
+          serviceWindows,
+          slot.interval.start,
+          partySize,
+          exclude.bookingId,
+        )),
+      );
+    } catch (error) {
+      this.releaseLocks(acquiredLocks);
+      throw error;
+    }
+
+    return acquiredLocks;
+  }
+
+  releaseLocks(locks: Array<{ release: () => void }>): void {
+    for (const lock of locks) {
+      lock.release();
+    }
+  }
+
+  /**
+   * Acquire one lock per table (sorted to prevent deadlocks).
+   * Releases any partially acquired locks and throws 409 `table_locked` on timeout.
+   */
+  private async acquireTableLocks(
+    restaurantId: string,
+    sectorId: string,
+    tableIds: string[],
+    start: Date,
+  ): Promise<SlotLock[]> {
+    const sortedTableIds = [...tableIds].sort();
+    const acquiredLocks: SlotLock[] = [];
+    let maxWaitTimeMs = 0;
+
+    // Acquire locks sequentially for each table
+    for (const tableId of sortedTableIds) {
+      const lockKey = this.createTableLockKey(
+        restaurantId,
+        sectorId,
+        tableId,
+        start,
+      );
+
+      try {
+        const lockResult = await this.lockManagerService.acquire(lockKey);
+        acquiredLocks.push(lockResult);
+        maxWaitTimeMs = Math.max(maxWaitTimeMs, lockResult.waitTimeMs);
+      } catch (error) {
+        // Release all previously acquired locks before throwing
+        this.releaseLocks(acquiredLocks);
+
+        if (error instanceof Error && error.message === 'Lock timeout') {
+          // For timeout cases, we can't get the exact wait time since the error
+          // is thrown before returning. We record the timeout separately.
+          this.metricsService.recordLockTimeout();
+          this.metricsService.recordConflict('table_locked');
+          throw new ConflictException({
+            error: 'table_locked',
+            detail:
+              'Table is currently being booked by another request. Please try again.',
+          });
+        }
+        throw error;
+      }
+    }
+
+    // Record lock wait time (use max wait time as it represents the longest wait)
+    if (maxWaitTimeMs > 0) {
+      this.metricsService.recordLockWaitTime(maxWaitTimeMs);
+    }
+
+    return acquiredLocks;
+  }
+
+  /**
+   * Re-query ALL bookings and blackouts for the date to check for any new bookings/blackouts
+   * created between candidate selection and lock acquisition. Must be called while holding
+   * the candidate's table locks. Throws 409 `no_capacity` if the candidate is no longer free.
+   */
+  private async ensureCapacityStillAvailable(
+    restaurant: Pick<Restaurant, 'id' | 'timezone' | 'bufferMinutes'>,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+    candidate: SlotToLock,
+    exclude: { bookingId?: string; blackoutId?: string },
+  ): Promise<void> {
+    const { sectorId } = candidate;
+    const currentBookings = await this.bookingRepository.findByDate(
+      restaurant.id,
+      sectorId,
+      date,
+      restaurant.timezone,
+      serviceWindows,
+    );
+
+    const currentBlackouts = await this.blackoutRepository.findByDate(
+      restaurant.id,
+      sectorId,
+      date,
+      restaurant.timezone,
+      serviceWindows,
+    );
+
+    const tableBufferMinutes = this.bookingQueryService.getTableBufferMinutes(
+      await this.tableRepository.findByIds(candidate.tableIds),
+      restaurant,
+    );
+
+    // Filter to only bookings that involve the candidate's tables,
+    // reduced to the interval they actually occupy, widened by the largest
+    // buffer among the candidate tables they share
+    const relevantBookings = currentBookings
+      .filter(
+        (b) =>
+          b.id !== exclude.bookingId &&
+          b.tableIds.some((id) => candidate.tableIds.includes(id)),
+      )
+      .flatMap((b) => {
+        const interval = this.bookingLifecycleService.getOccupiedInterval(b);
+        if (!interval) {
+          return [];
+        }
+        const bufferMs =
+          Math.max(
+            ...b.tableIds
+              .filter((id) => candidate.tableIds.includes(id))
+              .map((id) => tableBufferMinutes.get(id) ?? 0),
+          ) *
+          60 *
+          1000;
+        return [
+          {
+            start: new Date(interval.start.getTime() - bufferMs),
+            end: new Date(interval.end.getTime() + bufferMs),
+          },
+        ];
+      });
+
+    // Filter blackouts that affect the candidate's tables
+    const relevantBlackouts = currentBlackouts.filter((bl) => {
+      if (bl.id === exclude.blackoutId) {
+        return false;
+      }
+      // Check if any candidate table is in the blackout's tableIds
+      if (bl.tableIds.some((id) => candidate.tableIds.includes(id))) {
+        return true;
+      }
+      // Empty tableIds with a matching (or no) sectorId: whole sector or restaurant
+      if (
+        (bl.sectorId === sectorId || bl.sectorId === null) &&
+        bl.tableIds.length === 0
+      ) {
+        return true;
+      }
+      return false;
+    });
+
+    const stillAvailable = this.verifyCapacityStillAvailable(
+      candidate,
+      relevantBookings,
+      relevantBlackouts,
+    );
+
+    if (!stillAvailable) {
+      this.metricsService.recordConflict('no_capacity');
+      throw new ConflictException({
+        error: 'no_capacity',
+        detail: 'Capacity no longer available',
+      });
+    }
+  }
+
+  private verifyCapacityStillAvailable(
+    candidate: SlotToLock,
+    bookings: TimeInterval[],
+    blackouts: Array<{ start: Date; end: Date }>,
+  ): boolean {
+    // Check if candidate interval conflicts with any bookings
+    const bookingConflicts = bookings.filter((b) =>
+      this.intervalsOverlap(
+        candidate.interval.start,
+        candidate.interval.end,
+        b.start,
+        b.end,
+      ),
+    );
+
+    // Check if candidate interval conflicts with any blackouts
+    const blackoutConflicts = blackouts.filter((bl) =>
+      this.intervalsOverlap(
+        candidate.interval.start,
+        candidate.interval.end,
+        bl.start,
+        bl.end,
+      ),
+    );
+
+    return bookingConflicts.length === 0 && blackoutConflicts.length === 0;
+  }
+
+  private intervalsOverlap(
+    start1: Date,
+    end1: Date,
+    start2: Date,
+    end2: Date,
+  ): boolean {
+    return start1 < end2 && end1 > start2;
+  }
+
+  /**
+   * Re-check the pacing limits for an arrival while holding a lock on its pacing
+   * window (table locks do not serialize parties arriving at other tables). The lock
+   * covers the whole restaurant when it has a limit, else only the sector.
+   * Returns the window lock (none when no pacing applies); throws 409 `no_capacity`
+   * when the window is full.
+   *
+   * @param excludeBookingId - Booking to leave out of the count (the one being moved, if any)
+   */
+  private async ensurePacingStillAllows(
+    restaurant: Restaurant,
+    sectorId: string,
+    date: Date,
+    serviceWindows: ServiceWindowRule[],
+    start: Date,
+    partySize: number,
+    excludeBookingId?: string,
+  ): Promise<SlotLock[]> {
+    const sector = await this.sectorRepository.findById(sectorId);
+    if (!restaurant.pacing && !sector?.pacing) {
+      return [];
+    }
+
+    const window = this.pacingService.getPacingWindow(
+      start,
+      restaurant.timezone,
+    );
+    const scope = restaurant.pacing
+      ? restaurant.id
+      : `${restaurant.id}|${sectorId}`;
+
+    let lock: SlotLock;
+    try {
+      lock = await this.lockManagerService.acquire(`${scope}|pacing|${window}`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Lock timeout') {
+        this.metricsService.recordLockTimeout();
+        this.metricsService.recordConflict('table_locked');
+        throw new ConflictException({
+          error: 'table_locked',
+          detail:
+            'Another booking is being placed at this time. Please try again.',
+        });
+      }
+      throw error;
+    }
+
+    try {
+      const sectorBookings = (
+        await this.bookingRepository.findByDate(
+          restaurant.id,
+          sectorId,
+          date,
+          restaurant.timezone,
+          serviceWindows,
+        )
+      ).filter((b) => b.id !== excludeBookingId);
+      const scopes = await this.bookingQueryService.loadPacingScopes(
+        restaurant,
+        sectorId,
+        sectorBookings,
+        getServiceDayInterval(serviceWindows, date, restaurant.timezone),
+      );
+
+      if (
+        !this.pacingService.allowsArrival(start, partySize, scopes, restaurant)
+      ) {
+        this.metricsService.recordConflict('no_capacity');
+        throw new ConflictException({
+          error: 'no_capacity',
+          detail: 'Pacing limit reached for this arrival time',
+        });
+      }
+    } catch (error) {
+      lock.release();
+      throw error;
+    }
+
+    return [lock];
+  }
+
+  /**
+   * Create a lock key for a single table at a specific time.
+   * Format: {restaurantId}|{sectorId}|{tableId}|{start}
+   */
+  private createTableLockKey(
+    restaurantId: string,
+    sectorId: string,
+    tableId: string,
+    start: Date,
+  ): string {
+    const startStr = start.toISOString();
+    return `${restaurantId}|${sectorId}|${tableId}|${startStr}`;
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
+import { TableAdjacencyRepository as ITableAdjacencyRepository } from '../../ports/repositories/table-adjacency.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  SECTOR_REPOSITORY,
+  TABLE_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
+} from '../../tokens';
+import { TableAdjacency } from '../../domain/entities/table-adjacency.entity';
+import {
+  CreateTableAdjacencyRequest,
+  TableAdjacencyResponse,
+} from '../dto/table-adjacency.dto';
+import { TableAdjacencyQueryService } from './table-adjacency-query.service';
+
+@Injectable()
+export class TableAdjacencyCommandService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(TABLE_REPOSITORY)
+    private readonly tableRepository: ITableRepository,
+    @Inject(TABLE_ADJACENCY_REPOSITORY)
+    private readonly tableAdjacencyRepository: ITableAdjacencyRepository,
+    private readonly tableAdjacencyQueryService: TableAdjacencyQueryService,
+  ) {}
+
+  /**
+   * Mark two tables of the same sector as joinable (undirected edge).
+   * Once a sector has edges, combos are limited to connected tables.
+   */
+  async createAdjacency(
+    request: CreateTableAdjacencyRequest,
+  ): Promise<TableAdjacencyResponse> {
+    const [tableAId, tableBId] = [...request.tableIds].sort();
+    if (tableAId === tableBId) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'A table cannot be adjacent to itself',
+      });
+    }
+
+    const sector = await this.sectorRepository.findById(request.sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      sector.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const tables = await this.tableRepository.findBySectorId(sector.id);
+    for (const tableId of [tableAId, tableBId]) {
+      if (!tables.some((t) => t.id === tableId)) {
+        throw new NotFoundException({
+          error: 'not_found',
+          detail: `Table ${tableId} not found in sector`,
+        });
+      }
+    }
+
+    const existing = await this.tableAdjacencyRepository.findBySectorId(
+      sector.id,
+    );
+    if (
+      existing.some((a) => a.tableAId === tableAId && a.tableBId === tableBId)
+    ) {
+      throw new ConflictException({
+        error: 'already_exists',
+        detail: `Tables ${tableAId} and ${tableBId} are already adjacent`,
+      });
+    }
+
+    const adjacency = new TableAdjacency();
+    adjacency.id = `ADJ_${randomUUID().substring(0, 8).toUpperCase()}`;
+    adjacency.restaurantId = restaurant.id;
+    adjacency.sectorId = sector.id;
+    adjacency.tableAId = tableAId;
+    adjacency.tableBId = tableBId;
+    adjacency.createdAt = new Date();
+    adjacency.updatedAt = new Date();
+
+    const savedAdjacency =
+      await this.tableAdjacencyRepository.create(adjacency);
+
+    return this.tableAdjacencyQueryService.toResponse(
+      savedAdjacency,
+      restaurant.timezone,
+    );
+  }
+
+  async deleteAdjacency(id: string): Promise<void> {
+    const adjacency = await this.tableAdjacencyRepository.findById(id);
+    if (!adjacency) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Table adjacency not found',
+      });
+    }
+
+    await this.tableAdjacencyRepository.delete(id);
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { TableAdjacencyRepository as ITableAdjacencyRepository } from '../../ports/repositories/table-adjacency.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  SECTOR_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
+} from '../../tokens';
+import { TableAdjacency } from '../../domain/entities/table-adjacency.entity';
+import {
+  ListTableAdjacenciesQuery,
+  ListTableAdjacenciesResponse,
+  TableAdjacencyResponse,
+} from '../dto/table-adjacency.dto';
+
+@Injectable()
+export class TableAdjacencyQueryService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(TABLE_ADJACENCY_REPOSITORY)
+    private readonly tableAdjacencyRepository: ITableAdjacencyRepository,
+  ) {}
+
+  async listAdjacencies(
+    query: ListTableAdjacenciesQuery,
+  ): Promise<ListTableAdjacenciesResponse> {
+    const sector = await this.sectorRepository.findById(query.sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      sector.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const adjacencies = await this.tableAdjacencyRepository.findBySectorId(
+      sector.id,
+    );
+
+    return {
+      sectorId: sector.id,
+      items: adjacencies.map((adjacency) =>
+        this.toResponse(adjacency, restaurant.timezone),
+      ),
+    };
+  }
+
+  toResponse(
+    adjacency: TableAdjacency,
+    timezone: string,
+  ): TableAdjacencyResponse {
+    return {
+      id: adjacency.id,
+      restaurantId: adjacency.restaurantId,
+      sectorId: adjacency.sectorId,
+      tableIds: [adjacency.tableAId, adjacency.tableBId],
+      createdAt: formatInTimeZone(
+        adjacency.createdAt,
+        timezone,
+        "yyyy-MM-dd'T'HH:mm:ssXXX",
+      ),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+} from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { TableRepository as ITableRepository } from '../../ports/repositories/table.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  SECTOR_REPOSITORY,
+  TABLE_REPOSITORY,
+} from '../../tokens';
+import { Table } from '../../domain/entities/table.entity';
+import { UpdateTableRequest, TableResponse } from '../dto/update-table.dto';
+
+@Injectable()
+export class TableCommandService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(TABLE_REPOSITORY)
+    private readonly tableRepository: ITableRepository,
+  ) {}
+
+  /**
+   * Update table-level settings (cleanup buffer overriding the restaurant's, in whole
+   * slots of the restaurant's grid; seating attributes).
+   */
+  async updateTable(
+    id: string,
+    request: UpdateTableRequest,
+  ): Promise<TableResponse> {
+    const table = await this.tableRepository.findById(id);
+    if (!table) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Table not found',
+      });
+    }
+
+    // Grid and timezone (for timestamps) come from the restaurant
+    const sector = await this.sectorRepository.findById(table.sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+    const restaurant = await this.restaurantRepository.findById(
+      sector.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    if (request.bufferMinutes !== undefined) {
+      const slotMinutes = restaurant.slotMinutes;
+      if (
+        request.bufferMinutes !== null &&
+        request.bufferMinutes % slotMinutes !== 0
+      ) {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: `Buffer must be a multiple of ${slotMinutes} minutes`,
+        });
+      }
+      table.bufferMinutes = request.bufferMinutes;
+    }
+    if (request.attributes !== undefined) {
+      table.attributes = request.attributes;
+    }
+    table.updatedAt = new Date();
+
+    const savedTable = await this.tableRepository.update(table);
+
+    return this.toResponse(savedTable, restaurant.timezone);
+  }
+
+  private toResponse(table: Table, timezone: string): TableResponse {
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    return {
+      id: table.id,
+      sectorId: table.sectorId,
+      name: table.name,
+      minSize: table.minSize,
+      maxSize: table.maxSize,
+      bufferMinutes: table.bufferMinutes,
+      attributes: table.attributes ?? [],
+      createdAt: formatDateInTimezone(table.createdAt),
+      updatedAt: formatDateInTimezone(table.updatedAt),
+    };
+  }
+}
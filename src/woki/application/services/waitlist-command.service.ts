@@ -0,0 +1,373 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Inject,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { parseISO } from 'date-fns';
+import { randomUUID } from 'crypto';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { SectorRepository as ISectorRepository } from '../../ports/repositories/sector.repository.interface';
+import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
+import { ServiceWindowRepository as IServiceWindowRepository } from '../../ports/repositories/service-window.repository.interface';
+import { WaitlistRepository as IWaitlistRepository } from '../../ports/repositories/waitlist.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  SECTOR_REPOSITORY,
+  BOOKING_REPOSITORY,
+  SERVICE_WINDOW_REPOSITORY,
+  WAITLIST_REPOSITORY,
+} from '../../tokens';
+import { BookingLifecycleService } from '../../domain/services/booking-lifecycle.service';
+import { LockManagerService } from '../../infrastructure/locking/lock-manager.service';
+import { CapacityEventsService } from '../../infrastructure/events/capacity-events.service';
+import { MetricsService } from '../../infrastructure/metrics/metrics.service';
+import { WaitlistEntry } from '../../domain/entities/waitlist-entry.entity';
+import { BookingStatus } from '../../domain/types/booking-status.enum';
+import { WaitlistStatus } from '../../domain/types/waitlist-status.enum';
+import { CreateBookingResponse } from '../dto/create-booking.dto';
+import {
+  JoinWaitlistRequest,
+  WaitlistEntryResponse,
+} from '../dto/waitlist.dto';
+import { BookingCommandService } from './booking-command.service';
+import { GuestCommandService } from './guest-command.service';
+import { WaitlistQueryService } from './waitlist-query.service';
+import {
+  validateSlotGrid,
+  validateWindowWithinServiceHours,
+} from '../utils/window-validation.util';
+import { AllConfigType } from '../../../config/config.type';
+
+@Injectable()
+export class WaitlistCommandService implements OnModuleInit {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(SECTOR_REPOSITORY)
+    private readonly sectorRepository: ISectorRepository,
+    @Inject(BOOKING_REPOSITORY)
+    private readonly bookingRepository: IBookingRepository,
+    @Inject(SERVICE_WINDOW_REPOSITORY)
+    private readonly serviceWindowRepository: IServiceWindowRepository,
+    @Inject(WAITLIST_REPOSITORY)
+    private readonly waitlistRepository: IWaitlistRepository,
+    private readonly bookingCommandService: BookingCommandService,
+    private readonly guestCommandService: GuestCommandService,
+    private readonly waitlistQueryService: WaitlistQueryService,
+    private readonly bookingLifecycleService: BookingLifecycleService,
+    private readonly lockManagerService: LockManagerService,
+    private readonly capacityEventsService: CapacityEventsService,
+    private readonly metricsService: MetricsService,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  onModuleInit(): void {
+    this.capacityEventsService.onCapacityReleased(async (event) => {
+      await this.offerFreedCapacity(
+        event.restaurantId,
+        event.sectorId,
+        event.date,
+      );
+    });
+  }
+
+  async joinWaitlist(
+    request: JoinWaitlistRequest,
+  ): Promise<WaitlistEntryResponse> {
+    if (isNaN(parseISO(request.date).getTime())) {
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: 'Invalid date format',
+      });
+    }
+
+    const restaurant = await this.restaurantRepository.findById(
+      request.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    validateSlotGrid(restaurant.slotMinutes, request);
+
+    const sector = await this.sectorRepository.findById(request.sectorId);
+    if (!sector) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found',
+      });
+    }
+
+    if (sector.restaurantId !== restaurant.id) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Sector not found in restaurant',
+      });
+    }
+
+    // Reject windows that could never be offered
+    if (request.windowStart && request.windowEnd) {
+      const serviceWindows =
+        await this.serviceWindowRepository.findByRestaurantId(restaurant.id);
+      validateWindowWithinServiceHours(
+        request.windowStart,
+        request.windowEnd,
+        serviceWindows,
+        parseISO(request.date),
+      );
+    }
+
+    const guest = request.guest
+      ? await this.guestCommandService.resolveGuest(
+          request.restaurantId,
+          request.guest,
+        )
+      : null;
+
+    const entry = new WaitlistEntry();
+    entry.id = `WL_${randomUUID().substring(0, 8).toUpperCase()}`;
+    entry.restaurantId = request.restaurantId;
+    entry.sectorId = request.sectorId;
+    entry.date = request.date;
+    entry.windowStart = request.windowStart ?? null;
+    entry.windowEnd = request.windowEnd ?? null;
+    entry.partySize = request.partySize;
+    entry.durationMinutes = request.durationMinutes;
+    entry.guestId = guest ? guest.id : null;
+    entry.status = WaitlistStatus.WAITING;
+    entry.offerBookingId = null;
+    entry.createdAt = new Date();
+    entry.updatedAt = new Date();
+
+    await this.waitlistRepository.create(entry);
+
+    // Capacity may already be free (e.g. the guest joined right after a cancellation)
+    await this.offerFreedCapacity(
+      entry.restaurantId,
+      entry.sectorId,
+      entry.date,
+    );
+
+    return this.waitlistQueryService.getEntry(entry.id);
+  }
+
+  /**
+   * Expire stale offers, then walk WAITING entries in FIFO order and place a hold
+   * for the first one that fits. Runs serialized per restaurant/sector/date;
+   * throws 409 `table_locked` when another pass holds the lock for too long.
+   *
+   * @returns the entry that received an offer, or null if none fits
+   */
+  async processWaitlist(
+    restaurantId: string,
+    sectorId: string,
+    date: string,
+  ): Promise<WaitlistEntry | null> {
+    let lock: { release: () => void };
+    try {
+      lock = await this.lockManagerService.acquire(
+        `waitlist|${restaurantId}|${sectorId}|${date}`,
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Lock timeout') {
+        this.metricsService.recordLockTimeout();
+        this.metricsService.recordConflict('table_locked');
+        throw new ConflictException({
+          error: 'table_locked',
+          detail: 'The waitlist is being processed. Please try again.',
+        });
+      }
+      throw error;
+    }
+
+    try {
+      await this.expireStaleOffers(restaurantId, sectorId, date);
+
+      const waitingEntries = await this.waitlistRepository.findByStatus(
+        restaurantId,
+        sectorId,
+        date,
+        WaitlistStatus.WAITING,
+      );
+
+      // How long a waiting guest has to accept an offer before it goes to the next entry
+      const offerTtlSeconds = this.configService.getOrThrow(
+        'woki.waitlistOfferTtlSeconds',
+        { infer: true },
+      );
+
+      for (const entry of waitingEntries) {
+        try {
+          const hold = await this.bookingCommandService.placeHold(
+            {
+              restaurantId: entry.restaurantId,
+              sectorId: entry.sectorId,
+              partySize: entry.partySize,
+              durationMinutes: entry.durationMinutes,
+              date: entry.date,
+              windowStart: entry.windowStart ?? undefined,
+              windowEnd: entry.windowEnd ?? undefined,
+            },
+            entry.guestId,
+            new Date(Date.now() + offerTtlSeconds * 1000),
+          );
+
+          entry.status = WaitlistStatus.OFFERED;
+          entry.offerBookingId = hold.id;
+          entry.updatedAt = new Date();
+          return await this.waitlistRepository.update(entry);
+        } catch (error) {
+          // Doesn't fit (yet): keep waiting and try the next entry
+          if (error instanceof ConflictException) {
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      return null;
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * Accept a pending offer: the held booking becomes CONFIRMED.
+   * Offers past their expiry are rejected with 409 `offer_expired`.
+   */
+  async acceptOffer(id: string): Promise<CreateBookingResponse> {
+    const entry = await this.waitlistRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Waitlist entry not found',
+      });
+    }
+
+    if (entry.status !== WaitlistStatus.OFFERED || !entry.offerBookingId) {
+      throw new ConflictException({
+        error: 'invalid_state',
+        detail: `Cannot accept a waitlist entry in status ${entry.status}`,
+      });
+    }
+
+    const booking = await this.bookingRepository.findById(entry.offerBookingId);
+    if (
+      !booking ||
+      booking.status !== BookingStatus.HELD ||
+      this.bookingLifecycleService.isHoldExpired(booking)
+    ) {
+      await this.expireOffer(entry);
+
+      // The freed hold can go to the next guest in line
+      await this.offerFreedCapacity(
+        entry.restaurantId,
+        entry.sectorId,
+        entry.date,
+      );
+
+      throw new ConflictException({
+        error: 'offer_expired',
+        detail: 'Waitlist offer has expired',
+      });
+    }
+
+    const confirmed = await this.bookingCommandService.confirmHold(booking.id);
+
+    entry.status = WaitlistStatus.ACCEPTED;
+    entry.updatedAt = new Date();
+    await this.waitlistRepository.update(entry);
+
+    return confirmed;
+  }
+
+  /**
+   * Run the waitlist on behalf of an operation that has already succeeded (join,
+   * cancellation, expired offer). A pass that cannot get the lock is skipped: the
+   * entries keep waiting for the next one.
+   */
+  private async offerFreedCapacity(
+    restaurantId: string,
+    sectorId: string,
+    date: string,
+  ): Promise<void> {
+    try {
+      await this.processWaitlist(restaurantId, sectorId, date);
+    } catch (error) {
+      if (
+        error instanceof ConflictException &&
+        (error.getResponse() as { error?: string }).error === 'table_locked'
+      ) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async expireStaleOffers(
+    restaurantId: string,
+    sectorId: string,
+    date: string,
+  ): Promise<void> {
+    const offeredEntries = await this.waitlistRepository.findByStatus(
+      restaurantId,
+      sectorId,
+      date,
+      WaitlistStatus.OFFERED,
+    );
+
+    for (const entry of offeredEntries) {
+      const booking = entry.offerBookingId
+        ? await this.bookingRepository.findById(entry.offerBookingId)
+        : null;
+      if (booking && booking.status === BookingStatus.HELD) {
+        if (this.bookingLifecycleService.isHoldExpired(booking)) {
+          await this.expireOffer(entry);
+        }
+        continue;
+      }
+
+      // The hold was confirmed through another path, or released
+      if (
+        booking &&
+        booking.status !== BookingStatus.CANCELLED &&
+        booking.status !== BookingStatus.EXPIRED
+      ) {
+        entry.status = WaitlistStatus.ACCEPTED;
+        entry.updatedAt = new Date();
+        await this.waitlistRepository.update(entry);
+      } else {
+        await this.expireOffer(entry);
+      }
+    }
+  }
+
+  /**
+   * Mark the entry EXPIRED and release its hold (if still held).
+   * Does not emit a capacity event: callers re-run the waitlist themselves.
+   */
+  private async expireOffer(entry: WaitlistEntry): Promise<void> {
+    const booking = entry.offerBookingId
+      ? await this.bookingRepository.findById(entry.offerBookingId)
+      : null;
+    if (
+      booking &&
+      booking.status === BookingStatus.HELD &&
+      this.bookingLifecycleService.transition(booking, BookingStatus.EXPIRED)
+    ) {
+      booking.updatedAt = new Date();
+      await this.bookingRepository.update(booking);
+    }
+
+    entry.status = WaitlistStatus.EXPIRED;
+    entry.updatedAt = new Date();
+    await this.waitlistRepository.update(entry);
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { RestaurantRepository as IRestaurantRepository } from '../../ports/repositories/restaurant.repository.interface';
+import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
+import { GuestRepository as IGuestRepository } from '../../ports/repositories/guest.repository.interface';
+import { WaitlistRepository as IWaitlistRepository } from '../../ports/repositories/waitlist.repository.interface';
+import {
+  RESTAURANT_REPOSITORY,
+  BOOKING_REPOSITORY,
+  GUEST_REPOSITORY,
+  WAITLIST_REPOSITORY,
+} from '../../tokens';
+import { WaitlistEntry } from '../../domain/entities/waitlist-entry.entity';
+import { WaitlistEntryResponse } from '../dto/waitlist.dto';
+import { toGuestResponse } from '../utils/guest-response.util';
+
+@Injectable()
+export class WaitlistQueryService {
+  constructor(
+    @Inject(RESTAURANT_REPOSITORY)
+    private readonly restaurantRepository: IRestaurantRepository,
+    @Inject(BOOKING_REPOSITORY)
+    private readonly bookingRepository: IBookingRepository,
+    @Inject(GUEST_REPOSITORY)
+    private readonly guestRepository: IGuestRepository,
+    @Inject(WAITLIST_REPOSITORY)
+    private readonly waitlistRepository: IWaitlistRepository,
+  ) {}
+
+  async getEntry(id: string): Promise<WaitlistEntryResponse> {
+    const entry = await this.waitlistRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Waitlist entry not found',
+      });
+    }
+
+    return this.toResponse(entry);
+  }
+
+  async toResponse(entry: WaitlistEntry): Promise<WaitlistEntryResponse> {
+    // Restaurant is needed for timezone formatting
+    const restaurant = await this.restaurantRepository.findById(
+      entry.restaurantId,
+    );
+    if (!restaurant) {
+      throw new NotFoundException({
+        error: 'not_found',
+        detail: 'Restaurant not found',
+      });
+    }
+
+    const formatDateInTimezone = (date: Date) =>
+      formatInTimeZone(date, restaurant.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+    const guest = entry.guestId
+      ? await this.guestRepository.findById(entry.guestId)
+      : null;
+
+    const offerBooking = entry.offerBookingId
+      ? await this.bookingRepository.findById(entry.offerBookingId)
+      : null;
+
+    return {
+      id: entry.id,
+      restaurantId: entry.restaurantId,
+      sectorId: entry.sectorId,
+      date: entry.date,
+      windowStart: entry.windowStart,
+      windowEnd: entry.windowEnd,
+      partySize: entry.partySize,
+      durationMinutes: entry.durationMinutes,
+      status: entry.status,
+      guest: toGuestResponse(guest),
+      offer: offerBooking
+        ? {
+            bookingId: offerBooking.id,
+            tableIds: offerBooking.tableIds,
+            start: formatDateInTimezone(offerBooking.start),
+            end: formatDateInTimezone(offerBooking.end),
+            expiresAt: offerBooking.holdExpiresAt
+              ? formatDateInTimezone(offerBooking.holdExpiresAt)
+              : null,
+          }
+        : null,
+      createdAt: formatDateInTimezone(entry.createdAt),
+      updatedAt: formatDateInTimezone(entry.updatedAt),
+    };
+  }
+}
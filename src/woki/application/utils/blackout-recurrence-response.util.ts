@@ -0,0 +1,25 @@
+import { BlackoutRecurrence } from '../../domain/types/blackout-recurrence.type';
+import { BlackoutRecurrenceResponse } from '../dto/create-blackout.dto';
+
+/**
+ * Maps a stored recurrence rule to its API representation (the timezone is implied
+ * by the restaurant).
+ *
+ * @param recurrence - Stored rule, or null for one-off blackouts
+ */
+export function toBlackoutRecurrenceResponse(
+  recurrence: BlackoutRecurrence | null,
+): BlackoutRecurrenceResponse | null {
+  if (!recurrence) {
+    return null;
+  }
+
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval,
+    byWeekday: recurrence.byWeekday,
+    until: recurrence.until,
+    count: recurrence.count,
+    exceptions: recurrence.exceptions,
+  };
+}
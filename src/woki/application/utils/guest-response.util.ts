@@ -0,0 +1,23 @@
+import { Guest } from '../../domain/entities/guest.entity';
+import { GuestResponse } from '../dto/guest.dto';
+
+/**
+ * Maps a Guest entity to the contact block embedded in booking responses.
+ *
+ * @param guest - Guest entity, or null for bookings without contact details
+ * @returns The guest response, or null when there is no guest
+ */
+export function toGuestResponse(guest: Guest | null): GuestResponse | null {
+  if (!guest) {
+    return null;
+  }
+
+  return {
+    id: guest.id,
+    name: guest.name,
+    phone: guest.phone,
+    email: guest.email,
+    notes: guest.notes,
+    dietaryTags: guest.dietaryTags,
+  };
+}
@@ -0,0 +1,29 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { ServiceWindow } from '../../domain/entities/service-window.entity';
+import { ServiceWindowResponse } from '../dto/create-service-window.dto';
+
+/**
+ * Maps a ServiceWindow entity to its API representation.
+ *
+ * @param window - Service window row
+ * @param timezone - Restaurant timezone used for the audit timestamps
+ */
+export function toServiceWindowResponse(
+  window: ServiceWindow,
+  timezone: string,
+): ServiceWindowResponse {
+  const formatDateInTimezone = (date: Date) =>
+    formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+  return {
+    id: window.id,
+    restaurantId: window.restaurantId,
+    start: window.start,
+    end: window.end,
+    dayOfWeek: window.dayOfWeek,
+    date: window.date,
+    closed: window.closed,
+    createdAt: formatDateInTimezone(window.createdAt),
+    updatedAt: formatDateInTimezone(window.updatedAt),
+  };
+}
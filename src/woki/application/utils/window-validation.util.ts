@@ -1,44 +1,90 @@
-import { UnprocessableEntityException } from '@nestjs/common';
+import {
+  BadRequestException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { resolveServiceWindowsForDate } from '../../domain/utils/service-window-schedule.util';
+import {
+  getWindowMinutes,
+  placeWindowMinutes,
+  toMinutesOfDay,
+} from '../../domain/utils/service-day.util';
+
+/**
+ * Validates a requested duration and window times against the restaurant's slot grid.
+ *
+ * @param slotMinutes - The restaurant's slot length
+ * @throws BadRequestException if the duration is not whole slots or a window time is off the grid
+ */
+export function validateSlotGrid(
+  slotMinutes: number,
+  request: {
+    durationMinutes?: number;
+    windowStart?: string;
+    windowEnd?: string;
+  },
+): void {
+  if (
+    request.durationMinutes !== undefined &&
+    request.durationMinutes % slotMinutes !== 0
+  ) {
+    throw new BadRequestException({
+      error: 'invalid_input',
+      detail: `Duration must be a multiple of ${slotMinutes} minutes`,
+    });
+  }
+
+  const offGrid = [request.windowStart, request.windowEnd].some(
+    (time) => time !== undefined && toMinutesOfDay(time) % slotMinutes !== 0,
+  );
+  if (offGrid) {
+    throw new BadRequestException({
+      error: 'invalid_input',
+      detail: `Window times must be on the ${slotMinutes}-minute grid`,
+    });
+  }
+}
 
 /**
  * Validates if a requested time window is within the restaurant's service windows.
  *
  * @param windowStart - Requested window start time in HH:mm format
- * @param windowEnd - Requested window end time in HH:mm format
- * @param serviceWindows - Array of service windows with start/end in HH:mm format
- * @throws UnprocessableEntityException if window is outside service hours
+ * @param windowEnd - Requested window end time in HH:mm format (may roll past midnight)
+ * @param serviceWindows - Restaurant service window rows (weekly rows and date overrides)
+ * @param date - Requested day; decides which rows apply
+ * @throws UnprocessableEntityException if window is outside service hours or the restaurant is closed that day
  */
 export function validateWindowWithinServiceHours(
   windowStart: string,
   windowEnd: string,
-  serviceWindows: Array<{ start: string; end: string }>,
+  serviceWindows: ServiceWindowRule[],
+  date: Date,
 ): void {
+  const dayWindows = resolveServiceWindowsForDate(serviceWindows, date);
+
   // If no service windows, allow any window (24h open)
-  if (!serviceWindows || serviceWindows.length === 0) {
+  if (!dayWindows) {
     return;
   }
 
-  // Parse the requested window times
-  const [reqStartHour, reqStartMin] = windowStart.split(':').map(Number);
-  const [reqEndHour, reqEndMin] = windowEnd.split(':').map(Number);
-  const reqStartMinutes = reqStartHour * 60 + reqStartMin;
-  const reqEndMinutes = reqEndHour * 60 + reqEndMin;
+  if (dayWindows.length === 0) {
+    throw new UnprocessableEntityException({
+      error: 'outside_service_window',
+      detail: 'Restaurant is closed on this date',
+    });
+  }
+
+  // Place the requested window on the service day (minutes from its midnight);
+  // windows crossing midnight extend past 1440 on both sides of the comparison
+  const requested = placeWindowMinutes(windowStart, windowEnd, dayWindows);
+  const reqStartMinutes = requested.start ?? 0;
+  const reqEndMinutes = requested.end ?? 0;
 
   // Check if the requested window overlaps with any service window
   // Overlap occurs when: reqStart < swEnd && reqEnd > swStart
-  const overlapsAnyWindow = serviceWindows.some((sw) => {
-    const [swStartHour, swStartMin] = sw.start.split(':').map(Number);
-    const [swEndHour, swEndMin] = sw.end.split(':').map(Number);
-    const swStartMinutes = swStartHour * 60 + swStartMin;
-    const swEndMinutes = swEndHour * 60 + swEndMin;
-
-    // Check if requested window overlaps with this service window
-    // Overlap: reqStart < swEnd && reqEnd > swStart
-    return (
-      reqStartMinutes < swEndMinutes &&
-      reqEndMinutes > swStartMinutes &&
-      reqStartMinutes < reqEndMinutes
-    );
+  const overlapsAnyWindow = dayWindows.some((sw) => {
+    const swMinutes = getWindowMinutes(sw);
+    return reqStartMinutes < swMinutes.end && reqEndMinutes > swMinutes.start;
   });
 
   if (!overlapsAnyWindow) {
@@ -47,4 +93,15 @@ export function validateWindowWithinServiceHours(
       detail: 'Window does not intersect service hours',
     });
   }
+
+  // Only an overnight service window lets a request run past midnight
+  const serviceEndMinutes = Math.max(
+    ...dayWindows.map((sw) => getWindowMinutes(sw).end),
+  );
+  if (reqEndMinutes >= 24 * 60 && reqEndMinutes > serviceEndMinutes) {
+    throw new UnprocessableEntityException({
+      error: 'outside_service_window',
+      detail: 'Window extends past midnight beyond service hours',
+    });
+  }
 }
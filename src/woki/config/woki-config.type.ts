@@ -0,0 +1,12 @@
+import {
+  SelectionStrategyName,
+  SelectionWeights,
+} from '../domain/types/selection-strategy.type';
+
+export type WokiConfig = {
+  holdTtlSeconds: number;
+  holdSweepIntervalSeconds: number;
+  waitlistOfferTtlSeconds: number;
+  selectionStrategy: SelectionStrategyName;
+  selectionWeights: SelectionWeights;
+};
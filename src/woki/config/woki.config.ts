@@ -0,0 +1,36 @@
+import { registerAs } from '@nestjs/config';
+import { WokiConfig } from './woki-config.type';
+import { SelectionStrategyName } from '../domain/types/selection-strategy.type';
+
+const parseWeight = (value: string | undefined, fallback: number): number =>
+  value !== undefined && value !== '' ? parseFloat(value) : fallback;
+
+export default registerAs<WokiConfig>('woki', () => {
+  const selectionStrategy = process.env.WOKI_SELECTION_STRATEGY;
+
+  return {
+    holdTtlSeconds: process.env.WOKI_HOLD_TTL_SECONDS
+      ? parseInt(process.env.WOKI_HOLD_TTL_SECONDS, 10)
+      : 300,
+    holdSweepIntervalSeconds: process.env.WOKI_HOLD_SWEEP_INTERVAL_SECONDS
+      ? parseInt(process.env.WOKI_HOLD_SWEEP_INTERVAL_SECONDS, 10)
+      : 30,
+    waitlistOfferTtlSeconds: process.env.WOKI_WAITLIST_OFFER_TTL_SECONDS
+      ? parseInt(process.env.WOKI_WAITLIST_OFFER_TTL_SECONDS, 10)
+      : 900,
+    selectionStrategy: Object.values<string>(SelectionStrategyName).includes(
+      selectionStrategy ?? '',
+    )
+      ? (selectionStrategy as SelectionStrategyName)
+      : SelectionStrategyName.DEFAULT,
+    selectionWeights: {
+      emptySeats: parseWeight(process.env.WOKI_SELECTION_WEIGHT_EMPTY_SEATS, 1),
+      startDelay: parseWeight(process.env.WOKI_SELECTION_WEIGHT_START_DELAY, 1),
+      tableCount: parseWeight(process.env.WOKI_SELECTION_WEIGHT_TABLE_COUNT, 2),
+      largestTable: parseWeight(
+        process.env.WOKI_SELECTION_WEIGHT_LARGEST_TABLE,
+        0.5,
+      ),
+    },
+  };
+});
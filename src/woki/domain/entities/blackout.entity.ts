@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 import { BlackoutReason } from '../types/blackout-reason.enum';
+import { BlackoutRecurrence } from '../types/blackout-recurrence.type';
 
 @Entity('blackouts')
 export class Blackout {
@@ -16,16 +17,22 @@ export class Blackout {
   restaurantId: string;
 
   @Column({ type: 'varchar', nullable: true })
-  sectorId: string | null; // null means it's table-specific, not sector-wide
+  sectorId: string | null; // null = restaurant-wide (every sector)
 
   @Column('simple-json')
-  tableIds: string[]; // Empty array means whole sector (if sectorId is set)
+  tableIds: string[]; // Empty array means whole sector (or whole restaurant, without sectorId)
 
   @Column()
   start: Date;
 
   @Column()
-  end: Date; // exclusive
+  end: Date; // exclusive (of the first occurrence, for recurring blackouts); may be days after start
+
+  @Column({ type: 'simple-json', nullable: true })
+  recurrence: BlackoutRecurrence | null; // null = one-off
+
+  @Column({ type: 'simple-json', nullable: true })
+  cancelledBookingIds: string[] | null; // Confirmed bookings it cancelled (restored when an edit frees them)
 
   @Column({
     type: 'varchar',
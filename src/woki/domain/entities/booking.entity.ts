@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 import { BookingStatus } from '../types/booking-status.enum';
+import { TableAttribute } from '../types/table-attribute.enum';
 
 @Entity('bookings')
 export class Booking {
@@ -24,6 +25,9 @@ export class Booking {
   @Column()
   partySize: number;
 
+  @Column({ type: 'varchar', nullable: true })
+  guestId: string | null; // null for walk-ins / bookings without contact details
+
   @Column()
   start: Date;
 
@@ -33,6 +37,9 @@ export class Booking {
   @Column()
   durationMinutes: number;
 
+  @Column({ type: 'simple-json', nullable: true })
+  requiredAttributes: TableAttribute[] | null; // kept when rescheduled or relocated (null = none)
+
   @Column({
     type: 'varchar',
     enum: BookingStatus,
@@ -40,6 +47,25 @@ export class Booking {
   })
   status: BookingStatus;
 
+  @Column({ type: 'datetime', nullable: true })
+  holdExpiresAt: Date | null; // only for HELD bookings
+
+  // Lifecycle timestamps, set when the booking enters the matching status
+  @Column({ type: 'datetime', nullable: true })
+  arrivedAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  seatedAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  completedAt: Date | null; // may be before `end` when the table is freed early
+
+  @Column({ type: 'datetime', nullable: true })
+  noShowAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  cancelledAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
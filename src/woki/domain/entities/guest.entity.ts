@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('guests')
+export class Guest {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  restaurantId: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  phone: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null; // Stored lowercased for matching
+
+  @Column({ type: 'varchar', nullable: true })
+  notes: string | null;
+
+  @Column('simple-json')
+  dietaryTags: string[]; // e.g. ['vegan', 'gluten-free']
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -5,6 +5,9 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { SelectionStrategyName } from '../types/selection-strategy.type';
+import { DurationRule } from '../types/duration-rule.type';
+import { PacingLimit } from '../types/pacing-limit.type';
 
 @Entity('restaurants')
 export class Restaurant {
@@ -17,6 +20,24 @@ export class Restaurant {
   @Column()
   timezone: string; // IANA timezone
 
+  @Column({ default: 15 })
+  slotMinutes: number; // Grid for start times and durations (divides an hour)
+
+  @Column({ type: 'varchar', nullable: true })
+  selectionStrategy: SelectionStrategyName | null; // null = configured default
+
+  @Column({ type: 'simple-json', nullable: true })
+  sectorPreference: string[] | null; // Sector IDs, most preferred first (null = no preference)
+
+  @Column({ type: 'simple-json', nullable: true })
+  durationRules: DurationRule[] | null; // Default turn times (null = duration always required)
+
+  @Column({ default: 0 })
+  bufferMinutes: number; // Cleanup time kept free before and after each booking
+
+  @Column({ type: 'simple-json', nullable: true })
+  pacing: PacingLimit | null; // Arrivals per slot across sectors (null = unlimited)
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { PacingLimit } from '../types/pacing-limit.type';
 
 @Entity('sectors')
 export class Sector {
@@ -17,6 +18,9 @@ export class Sector {
   @Column()
   name: string;
 
+  @Column({ type: 'simple-json', nullable: true })
+  pacing: PacingLimit | null; // Arrivals per slot in this sector (null = unlimited)
+
   @CreateDateColumn()
   createdAt: Date;
 
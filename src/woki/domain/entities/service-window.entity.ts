@@ -14,11 +14,20 @@ export class ServiceWindow {
   @Column()
   restaurantId: string;
 
-  @Column()
-  start: string; // HH:mm format
+  @Column({ type: 'varchar', nullable: true })
+  start: string | null; // HH:mm format (null for closed overrides)
 
-  @Column()
-  end: string; // HH:mm format
+  @Column({ type: 'varchar', nullable: true })
+  end: string | null; // HH:mm format (null for closed overrides)
+
+  @Column({ type: 'integer', nullable: true })
+  dayOfWeek: number | null; // 0 = Sunday ... 6 = Saturday, null = every day
+
+  @Column({ type: 'varchar', nullable: true })
+  date: string | null; // YYYY-MM-DD, overrides the weekly schedule for that day
+
+  @Column({ default: false })
+  closed: boolean; // only for date overrides
 
   @CreateDateColumn()
   createdAt: Date;
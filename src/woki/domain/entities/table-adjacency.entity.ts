@@ -0,0 +1,31 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('table_adjacencies')
+export class TableAdjacency {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  restaurantId: string;
+
+  @Column()
+  sectorId: string;
+
+  @Column()
+  tableAId: string; // Lower table ID of the pair (edges are undirected)
+
+  @Column()
+  tableBId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
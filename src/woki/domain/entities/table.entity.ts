@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { TableAttribute } from '../types/table-attribute.enum';
 
 @Entity('tables')
 export class Table {
@@ -23,6 +24,12 @@ export class Table {
   @Column()
   maxSize: number;
 
+  @Column({ type: 'integer', nullable: true })
+  bufferMinutes: number | null; // null = restaurant's buffer
+
+  @Column({ type: 'simple-json', nullable: true })
+  attributes: TableAttribute[] | null; // e.g. ['outdoor', 'quiet'] (null = none)
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { WaitlistStatus } from '../types/waitlist-status.enum';
+
+@Entity('waitlist_entries')
+export class WaitlistEntry {
+  @PrimaryColumn()
+  id: string;
+
+  @Column()
+  restaurantId: string;
+
+  @Column()
+  sectorId: string;
+
+  @Column()
+  date: string; // YYYY-MM-DD in restaurant timezone
+
+  @Column({ type: 'varchar', nullable: true })
+  windowStart: string | null; // HH:mm format
+
+  @Column({ type: 'varchar', nullable: true })
+  windowEnd: string | null; // HH:mm format
+
+  @Column()
+  partySize: number;
+
+  @Column()
+  durationMinutes: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  guestId: string | null;
+
+  @Column({
+    type: 'varchar',
+    enum: WaitlistStatus,
+    default: WaitlistStatus.WAITING,
+  })
+  status: WaitlistStatus;
+
+  @Column({ type: 'varchar', nullable: true })
+  offerBookingId: string | null; // HELD booking created for the offer
+
+  @CreateDateColumn()
+  createdAt: Date; // FIFO order
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
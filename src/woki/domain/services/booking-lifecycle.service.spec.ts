@@ -0,0 +1,166 @@
+import { BookingLifecycleService } from './booking-lifecycle.service';
+import { BookingStatus } from '../types/booking-status.enum';
+
+describe('BookingLifecycleService', () => {
+  let service: BookingLifecycleService;
+
+  const makeBooking = (status: BookingStatus) => ({
+    status,
+    start: new Date('2025-10-22T23:00:00Z'),
+    end: new Date('2025-10-23T01:00:00Z'),
+    arrivedAt: null as Date | null,
+    seatedAt: null as Date | null,
+    completedAt: null as Date | null,
+    noShowAt: null as Date | null,
+    cancelledAt: null as Date | null,
+    holdExpiresAt: null as Date | null,
+  });
+
+  beforeEach(() => {
+    service = new BookingLifecycleService();
+  });
+
+  describe('transition', () => {
+    it('should walk the full seating lifecycle and stamp each transition', () => {
+      const booking = makeBooking(BookingStatus.CONFIRMED);
+      const arrivedAt = new Date('2025-10-22T22:55:00Z');
+      const seatedAt = new Date('2025-10-22T23:05:00Z');
+      const completedAt = new Date('2025-10-23T00:30:00Z');
+
+      expect(
+        service.transition(booking, BookingStatus.ARRIVED, arrivedAt),
+      ).toBe(true);
+      expect(service.transition(booking, BookingStatus.SEATED, seatedAt)).toBe(
+        true,
+      );
+      expect(
+        service.transition(booking, BookingStatus.COMPLETED, completedAt),
+      ).toBe(true);
+
+      expect(booking.status).toBe(BookingStatus.COMPLETED);
+      expect(booking.arrivedAt).toEqual(arrivedAt);
+      expect(booking.seatedAt).toEqual(seatedAt);
+      expect(booking.completedAt).toEqual(completedAt);
+    });
+
+    it('should allow seating a confirmed booking directly', () => {
+      const booking = makeBooking(BookingStatus.CONFIRMED);
+
+      expect(service.transition(booking, BookingStatus.SEATED)).toBe(true);
+      expect(booking.seatedAt).toBeInstanceOf(Date);
+      expect(booking.arrivedAt).toBeNull();
+    });
+
+    it('should reject completing a booking that was never seated', () => {
+      const booking = makeBooking(BookingStatus.CONFIRMED);
+
+      expect(service.transition(booking, BookingStatus.COMPLETED)).toBe(false);
+      expect(booking.status).toBe(BookingStatus.CONFIRMED);
+      expect(booking.completedAt).toBeNull();
+    });
+
+    it('should reject cancelling a seated booking', () => {
+      const booking = makeBooking(BookingStatus.SEATED);
+
+      expect(service.transition(booking, BookingStatus.CANCELLED)).toBe(false);
+    });
+
+    it('should clear the hold expiry when a hold is confirmed', () => {
+      const booking = makeBooking(BookingStatus.HELD);
+      booking.holdExpiresAt = new Date('2025-10-22T20:15:00Z');
+
+      expect(service.transition(booking, BookingStatus.CONFIRMED)).toBe(true);
+      expect(booking.holdExpiresAt).toBeNull();
+    });
+
+    it('should let an unconfirmed hold expire', () => {
+      const booking = makeBooking(BookingStatus.HELD);
+      booking.holdExpiresAt = new Date('2025-10-22T20:15:00Z');
+
+      expect(service.transition(booking, BookingStatus.EXPIRED)).toBe(true);
+      expect(booking.holdExpiresAt).toBeNull();
+      expect(service.getOccupiedInterval(booking)).toBeNull();
+    });
+
+    it('should restore a cancelled booking as confirmed', () => {
+      const booking = makeBooking(BookingStatus.CANCELLED);
+      booking.cancelledAt = new Date('2025-10-22T20:00:00Z');
+
+      expect(service.restore(booking)).toBe(true);
+      expect(booking.status).toBe(BookingStatus.CONFIRMED);
+      expect(booking.cancelledAt).toBeNull();
+
+      // Only cancelled bookings can be restored
+      const hold = makeBooking(BookingStatus.HELD);
+      expect(service.restore(hold)).toBe(false);
+      expect(hold.status).toBe(BookingStatus.HELD);
+    });
+
+    it('should treat terminal statuses as final', () => {
+      for (const status of [
+        BookingStatus.COMPLETED,
+        BookingStatus.NO_SHOW,
+        BookingStatus.CANCELLED,
+        BookingStatus.EXPIRED,
+      ]) {
+        for (const target of Object.values(BookingStatus)) {
+          expect(service.canTransition(status, target)).toBe(false);
+        }
+      }
+    });
+  });
+
+  describe('getOccupiedInterval', () => {
+    it('should return the full interval for active bookings', () => {
+      for (const status of [
+        BookingStatus.CONFIRMED,
+        BookingStatus.ARRIVED,
+        BookingStatus.SEATED,
+      ]) {
+        const booking = makeBooking(status);
+        expect(service.getOccupiedInterval(booking)).toEqual({
+          start: booking.start,
+          end: booking.end,
+        });
+      }
+    });
+
+    it('should release the remaining interval when completed early', () => {
+      const booking = makeBooking(BookingStatus.COMPLETED);
+      booking.completedAt = new Date('2025-10-23T00:15:00Z');
+
+      expect(service.getOccupiedInterval(booking)).toEqual({
+        start: booking.start,
+        end: booking.completedAt,
+      });
+    });
+
+    it('should keep the scheduled end when completed late', () => {
+      const booking = makeBooking(BookingStatus.COMPLETED);
+      booking.completedAt = new Date('2025-10-23T01:30:00Z');
+
+      expect(service.getOccupiedInterval(booking)?.end).toEqual(booking.end);
+    });
+
+    it('should block capacity for a hold until it expires', () => {
+      const booking = makeBooking(BookingStatus.HELD);
+      booking.holdExpiresAt = new Date('2025-10-22T20:15:00Z');
+
+      expect(
+        service.getOccupiedInterval(booking, new Date('2025-10-22T20:10:00Z')),
+      ).toEqual({ start: booking.start, end: booking.end });
+      expect(
+        service.getOccupiedInterval(booking, new Date('2025-10-22T20:15:00Z')),
+      ).toBeNull();
+    });
+
+    it('should not block capacity for cancelled or no-show bookings', () => {
+      expect(
+        service.getOccupiedInterval(makeBooking(BookingStatus.CANCELLED)),
+      ).toBeNull();
+      expect(
+        service.getOccupiedInterval(makeBooking(BookingStatus.NO_SHOW)),
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BookingStatus,
+  OCCUPYING_BOOKING_STATUSES,
+} from '../types/booking-status.enum';
+import { TimeInterval } from '../types/time-interval.type';
+
+type LifecycleBooking = {
+  status: string;
+  start: Date;
+  end: Date;
+  holdExpiresAt?: Date | null;
+  arrivedAt?: Date | null;
+  seatedAt?: Date | null;
+  completedAt?: Date | null;
+  noShowAt?: Date | null;
+  cancelledAt?: Date | null;
+};
+
+@Injectable()
+export class BookingLifecycleService {
+  /**
+   * Allowed status transitions (seating state machine).
+   *
+   * HELD → CONFIRMED | CANCELLED | EXPIRED
+   * CONFIRMED → ARRIVED → SEATED → COMPLETED
+   * CONFIRMED → SEATED (walked straight to the table)
+   * CONFIRMED → NO_SHOW
+   * CONFIRMED | ARRIVED → CANCELLED
+   *
+   * COMPLETED, NO_SHOW, CANCELLED and EXPIRED are terminal (a blackout edit can
+   * still restore a booking it cancelled, see `restore`).
+   */
+  private readonly transitions: Record<BookingStatus, BookingStatus[]> = {
+    [BookingStatus.HELD]: [
+      BookingStatus.CONFIRMED,
+      BookingStatus.CANCELLED,
+      BookingStatus.EXPIRED,
+    ],
+    [BookingStatus.CONFIRMED]: [
+      BookingStatus.ARRIVED,
+      BookingStatus.SEATED,
+      BookingStatus.NO_SHOW,
+      BookingStatus.CANCELLED,
+    ],
+    [BookingStatus.ARRIVED]: [BookingStatus.SEATED, BookingStatus.CANCELLED],
+    [BookingStatus.SEATED]: [BookingStatus.COMPLETED],
+    [BookingStatus.COMPLETED]: [],
+    [BookingStatus.NO_SHOW]: [],
+    [BookingStatus.CANCELLED]: [],
+    [BookingStatus.EXPIRED]: [],
+  };
+
+  canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return this.transitions[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Move a booking to a new status and stamp the matching timestamp.
+   * Mutates the booking; the caller is responsible for persisting it.
+   *
+   * @returns false if the transition is not allowed (booking is left untouched)
+   */
+  transition<T extends LifecycleBooking>(
+    booking: T,
+    to: BookingStatus,
+    at: Date = new Date(),
+  ): boolean {
+    if (!this.canTransition(booking.status as BookingStatus, to)) {
+      return false;
+    }
+
+    booking.status = to;
+    if (to !== BookingStatus.HELD) {
+      booking.holdExpiresAt = null;
+    }
+    switch (to) {
+      case BookingStatus.ARRIVED:
+        booking.arrivedAt = at;
+        break;
+      case BookingStatus.SEATED:
+        booking.seatedAt = at;
+        break;
+      case BookingStatus.COMPLETED:
+        booking.completedAt = at;
+        break;
+      case BookingStatus.NO_SHOW:
+        booking.noShowAt = at;
+        break;
+      case BookingStatus.CANCELLED:
+        booking.cancelledAt = at;
+        break;
+    }
+
+    return true;
+  }
+
+  /**
+   * Confirm again a CANCELLED booking whose tables were given back (an edited
+   * blackout no longer covers it) and clear its cancellation stamp. Kept out of
+   * `transition` so cancelled bookings and holds cannot be confirmed otherwise.
+   * Mutates the booking; the caller is responsible for persisting it.
+   *
+   * @returns false if the booking is not CANCELLED (booking is left untouched)
+   */
+  restore<T extends LifecycleBooking>(booking: T): boolean {
+    if (booking.status !== BookingStatus.CANCELLED) {
+      return false;
+    }
+
+    booking.status = BookingStatus.CONFIRMED;
+    booking.cancelledAt = null;
+    booking.holdExpiresAt = null;
+    return true;
+  }
+
+  /**
+   * Interval during which the booking actually blocks its tables, [start, end).
+   * A booking COMPLETED before its scheduled end releases the remaining interval.
+   * A HELD booking past its holdExpiresAt releases everything.
+   *
+   * @returns null if the booking does not block capacity at all
+   */
+  getOccupiedInterval(
+    booking: LifecycleBooking,
+    now: Date = new Date(),
+  ): TimeInterval | null {
+    const status = booking.status as BookingStatus;
+    if (!OCCUPYING_BOOKING_STATUSES.includes(status)) {
+      return null;
+    }
+
+    if (status === BookingStatus.HELD && this.isHoldExpired(booking, now)) {
+      return null;
+    }
+
+    if (
+      status === BookingStatus.COMPLETED &&
+      booking.completedAt &&
+      booking.completedAt < booking.end
+    ) {
+      // Completed before it even started: nothing left to block
+      if (booking.completedAt <= booking.start) {
+        return null;
+      }
+      return { start: booking.start, end: booking.completedAt };
+    }
+
+    return { start: booking.start, end: booking.end };
+  }
+
+  isHoldExpired(
+    booking: { holdExpiresAt?: Date | null },
+    now: Date = new Date(),
+  ): boolean {
+    return !!booking.holdExpiresAt && booking.holdExpiresAt <= now;
+  }
+}
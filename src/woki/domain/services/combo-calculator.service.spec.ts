@@ -0,0 +1,32 @@
+import { ComboCalculatorService } from './combo-calculator.service';
+
+describe('ComboCalculatorService', () => {
+  let service: ComboCalculatorService;
+
+  beforeEach(() => {
+    service = new ComboCalculatorService();
+  });
+
+  describe('adjacency', () => {
+    it('should treat any tables as joinable when no edges are configured', () => {
+      const graph = service.buildAdjacencyGraph([]);
+
+      expect(graph).toBeNull();
+      expect(service.isJoinable(['T1', 'T5'], graph)).toBe(true);
+    });
+
+    it('should only join tables that form a connected subgraph', () => {
+      // T1 - T2 - T3, T4 on its own
+      const graph = service.buildAdjacencyGraph([
+        { tableAId: 'T1', tableBId: 'T2' },
+        { tableAId: 'T2', tableBId: 'T3' },
+      ]);
+
+      expect(service.isJoinable(['T1', 'T2'], graph)).toBe(true);
+      expect(service.isJoinable(['T3', 'T1', 'T2'], graph)).toBe(true);
+      // Not directly adjacent, and the table in between is not part of the combo
+      expect(service.isJoinable(['T1', 'T3'], graph)).toBe(false);
+      expect(service.isJoinable(['T1', 'T4'], graph)).toBe(false);
+    });
+  });
+});
@@ -19,4 +19,53 @@ export class ComboCalculatorService {
 
     return { minCapacity, maxCapacity };
   }
+
+  /**
+   * Build an undirected graph from the sector's joinable table pairs.
+   * Returns null when the sector has no edges configured (any tables can be joined).
+   */
+  buildAdjacencyGraph(
+    edges: Array<{ tableAId: string; tableBId: string }>,
+  ): Map<string, Set<string>> | null {
+    if (edges.length === 0) {
+      return null;
+    }
+
+    const graph = new Map<string, Set<string>>();
+    for (const edge of edges) {
+      if (!graph.has(edge.tableAId)) graph.set(edge.tableAId, new Set());
+      if (!graph.has(edge.tableBId)) graph.set(edge.tableBId, new Set());
+      graph.get(edge.tableAId)!.add(edge.tableBId);
+      graph.get(edge.tableBId)!.add(edge.tableAId);
+    }
+    return graph;
+  }
+
+  /**
+   * Check that the tables form a connected subgraph, i.e. they can be pushed
+   * together through joinable neighbours only.
+   */
+  isJoinable(
+    tableIds: string[],
+    graph: Map<string, Set<string>> | null,
+  ): boolean {
+    if (!graph || tableIds.length < 2) {
+      return true;
+    }
+
+    const members = new Set(tableIds);
+    const visited = new Set([tableIds[0]]);
+    const queue = [tableIds[0]];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const neighbour of graph.get(current) ?? []) {
+        if (members.has(neighbour) && !visited.has(neighbour)) {
+          visited.add(neighbour);
+          queue.push(neighbour);
+        }
+      }
+    }
+
+    return visited.size === members.size;
+  }
 }
@@ -0,0 +1,225 @@
+import { GapDiscoveryService } from './gap-discovery.service';
+import { BookingLifecycleService } from './booking-lifecycle.service';
+import { BookingStatus } from '../types/booking-status.enum';
+
+describe('GapDiscoveryService', () => {
+  let service: GapDiscoveryService;
+
+  const restaurant = {
+    id: 'R1',
+    name: 'Test Restaurant',
+    timezone: 'America/Argentina/Buenos_Aires',
+    slotMinutes: 15,
+  } as any;
+  const date = new Date('2025-10-22T00:00:00Z');
+  const serviceWindows = [{ start: '20:00', end: '23:00' }];
+
+  // 20:00-22:00 local (UTC-3)
+  const booking = (overrides: Record<string, unknown> = {}) =>
+    ({
+      id: 'BK_1',
+      tableIds: ['T1'],
+      start: new Date('2025-10-22T23:00:00Z'),
+      end: new Date('2025-10-23T01:00:00Z'),
+      status: BookingStatus.CONFIRMED,
+      completedAt: null,
+      ...overrides,
+    }) as any;
+
+  const findGaps = (bookings: any[], durationMinutes = 60) =>
+    service.findGapsForTable(
+      bookings,
+      [],
+      'T1',
+      'S1',
+      date,
+      durationMinutes,
+      restaurant,
+      serviceWindows,
+    );
+
+  beforeEach(() => {
+    service = new GapDiscoveryService(new BookingLifecycleService());
+  });
+
+  it('should return the whole service window for a free table', () => {
+    expect(findGaps([])).toEqual([
+      {
+        start: new Date('2025-10-22T23:00:00Z'),
+        end: new Date('2025-10-23T02:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should treat confirmed bookings as blocking', () => {
+    expect(findGaps([booking()])).toEqual([
+      {
+        start: new Date('2025-10-23T01:00:00Z'),
+        end: new Date('2025-10-23T02:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should ignore cancelled and no-show bookings', () => {
+    expect(
+      findGaps([
+        booking({ status: BookingStatus.CANCELLED }),
+        booking({ id: 'BK_2', status: BookingStatus.NO_SHOW }),
+      ]),
+    ).toHaveLength(1);
+    expect(findGaps([booking({ status: BookingStatus.CANCELLED })])[0]).toEqual(
+      {
+        start: new Date('2025-10-22T23:00:00Z'),
+        end: new Date('2025-10-23T02:00:00Z'),
+      },
+    );
+  });
+
+  it('should release the remaining interval when a booking completes early', () => {
+    const gaps = findGaps([
+      booking({
+        status: BookingStatus.COMPLETED,
+        completedAt: new Date('2025-10-23T00:00:00Z'), // 21:00 local
+      }),
+    ]);
+
+    expect(gaps).toEqual([
+      {
+        start: new Date('2025-10-23T00:00:00Z'),
+        end: new Date('2025-10-23T02:00:00Z'),
+      },
+    ]);
+  });
+
+  it("should keep the table's buffer free around bookings", () => {
+    const gaps = service.findGapsForTable(
+      [booking()],
+      [],
+      'T1',
+      'S1',
+      date,
+      30,
+      restaurant,
+      serviceWindows,
+      undefined,
+      undefined,
+      new Map([['T1', 15]]),
+    );
+
+    // Booking ends 22:00 local; the table is free again from 22:15
+    expect(gaps).toEqual([
+      {
+        start: new Date('2025-10-23T01:15:00Z'),
+        end: new Date('2025-10-23T02:00:00Z'),
+      },
+    ]);
+  });
+
+  it("should start gaps on the restaurant's slot grid", () => {
+    const gaps = service.findGapsForTable(
+      [booking({ end: new Date('2025-10-23T01:15:00Z') })],
+      [],
+      'T1',
+      'S1',
+      date,
+      30,
+      { ...restaurant, slotMinutes: 30 },
+      serviceWindows,
+    );
+
+    // Booking ends 22:15 local; the next start on a 30-minute grid is 22:30
+    expect(gaps).toEqual([
+      {
+        start: new Date('2025-10-23T01:30:00Z'),
+        end: new Date('2025-10-23T02:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should use date overrides instead of the weekly hours', () => {
+    const gaps = service.findGapsForTable(
+      [],
+      [],
+      'T1',
+      'S1',
+      date,
+      60,
+      restaurant,
+      [...serviceWindows, { start: '18:00', end: '19:00', date: '2025-10-22' }],
+    );
+
+    expect(gaps).toEqual([
+      {
+        start: new Date('2025-10-22T21:00:00Z'),
+        end: new Date('2025-10-22T22:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should return no gaps on a closed day, even for an explicit window', () => {
+    const gaps = service.findGapsForTable(
+      [],
+      [],
+      'T1',
+      'S1',
+      date,
+      60,
+      restaurant,
+      [
+        ...serviceWindows,
+        { start: null, end: null, date: '2025-10-22', closed: true },
+      ],
+      '20:00',
+      '22:00',
+    );
+
+    expect(gaps).toEqual([]);
+  });
+
+  describe('findUnavailabilityReasons', () => {
+    // Sector-wide blackout 22:00-23:00 local
+    const blackout = {
+      tableIds: [],
+      sectorId: 'S1',
+      start: new Date('2025-10-23T01:00:00Z'),
+      end: new Date('2025-10-23T02:00:00Z'),
+    } as any;
+
+    const findReasons = (
+      bookings: any[],
+      blackouts: any[],
+      durationMinutes: number,
+      windows: any[] = serviceWindows,
+    ) =>
+      service.findUnavailabilityReasons(
+        bookings,
+        blackouts,
+        'T1',
+        'S1',
+        date,
+        durationMinutes,
+        restaurant,
+        windows,
+      );
+
+    it('should return no reasons when the table has a gap', () => {
+      expect(findReasons([booking()], [], 60)).toEqual([]);
+    });
+
+    it('should report the bookings and blackouts filling the window', () => {
+      expect(findReasons([booking()], [blackout], 90)).toEqual([
+        'blackout',
+        'overlapping_booking',
+      ]);
+    });
+
+    it('should report the service window when nothing else is in the way', () => {
+      expect(findReasons([], [], 240)).toEqual(['outside_service_window']);
+      expect(
+        findReasons([], [], 60, [
+          { start: null, end: null, date: '2025-10-22', closed: true },
+        ]),
+      ).toEqual(['outside_service_window']);
+    });
+  });
+});
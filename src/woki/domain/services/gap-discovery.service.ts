@@ -1,16 +1,33 @@
 import { Injectable } from '@nestjs/common';
 import { Booking } from '../entities/booking.entity';
 import { Blackout } from '../entities/blackout.entity';
-import { BookingStatus } from '../types/booking-status.enum';
 import { TimeInterval } from '../types/time-interval.type';
 import { Restaurant } from '../entities/restaurant.entity';
-import { zonedTimeToUtc } from 'date-fns-tz';
+import { ServiceWindowRule } from '../types/service-window-rule.type';
+import { TableRejectionReason } from '../types/table-rejection-reason.enum';
+import { resolveServiceWindowsForDate } from '../utils/service-window-schedule.util';
+import {
+  getWindowMinutes,
+  placeWindowMinutes,
+  zonedDayMinutesToUtc,
+} from '../utils/service-day.util';
+import { alignToSlotGrid } from '../utils/slot-grid.util';
+import { BookingLifecycleService } from './booking-lifecycle.service';
 
 @Injectable()
 export class GapDiscoveryService {
+  constructor(
+    private readonly bookingLifecycleService: BookingLifecycleService,
+  ) {}
+
   /**
    * Find gaps in booking schedule for a single table.
    * Returns intervals where the table is free for at least the specified duration.
+   * Gaps start on the restaurant's slot grid (a free stretch starting off the grid
+   * begins at its next grid line).
+   *
+   * @param tableBufferMinutes - Cleanup time per table, kept free before and after each
+   *   of its bookings (tables not in the map have none)
    */
   findGapsForTable(
     bookings: Booking[],
@@ -19,40 +36,19 @@ export class GapDiscoveryService {
     sectorId: string,
     date: Date,
     durationMinutes: number,
-    restaurant: Restaurant,
-    serviceWindows: Array<{ start: string; end: string }>,
+    restaurant: Pick<Restaurant, 'slotMinutes' | 'timezone'>,
+    serviceWindows: ServiceWindowRule[],
     windowStart?: string,
     windowEnd?: string,
+    tableBufferMinutes: Map<string, number> = new Map(),
   ): TimeInterval[] {
-    // Filter confirmed bookings for this table
-    // Note: bookings are already filtered by date in the restaurant's timezone
-    // by the repository query, so we don't need to check isSameDay here
-    const tableBookings = bookings
-      .filter(
-        (b) =>
-          b.tableIds.includes(tableId) && b.status === BookingStatus.CONFIRMED,
-      )
-      .map((b) => ({
-        start: b.start,
-        end: b.end,
-      }));
-
-    // Filter blackouts that affect this table
-    // A blackout affects a table if:
-    // 1. tableIds includes the table, OR
-    // 2. sectorId matches and tableIds is empty (whole sector blackout)
-    const tableBlackouts = blackouts
-      .filter((bl) => {
-        if (bl.tableIds.includes(tableId)) return true;
-        if (bl.sectorId === sectorId && bl.tableIds.length === 0) {
-          return true; // Whole sector blackout
-        }
-        return false;
-      })
-      .map((bl) => ({
-        start: bl.start,
-        end: bl.end,
-      }));
+    const { tableBookings, tableBlackouts } = this.getTableBlockers(
+      bookings,
+      blackouts,
+      tableId,
+      sectorId,
+      tableBufferMinutes,
+    );
 
     // Combine bookings and blackouts, then sort
     const allBlockers = [...tableBookings, ...tableBlackouts].sort(
@@ -80,6 +76,7 @@ export class GapDiscoveryService {
         allBlockers,
         window,
         durationMinutes,
+        restaurant,
       );
       gaps.push(...windowGaps);
     }
@@ -88,6 +85,73 @@ export class GapDiscoveryService {
     return gaps.sort((a, b) => a.start.getTime() - b.start.getTime());
   }
 
+  /**
+   * Why a table has no gap for the requested duration (empty when it has one).
+   * Blackouts and bookings are only reported when they overlap the searched windows;
+   * with nothing in the way, the windows themselves are too short (or the day is closed).
+   */
+  findUnavailabilityReasons(
+    bookings: Booking[],
+    blackouts: Blackout[],
+    tableId: string,
+    sectorId: string,
+    date: Date,
+    durationMinutes: number,
+    restaurant: Pick<Restaurant, 'slotMinutes' | 'timezone'>,
+    serviceWindows: ServiceWindowRule[],
+    windowStart?: string,
+    windowEnd?: string,
+    tableBufferMinutes: Map<string, number> = new Map(),
+  ): TableRejectionReason[] {
+    const gaps = this.findGapsForTable(
+      bookings,
+      blackouts,
+      tableId,
+      sectorId,
+      date,
+      durationMinutes,
+      restaurant,
+      serviceWindows,
+      windowStart,
+      windowEnd,
+      tableBufferMinutes,
+    );
+    if (gaps.length > 0) {
+      return [];
+    }
+
+    const windows = this.getServiceWindowsForDate(
+      restaurant,
+      date,
+      serviceWindows,
+      windowStart,
+      windowEnd,
+    );
+    const { tableBookings, tableBlackouts } = this.getTableBlockers(
+      bookings,
+      blackouts,
+      tableId,
+      sectorId,
+      tableBufferMinutes,
+    );
+    const overlapsWindows = (interval: TimeInterval) =>
+      windows.some(
+        (window) => interval.start < window.end && interval.end > window.start,
+      );
+
+    const reasons: TableRejectionReason[] = [];
+    if (tableBlackouts.some(overlapsWindows)) {
+      reasons.push(TableRejectionReason.BLACKOUT);
+    }
+    if (tableBookings.some(overlapsWindows)) {
+      reasons.push(TableRejectionReason.OVERLAPPING_BOOKING);
+    }
+
+    return reasons.length > 0
+      ? reasons
+      : [TableRejectionReason.OUTSIDE_SERVICE_WINDOW];
+  }
+
   /**
    * Find gaps where multiple tables are simultaneously free.
    * Returns intervals where all tables in the combination are free.
@@ -100,9 +164,10 @@ export class GapDiscoveryService {
     date: Date,
     durationMinutes: number,
     restaurant: Restaurant,
-    serviceWindows: Array<{ start: string; end: string }>,
+    serviceWindows: ServiceWindowRule[],
     windowStart?: string,
     windowEnd?: string,
+    tableBufferMinutes: Map<string, number> = new Map(),
   ): TimeInterval[] {
     if (tableIds.length === 0) {
       return [];
@@ -120,6 +185,7 @@ export class GapDiscoveryService {
         serviceWindows,
         windowStart,
         windowEnd,
+        tableBufferMinutes,
       );
     }
 
@@ -136,6 +202,7 @@ export class GapDiscoveryService {
         serviceWindows,
         windowStart,
         windowEnd,
+        tableBufferMinutes,
       ),
     );
 
@@ -157,6 +224,51 @@ export class GapDiscoveryService {
     );
   }
 
+  private getTableBlockers(
+    bookings: Booking[],
+    blackouts: Blackout[],
+    tableId: string,
+    sectorId: string,
+    tableBufferMinutes: Map<string, number>,
+  ): { tableBookings: TimeInterval[]; tableBlackouts: TimeInterval[] } {
+    // Filter occupying bookings for this table
+    // Note: bookings are already filtered by date in the restaurant's timezone
+    // by the repository query, so we don't need to check isSameDay here
+    // Bookings completed early only block up to their completion time
+    // The table's buffer widens each booking (the stored booking is unchanged)
+    const bufferMs = (tableBufferMinutes.get(tableId) ?? 0) * 60 * 1000;
+    const tableBookings = bookings
+      .filter((b) => b.tableIds.includes(tableId))
+      .map((b) => this.bookingLifecycleService.getOccupiedInterval(b))
+      .filter((interval): interval is TimeInterval => interval !== null)
+      .map((interval) => ({
+        start: new Date(interval.start.getTime() - bufferMs),
+        end: new Date(interval.end.getTime() + bufferMs),
+      }));
+
+    // Filter blackouts that affect this table
+    // A blackout affects a table if:
+    // 1. tableIds includes the table, OR
+    // 2. sectorId matches (or is null) and tableIds is empty (whole sector or restaurant)
+    const tableBlackouts = blackouts
+      .filter((bl) => {
+        if (bl.tableIds.includes(tableId)) return true;
+        if (
+          (bl.sectorId === sectorId || bl.sectorId === null) &&
+          bl.tableIds.length === 0
+        ) {
+          return true; // Whole sector or restaurant-wide blackout
+        }
+        return false;
+      })
+      .map((bl) => ({
+        start: bl.start,
+        end: bl.end,
+      }));
+
+    return { tableBookings, tableBlackouts };
+  }
+
   private isSameDay(date1: Date, date2: Date): boolean {
     // Use UTC methods to avoid timezone issues
     // All dates in the system are stored in UTC
@@ -167,74 +279,52 @@ export class GapDiscoveryService {
     );
   }
 
-  private getServiceWindowsForDate(
-    restaurant: Restaurant,
+  /**
+   * Intervals searched for a day: the day's service windows (or the whole day),
+   * narrowed by the requested window. Empty when the restaurant is closed.
+   */
+  getServiceWindowsForDate(
+    restaurant: Pick<Restaurant, 'slotMinutes' | 'timezone'>,
     date: Date,
-    serviceWindows: Array<{ start: string; end: string }>,
+    serviceWindows: ServiceWindowRule[],
     windowStart?: string,
     windowEnd?: string,
   ): TimeInterval[] {
     const timezone = restaurant.timezone;
-    // Extract year, month, day from the date (using UTC to avoid timezone issues)
-    // The date parameter comes from parseISO which creates a UTC date at midnight
-    const year = date.getUTCFullYear();
-    const month = date.getUTCMonth();
-    const day = date.getUTCDate();
+    // Times are handled as minutes from the service day's local midnight;
+    // windows crossing midnight simply extend past 1440
+    const toUtc = (minutes: number) =>
+      zonedDayMinutesToUtc(date, minutes, timezone);
+
+    // Day-of-week rows and date overrides (null = no schedule, open all day)
+    const dayWindows = resolveServiceWindowsForDate(serviceWindows, date);
+    if (dayWindows && dayWindows.length === 0) {
+      // Closed that day
+      return [];
+    }
+
+    const requested = placeWindowMinutes(windowStart, windowEnd, dayWindows);
 
     // If both windowStart and windowEnd provided, use them
-    if (windowStart && windowEnd) {
-      const start = this.parseTimeInTimezone(
-        year,
-        month,
-        day,
-        windowStart,
-        timezone,
-      );
-      const end = this.parseTimeInTimezone(
-        year,
-        month,
-        day,
-        windowEnd,
-        timezone,
-      );
-      return [{ start, end }];
+    if (requested.start !== undefined && requested.end !== undefined) {
+      return [{ start: toUtc(requested.start), end: toUtc(requested.end) }];
     }
 
     // Get base service windows (or full day if none)
     let baseWindows: TimeInterval[];
-    if (!serviceWindows || serviceWindows.length === 0) {
+    if (!dayWindows) {
       // Full day if no windows specified
-      const start = this.parseTimeInTimezone(
-        year,
-        month,
-        day,
-        '00:00',
-        timezone,
-      );
-      const end = this.parseTimeInTimezone(year, month, day, '24:00', timezone);
-      baseWindows = [{ start, end }];
+      baseWindows = [{ start: toUtc(0), end: toUtc(24 * 60) }];
     } else {
-      baseWindows = serviceWindows.map((window) => ({
-        start: this.parseTimeInTimezone(
-          year,
-          month,
-          day,
-          window.start,
-          timezone,
-        ),
-        end: this.parseTimeInTimezone(year, month, day, window.end, timezone),
-      }));
+      baseWindows = dayWindows.map((window) => {
+        const minutes = getWindowMinutes(window);
+        return { start: toUtc(minutes.start), end: toUtc(minutes.end) };
+      });
     }
 
     // Filter by partial window parameters if provided
-    if (windowStart) {
-      const minStart = this.parseTimeInTimezone(
-        year,
-        month,
-        day,
-        windowStart,
-        timezone,
-      );
+    if (requested.start !== undefined) {
+      const minStart = toUtc(requested.start);
       // Filter to only include windows that start at or after windowStart
       baseWindows = baseWindows
         .filter((window) => window.end > minStart)
@@ -244,14 +334,8 @@ export class GapDiscoveryService {
         }));
     }
 
-    if (windowEnd) {
-      const maxEnd = this.parseTimeInTimezone(
-        year,
-        month,
-        day,
-        windowEnd,
-        timezone,
-      );
+    if (requested.end !== undefined) {
+      const maxEnd = toUtc(requested.end);
       // Filter to only include windows that end at or before windowEnd
       baseWindows = baseWindows
         .filter((window) => window.start < maxEnd)
@@ -264,24 +348,11 @@ export class GapDiscoveryService {
     return baseWindows;
   }
 
-  private parseTimeInTimezone(
-    year: number,
-    month: number,
-    day: number,
-    timeStr: string,
-    timezone: string,
-  ): Date {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    // Create date string in the timezone
-    const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
-    // Parse as if it's in the timezone, then convert to UTC
-    return zonedTimeToUtc(new Date(dateStr), timezone);
-  }
-
   private findGapsInWindow(
     bookings: Array<{ start: Date; end: Date }>,
     window: TimeInterval,
     durationMinutes: number,
+    restaurant: Pick<Restaurant, 'slotMinutes' | 'timezone'>,
   ): TimeInterval[] {
     // 1. Normalize existing CONFIRMED bookings/blackouts to [start, end) and clip to window boundaries
     // Filter bookings/blackouts that overlap with the window, then clip them to the window
@@ -309,7 +380,12 @@ export class GapDiscoveryService {
     // 4. Walk adjacent pairs → gaps (prevEnd, nextStart)
     const gaps: TimeInterval[] = [];
     for (let i = 0; i < allEvents.length - 1; i++) {
-      const prevEnd = allEvents[i].end; // End of previous booking/sentinel
+      // End of previous booking/sentinel, snapped to the slot grid
+      const prevEnd = alignToSlotGrid(
+        allEvents[i].end,
+        restaurant.slotMinutes,
+        restaurant.timezone,
+      );
       const nextStart = allEvents[i + 1].start; // Start of next booking/sentinel
 
       // If there's a gap between prevEnd and nextStart
@@ -0,0 +1,107 @@
+import { PacingService } from './pacing.service';
+import { BookingLifecycleService } from './booking-lifecycle.service';
+import { BookingStatus } from '../types/booking-status.enum';
+import { ComboCandidate } from '../types/combo-candidate.type';
+
+describe('PacingService', () => {
+  let service: PacingService;
+
+  const grid = { slotMinutes: 15, timezone: 'America/Argentina/Buenos_Aires' };
+
+  // Local time (UTC-3) on the service day
+  const at = (time: string) => new Date(`2025-10-22T${time}:00-03:00`);
+  const arrival = (time: string, partySize: number, status = 'CONFIRMED') => ({
+    start: at(time),
+    partySize,
+    status,
+    holdExpiresAt: null,
+  });
+
+  beforeEach(() => {
+    service = new PacingService(new BookingLifecycleService());
+  });
+
+  describe('allowsArrival', () => {
+    const scope = {
+      limit: { maxCovers: 8, maxParties: 2 },
+      bookings: [arrival('21:00', 4), arrival('21:15', 6)],
+    };
+
+    it('should allow arrivals within both limits', () => {
+      expect(service.allowsArrival(at('21:00'), 4, [scope], grid)).toBe(true);
+      expect(service.allowsArrival(at('21:30'), 8, [scope], grid)).toBe(true);
+    });
+
+    it('should reject arrivals exceeding the covers or parties of the slot', () => {
+      expect(service.allowsArrival(at('21:00'), 5, [scope], grid)).toBe(false);
+      expect(
+        service.allowsArrival(
+          at('21:00'),
+          2,
+          [{ ...scope, bookings: [...scope.bookings, arrival('21:00', 2)] }],
+          grid,
+        ),
+      ).toBe(false);
+    });
+
+    it("should count arrivals per 15-minute window whatever the restaurant's grid", () => {
+      // 21:00 and 21:15 are in separate windows (even on a 30-minute grid)
+      expect(service.allowsArrival(at('21:00'), 4, [scope], grid)).toBe(true);
+      // 21:05 (on a 5-minute grid) shares the 21:00 window
+      expect(service.allowsArrival(at('21:05'), 5, [scope], grid)).toBe(false);
+      expect(service.allowsArrival(at('21:05'), 4, [scope], grid)).toBe(true);
+    });
+
+    it('should not count cancelled bookings', () => {
+      const cancelled = {
+        limit: { maxCovers: null, maxParties: 1 },
+        bookings: [arrival('21:00', 2, BookingStatus.CANCELLED)],
+      };
+      expect(service.allowsArrival(at('21:00'), 2, [cancelled], grid)).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('applyPacing', () => {
+    const candidate: ComboCandidate = {
+      tableIds: ['T1'],
+      minCapacity: 2,
+      maxCapacity: 2,
+      interval: { start: at('20:00'), end: at('22:00') },
+      kind: 'single',
+      sectorId: 'S1',
+    };
+
+    it('should split a candidate around full slots', () => {
+      const scope = {
+        limit: { maxCovers: null, maxParties: 1 },
+        bookings: [arrival('20:30', 2)],
+      };
+
+      expect(service.applyPacing([candidate], 60, 2, [scope], grid)).toEqual([
+        {
+          ...candidate,
+          interval: { start: at('20:00'), end: at('21:15') },
+        },
+        {
+          ...candidate,
+          interval: { start: at('20:45'), end: at('22:00') },
+        },
+      ]);
+    });
+
+    it('should drop candidates without any allowed start', () => {
+      const scope = {
+        limit: { maxCovers: 2, maxParties: null },
+        bookings: [arrival('20:00', 2), arrival('20:15', 2)],
+      };
+      const short = {
+        ...candidate,
+        interval: { start: at('20:00'), end: at('21:15') },
+      };
+
+      expect(service.applyPacing([short], 60, 2, [scope], grid)).toEqual([]);
+    });
+  });
+});
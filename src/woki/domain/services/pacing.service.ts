@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { Restaurant } from '../entities/restaurant.entity';
+import { ComboCandidate } from '../types/combo-candidate.type';
+import { PacingScope } from '../types/pacing-limit.type';
+import {
+  BookingStatus,
+  OCCUPYING_BOOKING_STATUSES,
+} from '../types/booking-status.enum';
+import { getSlotIndex } from '../utils/slot-grid.util';
+import { BookingLifecycleService } from './booking-lifecycle.service';
+
+/**
+ * The restaurant's slot grid (slots are counted on its local clock).
+ */
+type SlotGrid = Pick<Restaurant, 'slotMinutes' | 'timezone'>;
+
+/**
+ * Length of the windows pacing limits count arrivals in, whatever the restaurant's
+ * slot grid. Windows sit on the local clock (20:00, 20:15, ...).
+ */
+export const PACING_WINDOW_MINUTES = 15;
+
+@Injectable()
+export class PacingService {
+  constructor(
+    private readonly bookingLifecycleService: BookingLifecycleService,
+  ) {}
+
+  /**
+   * Index of the pacing window an arrival falls in; equal indexes are counted together.
+   */
+  getPacingWindow(start: Date, timezone: string): number {
+    return getSlotIndex(start, PACING_WINDOW_MINUTES, timezone);
+  }
+
+  /**
+   * Whether a party may start at `start` without exceeding any scope's limit
+   * for its pacing window. Cancelled, no-show and expired bookings are not counted.
+   */
+  allowsArrival(
+    start: Date,
+    partySize: number,
+    scopes: PacingScope[],
+    restaurant: Pick<Restaurant, 'timezone'>,
+    now: Date = new Date(),
+  ): boolean {
+    const window = this.getPacingWindow(start, restaurant.timezone);
+
+    return scopes.every(({ limit, bookings }) => {
+      const arrivals = bookings.filter(
+        (b) =>
+          this.getPacingWindow(b.start, restaurant.timezone) === window &&
+          OCCUPYING_BOOKING_STATUSES.includes(b.status as BookingStatus) &&
+          !(
+            b.status === BookingStatus.HELD &&
+            this.bookingLifecycleService.isHoldExpired(b, now)
+          ),
+      );
+      const covers = arrivals.reduce((sum, b) => sum + b.partySize, 0);
+
+      return (
+        (limit.maxParties === null ||
+          arrivals.length + 1 <= limit.maxParties) &&
+        (limit.maxCovers === null || covers + partySize <= limit.maxCovers)
+      );
+    });
+  }
+
+  /**
+   * Restrict candidates to the start times pacing allows.
+   *
+   * Each candidate's starts are walked on the slot grid; every run of allowed
+   * starts becomes a candidate whose interval only admits those starts
+   * (it ends `durationMinutes` after the run's last start, or at the gap end).
+   * Candidates without any allowed start are dropped.
+   */
+  applyPacing(
+    candidates: ComboCandidate[],
+    durationMinutes: number,
+    partySize: number,
+    scopes: PacingScope[],
+    grid: SlotGrid,
+  ): ComboCandidate[] {
+    if (scopes.length === 0) {
+      return candidates;
+    }
+
+    const slotMs = grid.slotMinutes * 60 * 1000;
+    const durationMs = durationMinutes * 60 * 1000;
+    const now = new Date();
+
+    return candidates.flatMap((candidate) => {
+      const gapEnd = candidate.interval.end.getTime();
+      const lastStart = gapEnd - durationMs;
+      const runs: ComboCandidate[] = [];
+      let runStart: number | null = null;
+
+      for (
+        let start = candidate.interval.start.getTime();
+        start <= lastStart + slotMs;
+        start += slotMs
+      ) {
+        const allowed =
+          start <= lastStart &&
+          this.allowsArrival(new Date(start), partySize, scopes, grid, now);
+
+        if (allowed && runStart === null) {
+          runStart = start;
+        } else if (!allowed && runStart !== null) {
+          // A run cut short by pacing ends one duration after its last start
+          const runEnd =
+            start > lastStart ? gapEnd : start - slotMs + durationMs;
+          runs.push({
+            ...candidate,
+            interval: { start: new Date(runStart), end: new Date(runEnd) },
+          });
+          runStart = null;
+        }
+      }
+
+      return runs;
+    });
+  }
+}
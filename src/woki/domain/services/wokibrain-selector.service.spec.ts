@@ -0,0 +1,228 @@
+import { ConfigService } from '@nestjs/config';
+import { WokiBrainSelectorService } from './wokibrain-selector.service';
+import { ComboCandidate } from '../types/combo-candidate.type';
+import { SelectionStrategyName } from '../types/selection-strategy.type';
+import { TableAttribute } from '../types/table-attribute.enum';
+
+describe('WokiBrainSelectorService', () => {
+  const config: Record<string, unknown> = {
+    'woki.selectionStrategy': SelectionStrategyName.DEFAULT,
+    'woki.selectionWeights': {
+      emptySeats: 1,
+      startDelay: 1,
+      tableCount: 2,
+      largestTable: 0,
+    },
+  };
+  const service = new WokiBrainSelectorService({
+    getOrThrow: (key: string) => config[key],
+  } as unknown as ConfigService);
+
+  const at = (time: string) => new Date(`2025-10-22T${time}:00-03:00`);
+  const candidate = (
+    tableIds: string[],
+    maxCapacity: number,
+    start: string,
+  ): ComboCandidate => ({
+    tableIds,
+    minCapacity: 2,
+    maxCapacity,
+    interval: { start: at(start), end: at('23:00') },
+    kind: tableIds.length === 1 ? 'single' : 'combo',
+    sectorId: 'S1',
+  });
+
+  const tables = [
+    { id: 'T1', maxSize: 2 },
+    { id: 'T2', maxSize: 4 },
+    { id: 'T4', maxSize: 6 },
+  ];
+  const bigSingleLater = candidate(['T4'], 6, '21:00');
+  const snugComboEarly = candidate(['T1', 'T2'], 6, '20:00');
+  const looseSingleEarly = candidate(['T2'], 4, '20:00');
+
+  const select = (
+    candidates: ComboCandidate[],
+    strategy?: SelectionStrategyName,
+    partySize = 4,
+  ) => service.selectBestCandidate(candidates, { strategy, partySize, tables });
+
+  it('should prefer singles, then earliest start by default', () => {
+    expect(select([snugComboEarly, bigSingleLater])).toBe(bigSingleLater);
+  });
+
+  it('should minimize empty seats with best-fit', () => {
+    expect(
+      select(
+        [bigSingleLater, looseSingleEarly],
+        SelectionStrategyName.BEST_FIT,
+      ),
+    ).toBe(looseSingleEarly);
+  });
+
+  it('should pick the earliest slot, then fewest tables, with earliest-slot', () => {
+    expect(
+      select(
+        [bigSingleLater, snugComboEarly, looseSingleEarly],
+        SelectionStrategyName.EARLIEST_SLOT,
+      ),
+    ).toBe(looseSingleEarly);
+    expect(
+      select(
+        [bigSingleLater, snugComboEarly],
+        SelectionStrategyName.EARLIEST_SLOT,
+      ),
+    ).toBe(snugComboEarly);
+  });
+
+  it('should keep large tables free with preserve-large-tables', () => {
+    expect(
+      select(
+        [bigSingleLater, snugComboEarly],
+        SelectionStrategyName.PRESERVE_LARGE_TABLES,
+        5,
+      ),
+    ).toBe(snugComboEarly);
+  });
+
+  it('should score candidates with the configured weights', () => {
+    // Combo: 1 empty seat + 2 (extra table) = 3; later single: 1 empty + 4 slots late = 5
+    expect(
+      select(
+        [bigSingleLater, snugComboEarly],
+        SelectionStrategyName.WEIGHTED,
+        5,
+      ),
+    ).toBe(snugComboEarly);
+
+    config['woki.selectionWeights'] = {
+      emptySeats: 1,
+      startDelay: 0,
+      tableCount: 2,
+      largestTable: 0,
+    };
+    expect(
+      select(
+        [bigSingleLater, snugComboEarly],
+        SelectionStrategyName.WEIGHTED,
+        5,
+      ),
+    ).toBe(bigSingleLater);
+  });
+
+  it('should use the configured default strategy when none is requested', () => {
+    config['woki.selectionStrategy'] = SelectionStrategyName.FEWEST_TABLES;
+    expect(service.selectBestCandidate([snugComboEarly, bigSingleLater])).toBe(
+      bigSingleLater,
+    );
+    expect(service.selectBestCandidate([])).toBeNull();
+  });
+
+  it('should rank preferred sectors first, then by strategy', () => {
+    const terrace = { ...bigSingleLater, tableIds: ['T6'], sectorId: 'S2' };
+    const options = {
+      strategy: SelectionStrategyName.DEFAULT,
+      partySize: 4,
+      tables,
+    };
+
+    expect(
+      service.selectBestCandidate([terrace, looseSingleEarly], options),
+    ).toBe(looseSingleEarly);
+    expect(
+      service.rankCandidates([looseSingleEarly, snugComboEarly, terrace], {
+        ...options,
+        sectorPreference: ['S2'],
+      }),
+    ).toEqual([terrace, looseSingleEarly, snugComboEarly]);
+  });
+
+  it('should rank by distance from the preferred start, then by table ID', () => {
+    const early = candidate(['T1'], 2, '19:00');
+    const nearLarge = candidate(['T4'], 6, '20:30');
+    const near = candidate(['T2'], 4, '20:30');
+
+    expect(
+      service.rankCandidates([early, nearLarge, near], {
+        strategy: SelectionStrategyName.EARLIEST_SLOT,
+        partySize: 2,
+        tables,
+        preferredStart: at('20:30'),
+      }),
+    ).toEqual([near, nearLarge, early]);
+  });
+
+  it('should rank candidates matching more preferred attributes first', () => {
+    const attributedTables = [
+      { id: 'T1', maxSize: 2, attributes: [TableAttribute.WINDOW] },
+      {
+        id: 'T2',
+        maxSize: 4,
+        attributes: [TableAttribute.WINDOW, TableAttribute.QUIET],
+      },
+      { id: 'T4', maxSize: 6, attributes: [TableAttribute.QUIET] },
+    ];
+
+    expect(
+      service.rankCandidates(
+        [looseSingleEarly, snugComboEarly, bigSingleLater],
+        {
+          strategy: SelectionStrategyName.DEFAULT,
+          partySize: 4,
+          tables: attributedTables,
+          preferredAttributes: [TableAttribute.WINDOW, TableAttribute.QUIET],
+        },
+      ),
+    ).toEqual([looseSingleEarly, bigSingleLater, snugComboEarly]);
+    // A combo only matches attributes all of its tables have
+    expect(
+      service.rankCandidates([bigSingleLater, snugComboEarly], {
+        strategy: SelectionStrategyName.DEFAULT,
+        partySize: 4,
+        tables: attributedTables,
+        preferredAttributes: [TableAttribute.WINDOW],
+      }),
+    ).toEqual([snugComboEarly, bigSingleLater]);
+  });
+
+  it('should explain the ranking with the scores of each candidate', () => {
+    config['woki.selectionWeights'] = {
+      emptySeats: 1,
+      startDelay: 0.5,
+      tableCount: 2,
+      largestTable: 0,
+    };
+    const { strategy, ranked } = service.explainRanking(
+      [bigSingleLater, snugComboEarly],
+      { strategy: SelectionStrategyName.BEST_FIT, partySize: 5, tables },
+    );
+
+    expect(strategy).toBe(SelectionStrategyName.BEST_FIT);
+    expect(ranked.map((entry) => entry.candidate)).toEqual([
+      snugComboEarly,
+      bigSingleLater,
+    ]);
+    expect(ranked[1].scores).toEqual({
+      emptySeats: 1,
+      startDelaySlots: 4,
+      tableCount: 1,
+      largestTable: 6,
+      weighted: 3,
+    });
+  });
+
+  it("should count start delays in slots of the restaurant's grid", () => {
+    const { ranked } = service.explainRanking(
+      [bigSingleLater, snugComboEarly],
+      {
+        strategy: SelectionStrategyName.EARLIEST_SLOT,
+        partySize: 5,
+        tables,
+        slotMinutes: 30,
+      },
+    );
+
+    expect(ranked[1].candidate).toBe(bigSingleLater);
+    expect(ranked[1].scores.startDelaySlots).toBe(2);
+  });
+});
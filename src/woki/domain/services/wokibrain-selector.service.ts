@@ -1,54 +1,171 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ComboCandidate } from '../types/combo-candidate.type';
+import {
+  CandidateScores,
+  SelectionContext,
+  SelectionStrategy,
+  SelectionStrategyName,
+} from '../types/selection-strategy.type';
+import {
+  SELECTION_STRATEGIES,
+  byStart,
+  scoreCandidate,
+} from '../strategies/selection.strategies';
+import { TableAttribute } from '../types/table-attribute.enum';
+import { countSharedAttributes } from '../utils/table-attributes.util';
+import { AllConfigType } from '../../../config/config.type';
+
+// Restaurants' default slot granularity
+const DEFAULT_SLOT_MINUTES = 15;
+
+export interface SelectionOptions {
+  /** Strategy to use; falls back to the configured default (`WOKI_SELECTION_STRATEGY`) */
+  strategy?: SelectionStrategyName | null;
+  partySize?: number;
+  /** Tables of the searched sectors (needed by strategies that look at table sizes) */
+  tables?: Array<{
+    id: string;
+    maxSize: number;
+    attributes?: TableAttribute[] | null;
+  }>;
+  /** Sector IDs, most preferred first; unlisted sectors come after listed ones */
+  sectorPreference?: string[] | null;
+  /** Rank starts by distance from this instant instead of earliest first */
+  preferredStart?: Date | null;
+  /** Candidates whose tables share more of these attributes come first */
+  preferredAttributes?: TableAttribute[];
+  /** Restaurant's slot granularity, the unit start delays are scored in (default 15) */
+  slotMinutes?: number;
+}
 
 @Injectable()
 export class WokiBrainSelectorService {
+  constructor(private readonly configService: ConfigService<AllConfigType>) {}
+
   /**
    * Deterministic selection strategy for choosing among valid candidates.
    *
-   * Selection criteria (in order of priority):
-   * 1. Prefer single tables over combos
-   * 2. Among singles: prefer earlier slots
-   * 3. Among combos: prefer fewer tables, then earlier slots
+   * Candidates matching more preferred attributes come first, then candidates in
+   * preferred sectors (when a sector preference is given).
+   * Then the strategy (default, best-fit, earliest-slot, fewest-tables,
+   * preserve-large-tables or weighted) decides the order; remaining ties are
+   * broken by earliest start (or closest to the preferred start), then by table IDs.
+   * With a preferred start, strategies compare distance from it wherever they
+   * would compare start times.
    *
    * This ensures deterministic results: same input → same output.
    */
-  selectBestCandidate(candidates: ComboCandidate[]): ComboCandidate | null {
+  selectBestCandidate(
+    candidates: ComboCandidate[],
+    options: SelectionOptions = {},
+  ): ComboCandidate | null {
+    return this.rankCandidates(candidates, options)[0] ?? null;
+  }
+
+  /**
+   * Order candidates from best to worst according to the strategy.
+   */
+  rankCandidates(
+    candidates: ComboCandidate[],
+    options: SelectionOptions = {},
+  ): ComboCandidate[] {
     if (candidates.length === 0) {
-      return null;
+      return [];
     }
 
-    // Separate singles and combos
-    const singles = candidates.filter((c) => c.kind === 'single');
-    const combos = candidates.filter((c) => c.kind === 'combo');
-
-    // Prefer singles over combos
-    if (singles.length > 0) {
-      // Sort singles to ensure deterministic selection
-      // (even though candidates are pre-sorted, we sort here for safety)
-      const sorted = singles.sort((a, b) => {
-        const timeDiff =
-          a.interval.start.getTime() - b.interval.start.getTime();
-        if (timeDiff !== 0) return timeDiff;
-        // Break ties by table ID (alphabetically) for deterministic selection
-        return a.tableIds[0].localeCompare(b.tableIds[0]);
-      });
-      return sorted[0];
-    }
+    const strategy = this.resolveStrategy(options.strategy);
+    const context = this.buildContext(candidates, options);
+
+    const preferredAttributes = options.preferredAttributes ?? [];
+    const tableAttributes = new Map(
+      (options.tables ?? []).map((table) => [table.id, table.attributes]),
+    );
+    const attributeMatches = (candidate: ComboCandidate) =>
+      countSharedAttributes(
+        candidate.tableIds,
+        preferredAttributes,
+        tableAttributes,
+      );
+
+    const preference = options.sectorPreference ?? [];
+    const sectorRank = (candidate: ComboCandidate) => {
+      const index = preference.indexOf(candidate.sectorId);
+      return index === -1 ? preference.length : index;
+    };
 
-    // Among combos, prefer fewer tables, then earlier slots
-    if (combos.length > 0) {
-      return combos.sort((a, b) => {
-        // First by number of tables (fewer is better)
-        const tableCountDiff = a.tableIds.length - b.tableIds.length;
-        if (tableCountDiff !== 0) {
-          return tableCountDiff;
-        }
-        // Then by start time (earlier is better)
-        return a.interval.start.getTime() - b.interval.start.getTime();
-      })[0];
+    return [...candidates].sort(
+      (a, b) =>
+        attributeMatches(b) - attributeMatches(a) ||
+        sectorRank(a) - sectorRank(b) ||
+        strategy.compare(a, b, context) ||
+        byStart(a, b, context) ||
+        this.tableKey(a).localeCompare(this.tableKey(b)),
+    );
+  }
+
+  /**
+   * Rank candidates and expose the factors behind the order (for explain mode).
+   */
+  explainRanking(
+    candidates: ComboCandidate[],
+    options: SelectionOptions = {},
+  ): {
+    strategy: SelectionStrategyName;
+    ranked: Array<{ candidate: ComboCandidate; scores: CandidateScores }>;
+  } {
+    const strategy = this.resolveStrategy(options.strategy);
+    if (candidates.length === 0) {
+      return { strategy: strategy.name, ranked: [] };
     }
 
-    return null;
+    const context = this.buildContext(candidates, options);
+    return {
+      strategy: strategy.name,
+      ranked: this.rankCandidates(candidates, {
+        ...options,
+        strategy: strategy.name,
+      }).map((candidate) => ({
+        candidate,
+        scores: scoreCandidate(candidate, context),
+      })),
+    };
+  }
+
+  private buildContext(
+    candidates: ComboCandidate[],
+    options: SelectionOptions,
+  ): SelectionContext {
+    return {
+      partySize:
+        options.partySize ?? Math.min(...candidates.map((c) => c.minCapacity)),
+      earliestStart: new Date(
+        Math.min(...candidates.map((c) => c.interval.start.getTime())),
+      ),
+      preferredStart: options.preferredStart ?? null,
+      tableSizes: new Map(
+        (options.tables ?? []).map((table) => [table.id, table.maxSize]),
+      ),
+      slotMinutes: options.slotMinutes ?? DEFAULT_SLOT_MINUTES,
+      weights: this.configService.getOrThrow('woki.selectionWeights', {
+        infer: true,
+      }),
+    };
+  }
+
+  private tableKey(candidate: ComboCandidate): string {
+    return [...candidate.tableIds].sort().join('+');
+  }
+
+  private resolveStrategy(
+    name: SelectionStrategyName | null | undefined,
+  ): SelectionStrategy {
+    const strategyName: SelectionStrategyName =
+      name ??
+      this.configService.getOrThrow('woki.selectionStrategy', { infer: true });
+    return (
+      SELECTION_STRATEGIES[strategyName] ??
+      SELECTION_STRATEGIES[SelectionStrategyName.DEFAULT]
+    );
   }
 }
@@ -0,0 +1,185 @@
+import { ComboCandidate } from '../types/combo-candidate.type';
+import {
+  CandidateScores,
+  SelectionContext,
+  SelectionStrategy,
+  SelectionStrategyName,
+} from '../types/selection-strategy.type';
+
+// Distance from the preferred start (or delay after the earliest start), in ms
+const startDelay = (c: ComboCandidate, context: SelectionContext): number =>
+  context.preferredStart
+    ? Math.abs(c.interval.start.getTime() - context.preferredStart.getTime())
+    : c.interval.start.getTime() - context.earliestStart.getTime();
+
+/**
+ * Earliest start, or closest to the preferred start (earlier wins at equal distance).
+ */
+export const byStart = (
+  a: ComboCandidate,
+  b: ComboCandidate,
+  context: SelectionContext,
+): number =>
+  startDelay(a, context) - startDelay(b, context) ||
+  a.interval.start.getTime() - b.interval.start.getTime();
+
+const byTableCount = (a: ComboCandidate, b: ComboCandidate): number =>
+  a.tableIds.length - b.tableIds.length;
+
+const emptySeats = (c: ComboCandidate, context: SelectionContext): number =>
+  c.maxCapacity - context.partySize;
+
+const largestTable = (c: ComboCandidate, context: SelectionContext): number =>
+  Math.max(...c.tableIds.map((id) => context.tableSizes.get(id) ?? 0));
+
+/**
+ * Original WokiBrain behavior: singles before combos; singles by earliest start,
+ * combos by fewest tables, then earliest start.
+ * "Earliest start" means closest to the preferred start when one is given, here and
+ * in every strategy below.
+ */
+export class DefaultSelectionStrategy implements SelectionStrategy {
+  readonly name = SelectionStrategyName.DEFAULT;
+
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number {
+    if (a.kind !== b.kind) {
+      return a.kind === 'single' ? -1 : 1;
+    }
+    if (a.kind === 'combo') {
+      return byTableCount(a, b) || byStart(a, b, context);
+    }
+    // Break ties by table ID (alphabetically) for deterministic selection
+    return byStart(a, b, context) || a.tableIds[0].localeCompare(b.tableIds[0]);
+  }
+}
+
+/**
+ * Fewest empty seats (maxCapacity closest to the party size), then earliest start.
+ */
+export class BestFitSelectionStrategy implements SelectionStrategy {
+  readonly name = SelectionStrategyName.BEST_FIT;
+
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number {
+    return (
+      emptySeats(a, context) - emptySeats(b, context) ||
+      byStart(a, b, context) ||
+      byTableCount(a, b)
+    );
+  }
+}
+
+/**
+ * Earliest start, then fewest tables.
+ */
+export class EarliestSlotSelectionStrategy implements SelectionStrategy {
+  readonly name = SelectionStrategyName.EARLIEST_SLOT;
+
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number {
+    return byStart(a, b, context) || byTableCount(a, b);
+  }
+}
+
+/**
+ * Fewest tables (less furniture to move), then earliest start.
+ */
+export class FewestTablesSelectionStrategy implements SelectionStrategy {
+  readonly name = SelectionStrategyName.FEWEST_TABLES;
+
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number {
+    return byTableCount(a, b) || byStart(a, b, context);
+  }
+}
+
+/**
+ * Keep big tables free for big parties: smallest "biggest table" first,
+ * then fewest empty seats, then earliest start.
+ */
+export class PreserveLargeTablesSelectionStrategy implements SelectionStrategy {
+  readonly name = SelectionStrategyName.PRESERVE_LARGE_TABLES;
+
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number {
+    return (
+      largestTable(a, context) - largestTable(b, context) ||
+      emptySeats(a, context) - emptySeats(b, context) ||
+      byStart(a, b, context)
+    );
+  }
+}
+
+/**
+ * Weighted sum of penalties (see SelectionWeights); lowest score wins.
+ */
+export class WeightedSelectionStrategy implements SelectionStrategy {
+  readonly name = SelectionStrategyName.WEIGHTED;
+
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number {
+    return this.score(a, context) - this.score(b, context);
+  }
+
+  score(candidate: ComboCandidate, context: SelectionContext): number {
+    return scoreCandidate(candidate, context).weighted;
+  }
+}
+
+/**
+ * Raw ranking factors of a candidate and its weighted score.
+ */
+export function scoreCandidate(
+  candidate: ComboCandidate,
+  context: SelectionContext,
+): CandidateScores {
+  const { weights } = context;
+  const scores = {
+    emptySeats: emptySeats(candidate, context),
+    startDelaySlots:
+      startDelay(candidate, context) / (context.slotMinutes * 60 * 1000),
+    tableCount: candidate.tableIds.length,
+    largestTable: largestTable(candidate, context),
+  };
+
+  return {
+    ...scores,
+    weighted:
+      weights.emptySeats * scores.emptySeats +
+      weights.startDelay * scores.startDelaySlots +
+      weights.tableCount * (scores.tableCount - 1) +
+      weights.largestTable * scores.largestTable,
+  };
+}
+
+export const SELECTION_STRATEGIES: Record<
+  SelectionStrategyName,
+  SelectionStrategy
+> = {
+  [SelectionStrategyName.DEFAULT]: new DefaultSelectionStrategy(),
+  [SelectionStrategyName.BEST_FIT]: new BestFitSelectionStrategy(),
+  [SelectionStrategyName.EARLIEST_SLOT]: new EarliestSlotSelectionStrategy(),
+  [SelectionStrategyName.FEWEST_TABLES]: new FewestTablesSelectionStrategy(),
+  [SelectionStrategyName.PRESERVE_LARGE_TABLES]:
+    new PreserveLargeTablesSelectionStrategy(),
+  [SelectionStrategyName.WEIGHTED]: new WeightedSelectionStrategy(),
+};
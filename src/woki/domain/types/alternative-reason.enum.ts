@@ -0,0 +1,9 @@
+/**
+ * How an alternative suggested after a `no_capacity` conflict differs from the request.
+ */
+export enum AlternativeReason {
+  EARLIER = 'earlier', // Same party and duration, closest start before the window
+  LATER = 'later', // Same party and duration, closest start after the window
+  SHORTER_DURATION = 'shorter_duration', // Longest shorter duration that fits the window
+  OTHER_SECTOR = 'other_sector', // Same window in a sector that was not requested
+}
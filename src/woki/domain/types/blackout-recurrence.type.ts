@@ -0,0 +1,19 @@
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly', // Same day of the month as the first occurrence
+}
+
+/**
+ * RRULE-style schedule of a recurring blackout. The blackout's own start and end are
+ * the first occurrence; later ones repeat its wall-clock times.
+ */
+export type BlackoutRecurrence = {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days, weeks or months
+  byWeekday: number[] | null; // Weekly only: 0 = Sunday ... 6 = Saturday (null = first occurrence's)
+  until: string | null; // YYYY-MM-DD, last day an occurrence may start (inclusive)
+  count: number | null; // Occurrences in the series, exceptions included
+  exceptions: string[]; // YYYY-MM-DD days whose occurrence is skipped
+  timezone: string; // Restaurant timezone the wall-clock times repeat in
+};
@@ -1,4 +1,23 @@
 export enum BookingStatus {
+  HELD = 'HELD', // tentative, blocks capacity until holdExpiresAt
   CONFIRMED = 'CONFIRMED',
+  ARRIVED = 'ARRIVED',
+  SEATED = 'SEATED',
+  COMPLETED = 'COMPLETED',
+  NO_SHOW = 'NO_SHOW',
   CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED', // hold that was never confirmed
 }
+
+/**
+ * Statuses whose bookings hold (part of) their table interval.
+ * COMPLETED is included because the interval up to completion stays occupied.
+ * HELD is included, but an expired hold no longer occupies anything.
+ */
+export const OCCUPYING_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.HELD,
+  BookingStatus.CONFIRMED,
+  BookingStatus.ARRIVED,
+  BookingStatus.SEATED,
+  BookingStatus.COMPLETED,
+];
@@ -6,4 +6,5 @@ export interface ComboCandidate {
   maxCapacity: number;
   interval: TimeInterval;
   kind: 'single' | 'combo';
+  sectorId: string;
 }
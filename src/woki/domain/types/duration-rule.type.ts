@@ -0,0 +1,10 @@
+/**
+ * Restaurant turn-time policy: default duration for a party size range,
+ * optionally limited to one service window (e.g. lunch vs dinner).
+ */
+export type DurationRule = {
+  minPartySize: number;
+  maxPartySize: number | null; // null = no upper bound
+  serviceWindowId: string | null; // null = every service window
+  durationMinutes: number;
+};
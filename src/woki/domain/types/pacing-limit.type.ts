@@ -0,0 +1,20 @@
+/**
+ * Most new arrivals allowed per 15-minute pacing window (null = no limit).
+ */
+export type PacingLimit = {
+  maxCovers: number | null; // Sum of party sizes starting in the window
+  maxParties: number | null; // Bookings starting in the window
+};
+
+/**
+ * A pacing limit with the bookings it counts (the whole restaurant or one sector).
+ */
+export type PacingScope = {
+  limit: PacingLimit;
+  bookings: Array<{
+    start: Date;
+    partySize: number;
+    status: string;
+    holdExpiresAt?: Date | null;
+  }>;
+};
@@ -0,0 +1,53 @@
+import { ComboCandidate } from './combo-candidate.type';
+
+export enum SelectionStrategyName {
+  DEFAULT = 'default', // Singles before combos, then earliest start
+  BEST_FIT = 'best-fit',
+  EARLIEST_SLOT = 'earliest-slot',
+  FEWEST_TABLES = 'fewest-tables',
+  PRESERVE_LARGE_TABLES = 'preserve-large-tables',
+  WEIGHTED = 'weighted',
+}
+
+/**
+ * Weights for the `weighted` strategy. Each factor is a penalty: lower total scores win.
+ */
+export interface SelectionWeights {
+  emptySeats: number; // Per seat left empty (maxCapacity - partySize)
+  startDelay: number; // Per slot of the restaurant's grid after the earliest candidate (or away from the preferred start)
+  tableCount: number; // Per table beyond the first
+  largestTable: number; // Per seat of the candidate's biggest table
+}
+
+export interface SelectionContext {
+  partySize: number;
+  earliestStart: Date; // Earliest start among all candidates
+  preferredStart: Date | null; // Starts closest to it win over earlier ones (null = earliest wins)
+  tableSizes: Map<string, number>; // Table ID -> maxSize
+  slotMinutes: number; // Restaurant's slot granularity, the unit of start delays
+  weights: SelectionWeights;
+}
+
+/**
+ * Factors the strategies rank on, plus the `weighted` total (exposed by explain mode).
+ */
+export interface CandidateScores {
+  emptySeats: number;
+  startDelaySlots: number; // Slots of the restaurant's grid after the earliest candidate (or from the preferred start)
+  tableCount: number;
+  largestTable: number; // Seats of the candidate's biggest table
+  weighted: number;
+}
+
+export interface SelectionStrategy {
+  readonly name: SelectionStrategyName;
+  /**
+   * Negative when `a` should be preferred over `b`, like Array.prototype.sort.
+   * Remaining ties are broken by the selector (start time, then table IDs).
+   */
+  compare(
+    a: ComboCandidate,
+    b: ComboCandidate,
+    context: SelectionContext,
+  ): number;
+}
@@ -0,0 +1,12 @@
+/**
+ * A service window row as consumed by discovery and validation.
+ * Rows without `dayOfWeek`/`date` apply every day; `date` rows override the weekly schedule.
+ */
+export type ServiceWindowRule = {
+  id?: string; // Service window row, when the rule comes from one
+  start: string | null; // HH:mm format (null for closed overrides)
+  end: string | null; // HH:mm format (null for closed overrides)
+  dayOfWeek?: number | null; // 0 = Sunday ... 6 = Saturday
+  date?: string | null; // YYYY-MM-DD override
+  closed?: boolean; // date override: closed all day
+};
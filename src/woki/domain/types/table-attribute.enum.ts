@@ -0,0 +1,11 @@
+/**
+ * Seating features of a table that guests can require or prefer.
+ */
+export enum TableAttribute {
+  OUTDOOR = 'outdoor',
+  WINDOW = 'window',
+  BOOTH = 'booth',
+  HIGH_TOP = 'high-top',
+  WHEELCHAIR_ACCESSIBLE = 'wheelchair-accessible',
+  QUIET = 'quiet',
+}
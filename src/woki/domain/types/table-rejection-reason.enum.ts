@@ -0,0 +1,10 @@
+/**
+ * Why a table ended up in no candidate (reported by explain mode).
+ */
+export enum TableRejectionReason {
+  CAPACITY = 'capacity', // Cannot seat the party on its own
+  MISSING_ATTRIBUTES = 'missing_attributes', // Lacks a required attribute
+  BLACKOUT = 'blackout',
+  OVERLAPPING_BOOKING = 'overlapping_booking',
+  OUTSIDE_SERVICE_WINDOW = 'outside_service_window', // Closed, or no window long enough for the duration
+}
@@ -0,0 +1,6 @@
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  OFFERED = 'OFFERED', // a HELD booking is waiting for the guest to accept
+  ACCEPTED = 'ACCEPTED',
+  EXPIRED = 'EXPIRED',
+}
@@ -0,0 +1,118 @@
+import {
+  BlackoutRecurrence,
+  RecurrenceFrequency,
+} from '../types/blackout-recurrence.type';
+import { expandBlackout, getOccurrenceDate } from './blackout-recurrence.util';
+
+describe('blackout recurrence utils', () => {
+  const timezone = 'America/Argentina/Buenos_Aires';
+  const at = (dateTime: string) => new Date(`${dateTime}:00-03:00`);
+
+  // Monday 2025-10-20, 15:00-17:00
+  const series = (recurrence: Partial<BlackoutRecurrence>) => ({
+    id: 'BLK_1',
+    start: at('2025-10-20T15:00'),
+    end: at('2025-10-20T17:00'),
+    recurrence: {
+      frequency: RecurrenceFrequency.WEEKLY,
+      interval: 1,
+      byWeekday: null,
+      until: null,
+      count: null,
+      exceptions: [],
+      timezone,
+      ...recurrence,
+    },
+  });
+  const starts = (
+    blackout: ReturnType<typeof series>,
+    from: string,
+    to: string,
+  ) =>
+    expandBlackout(blackout, {
+      start: at(`${from}T00:00`),
+      end: at(`${to}T00:00`),
+    }).map((occurrence) => getOccurrenceDate(occurrence, timezone));
+
+  describe('expandBlackout', () => {
+    it('should return one-off blackouts only when they overlap', () => {
+      const oneOff = { ...series({}), recurrence: null };
+      expect(
+        expandBlackout(oneOff, {
+          start: at('2025-10-20T16:00'),
+          end: at('2025-10-20T18:00'),
+        }),
+      ).toEqual([oneOff]);
+      expect(
+        expandBlackout(oneOff, {
+          start: at('2025-10-20T17:00'),
+          end: at('2025-10-20T18:00'),
+        }),
+      ).toEqual([]);
+    });
+
+    it('should repeat weekly on the first occurrence weekday, keeping the times', () => {
+      const [occurrence] = expandBlackout(series({}), {
+        start: at('2025-11-03T00:00'),
+        end: at('2025-11-04T00:00'),
+      });
+      expect(occurrence).toMatchObject({
+        id: 'BLK_1',
+        start: at('2025-11-03T15:00'),
+        end: at('2025-11-03T17:00'),
+      });
+      expect(starts(series({}), '2025-10-01', '2025-11-01')).toEqual([
+        '2025-10-20',
+        '2025-10-27',
+      ]);
+    });
+
+    it('should support weekdays, intervals and exception dates', () => {
+      expect(
+        starts(
+          series({
+            byWeekday: [1, 3],
+            interval: 2,
+            exceptions: ['2025-11-03'],
+          }),
+          '2025-10-20',
+          '2025-11-10',
+        ),
+      ).toEqual(['2025-10-20', '2025-10-22', '2025-11-05']);
+    });
+
+    it('should stop after the until date or the occurrence count', () => {
+      expect(
+        starts(
+          series({ frequency: RecurrenceFrequency.DAILY, until: '2025-10-22' }),
+          '2025-10-01',
+          '2025-11-01',
+        ),
+      ).toEqual(['2025-10-20', '2025-10-21', '2025-10-22']);
+      // Skipped occurrences still count towards the total
+      expect(
+        starts(
+          series({
+            frequency: RecurrenceFrequency.DAILY,
+            count: 3,
+            exceptions: ['2025-10-21'],
+          }),
+          '2025-10-01',
+          '2025-11-01',
+        ),
+      ).toEqual(['2025-10-20', '2025-10-22']);
+    });
+
+    it('should repeat monthly on the same day, skipping months without it', () => {
+      const monthEnd = {
+        ...series({ frequency: RecurrenceFrequency.MONTHLY }),
+        start: at('2025-10-31T15:00'),
+        end: at('2025-10-31T17:00'),
+      };
+      expect(starts(monthEnd, '2025-10-01', '2026-01-01')).toEqual([
+        '2025-10-31',
+        '2025-12-31',
+      ]);
+    });
+  });
+});
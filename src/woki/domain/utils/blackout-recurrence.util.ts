@@ -0,0 +1,134 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  BlackoutRecurrence,
+  RecurrenceFrequency,
+} from '../types/blackout-recurrence.type';
+import { TimeInterval } from '../types/time-interval.type';
+import { toMinutesOfDay, zonedDayMinutesToUtc } from './service-day.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Occurrences of a blackout overlapping an interval. One-off blackouts are their own
+ * only occurrence; occurrences of a recurring one are copies with their own start
+ * and end (same ID as the series).
+ */
+export function expandBlackout<
+  T extends { start: Date; end: Date; recurrence?: BlackoutRecurrence | null },
+>(blackout: T, interval: TimeInterval): T[] {
+  const overlaps = (occurrence: { start: Date; end: Date }) =>
+    occurrence.start < interval.end && occurrence.end > interval.start;
+
+  if (!blackout.recurrence) {
+    return overlaps(blackout) ? [blackout] : [];
+  }
+
+  const occurrences: T[] = [];
+  for (const occurrence of listOccurrences(blackout, interval.end)) {
+    if (overlaps(occurrence)) {
+      occurrences.push({ ...blackout, ...occurrence });
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Day (YYYY-MM-DD, restaurant timezone) an occurrence starts on; exceptions and
+ * single-occurrence deletes refer to it.
+ */
+export function getOccurrenceDate(
+  occurrence: { start: Date },
+  timezone: string,
+): string {
+  return formatInTimeZone(occurrence.start, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * Start and end of every occurrence starting before `before`, exceptions left out.
+ */
+function listOccurrences(
+  blackout: { start: Date; end: Date; recurrence?: BlackoutRecurrence | null },
+  before: Date,
+): TimeInterval[] {
+  const recurrence = blackout.recurrence as BlackoutRecurrence;
+  const { timezone } = recurrence;
+  const firstDate = getOccurrenceDate(blackout, timezone);
+  const startMinutes = toMinutesOfDay(
+    formatInTimeZone(blackout.start, timezone, 'HH:mm'),
+  );
+  const durationMs = blackout.end.getTime() - blackout.start.getTime();
+  const exceptions = new Set(recurrence.exceptions);
+
+  const occurrences: TimeInterval[] = [];
+  let generated = 0;
+  for (const day of listDays(recurrence, firstDate)) {
+    const dateKey = toDateKey(day);
+    if (
+      (recurrence.until && dateKey > recurrence.until) ||
+      (recurrence.count !== null && generated >= recurrence.count)
+    ) {
+      break;
+    }
+    const start = zonedDayMinutesToUtc(day, startMinutes, timezone);
+    if (start >= before) {
+      break;
+    }
+    generated++;
+    if (!exceptions.has(dateKey)) {
+      occurrences.push({ start, end: new Date(start.getTime() + durationMs) });
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Days matching the schedule, from the first occurrence on (never ends on its own).
+ */
+function* listDays(
+  recurrence: BlackoutRecurrence,
+  firstDate: string,
+): Generator<Date> {
+  const first = new Date(`${firstDate}T00:00:00Z`);
+
+  switch (recurrence.frequency) {
+    case RecurrenceFrequency.DAILY:
+      for (let n = 0; ; n += recurrence.interval) {
+        yield new Date(first.getTime() + n * DAY_MS);
+      }
+
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = [
+        ...new Set(recurrence.byWeekday ?? [first.getUTCDay()]),
+      ].sort();
+      // Weeks start on Sunday, like dayOfWeek in service windows
+      const weekStart = first.getTime() - first.getUTCDay() * DAY_MS;
+      for (let week = 0; ; week += recurrence.interval) {
+        for (const weekday of weekdays) {
+          const day = new Date(weekStart + (week * 7 + weekday) * DAY_MS);
+          if (day >= first) {
+            yield day;
+          }
+        }
+      }
+    }
+
+    case RecurrenceFrequency.MONTHLY:
+      for (let n = 0; ; n += recurrence.interval) {
+        const day = new Date(
+          Date.UTC(
+            first.getUTCFullYear(),
+            first.getUTCMonth() + n,
+            first.getUTCDate(),
+          ),
+        );
+        // Months without that day (e.g. the 31st) have no occurrence
+        if (day.getUTCDate() === first.getUTCDate()) {
+          yield day;
+        }
+      }
+  }
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,73 @@
+import {
+  findTargetServiceWindowId,
+  resolveDurationMinutes,
+} from './duration-rules.util';
+
+describe('duration rules utils', () => {
+  // Wednesday
+  const date = new Date('2025-10-22T00:00:00Z');
+
+  const serviceWindows = [
+    { id: 'SW1', start: '12:00', end: '16:00' },
+    { id: 'SW2', start: '20:00', end: '23:45' },
+  ];
+
+  describe('findTargetServiceWindowId', () => {
+    it('should find the service window containing the requested start', () => {
+      expect(
+        findTargetServiceWindowId(serviceWindows, date, '13:00', '14:00'),
+      ).toBe('SW1');
+      expect(
+        findTargetServiceWindowId(serviceWindows, date, undefined, '21:00'),
+      ).toBe('SW2');
+    });
+
+    it('should only fall back to the only window of the day without a requested window', () => {
+      expect(findTargetServiceWindowId(serviceWindows, date)).toBeNull();
+      expect(findTargetServiceWindowId([serviceWindows[1]], date)).toBe('SW2');
+    });
+
+    it('should return null outside every service window', () => {
+      expect(
+        findTargetServiceWindowId(serviceWindows, date, '17:00', '18:00'),
+      ).toBeNull();
+    });
+  });
+
+  describe('resolveDurationMinutes', () => {
+    const rules = [
+      {
+        minPartySize: 1,
+        maxPartySize: 2,
+        serviceWindowId: 'SW1',
+        durationMinutes: 90,
+      },
+      {
+        minPartySize: 6,
+        maxPartySize: null,
+        serviceWindowId: 'SW2',
+        durationMinutes: 150,
+      },
+      {
+        minPartySize: 1,
+        maxPartySize: null,
+        serviceWindowId: null,
+        durationMinutes: 120,
+      },
+    ];
+
+    it('should prefer the rule of the targeted service window', () => {
+      expect(resolveDurationMinutes(rules, 2, 'SW1')).toBe(90);
+      expect(resolveDurationMinutes(rules, 8, 'SW2')).toBe(150);
+    });
+
+    it('should fall back to rules for every service window', () => {
+      expect(resolveDurationMinutes(rules, 2, 'SW2')).toBe(120);
+      expect(resolveDurationMinutes(rules, 8, null)).toBe(120);
+    });
+
+    it('should return null when no rule covers the party size', () => {
+      expect(resolveDurationMinutes(rules.slice(0, 2), 4, 'SW1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { DurationRule } from '../types/duration-rule.type';
+import { ServiceWindowRule } from '../types/service-window-rule.type';
+import { getWindowMinutes, placeWindowMinutes } from './service-day.util';
+import { resolveServiceWindowsForDate } from './service-window-schedule.util';
+
+/**
+ * Service window a request targets on the given day: the one containing the requested
+ * start (or the minute before the requested end). Without a requested window, the
+ * day's only service window.
+ *
+ * @returns The service window ID, or null when no single window is targeted
+ */
+export function findTargetServiceWindowId(
+  rules: ServiceWindowRule[],
+  date: Date,
+  windowStart?: string,
+  windowEnd?: string,
+): string | null {
+  const dayWindows = resolveServiceWindowsForDate(rules, date);
+  if (!dayWindows || dayWindows.length === 0) {
+    return null;
+  }
+
+  if (!windowStart && !windowEnd) {
+    return dayWindows.length === 1 ? (dayWindows[0].id ?? null) : null;
+  }
+
+  const requested = placeWindowMinutes(windowStart, windowEnd, dayWindows);
+  const anchor = requested.start ?? (requested.end as number) - 1;
+  const target = dayWindows.find((window) => {
+    const { start, end } = getWindowMinutes(window);
+    return anchor >= start && anchor < end;
+  });
+  return target?.id ?? null;
+}
+
+/**
+ * Default duration for a party size. Rules of the targeted service window win over
+ * rules for every window; among those, the first matching rule wins.
+ *
+ * @returns null when no rule covers the party size
+ */
+export function resolveDurationMinutes(
+  durationRules: DurationRule[],
+  partySize: number,
+  serviceWindowId: string | null,
+): number | null {
+  const matching = durationRules.filter(
+    (rule) =>
+      partySize >= rule.minPartySize &&
+      (rule.maxPartySize === null || partySize <= rule.maxPartySize),
+  );
+
+  const rule =
+    matching.find(
+      (rule) =>
+        serviceWindowId !== null && rule.serviceWindowId === serviceWindowId,
+    ) ?? matching.find((rule) => rule.serviceWindowId === null);
+  return rule?.durationMinutes ?? null;
+}
@@ -0,0 +1,93 @@
+import {
+  getServiceDate,
+  getServiceDayInterval,
+  placeWindowMinutes,
+  zonedDayMinutesToUtc,
+} from './service-day.util';
+
+describe('service day utils', () => {
+  const timezone = 'America/Argentina/Buenos_Aires';
+  // Wednesday
+  const date = new Date('2025-10-22T00:00:00Z');
+  const overnight = [{ start: '20:00', end: '02:00' }];
+
+  describe('placeWindowMinutes', () => {
+    it('should keep same-day windows as minutes of the day', () => {
+      expect(placeWindowMinutes('20:00', '22:00', null)).toEqual({
+        start: 1200,
+        end: 1320,
+      });
+    });
+
+    it('should roll an end before the start over to the next day', () => {
+      expect(placeWindowMinutes('23:30', '01:00', null)).toEqual({
+        start: 1410,
+        end: 1500,
+      });
+    });
+
+    it('should place small hours of an overnight window on the next day', () => {
+      expect(placeWindowMinutes('00:30', '01:30', overnight)).toEqual({
+        start: 1470,
+        end: 1530,
+      });
+      // After the overnight window has ended, times stay on the day itself
+      expect(placeWindowMinutes('12:00', '13:00', overnight)).toEqual({
+        start: 720,
+        end: 780,
+      });
+    });
+  });
+
+  describe('zonedDayMinutesToUtc', () => {
+    it('should convert minutes past midnight into the next local day', () => {
+      expect(zonedDayMinutesToUtc(date, 1500, timezone).toISOString()).toBe(
+        '2025-10-23T04:00:00.000Z',
+      );
+    });
+
+    it('should use the offset in effect at the target time across DST changes', () => {
+      // New York switches to EDT at 02:00 on 2025-03-09
+      const dstDay = new Date('2025-03-08T00:00:00Z');
+      expect(
+        zonedDayMinutesToUtc(dstDay, 20 * 60, 'America/New_York').toISOString(),
+      ).toBe('2025-03-09T01:00:00.000Z');
+      expect(
+        zonedDayMinutesToUtc(
+          dstDay,
+          24 * 60 + 3 * 60,
+          'America/New_York',
+        ).toISOString(),
+      ).toBe('2025-03-09T07:00:00.000Z');
+    });
+  });
+
+  describe('getServiceDayInterval', () => {
+    it('should cover the calendar day without overnight windows', () => {
+      const interval = getServiceDayInterval([], date, timezone);
+      expect(interval.start.toISOString()).toBe('2025-10-22T03:00:00.000Z');
+      expect(interval.end.toISOString()).toBe('2025-10-23T03:00:00.000Z');
+    });
+
+    it('should extend to the end of an overnight window and start after the previous one', () => {
+      const today = getServiceDayInterval(overnight, date, timezone);
+      expect(today.end.toISOString()).toBe('2025-10-23T05:00:00.000Z');
+
+      const tomorrow = getServiceDayInterval(
+        overnight,
+        new Date('2025-10-23T00:00:00Z'),
+        timezone,
+      );
+      expect(tomorrow.start.toISOString()).toBe(today.end.toISOString());
+    });
+  });
+
+  describe('getServiceDate', () => {
+    it('should assign small hours of an overnight window to the previous day', () => {
+      // 01:00 local on Thursday
+      const instant = new Date('2025-10-23T04:00:00Z');
+      expect(getServiceDate(overnight, instant, timezone)).toBe('2025-10-22');
+      expect(getServiceDate([], instant, timezone)).toBe('2025-10-23');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { zonedTimeToUtc, formatInTimeZone } from 'date-fns-tz';
+import { TimeInterval } from '../types/time-interval.type';
+import { ServiceWindowRule } from '../types/service-window-rule.type';
+import { resolveServiceWindowsForDate } from './service-window-schedule.util';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse an HH:mm time into minutes since midnight ('24:00' = 1440).
+ */
+export function toMinutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * A window crosses midnight when its end is not after its start (e.g. 20:00-02:00).
+ */
+export function crossesMidnight(window: {
+  start: string;
+  end: string;
+}): boolean {
+  return toMinutesOfDay(window.end) <= toMinutesOfDay(window.start);
+}
+
+/**
+ * Service window as minutes from the service day's midnight.
+ * Windows crossing midnight end past 1440 (20:00-02:00 = 1200-1560).
+ */
+export function getWindowMinutes(window: { start: string; end: string }): {
+  start: number;
+  end: number;
+} {
+  const start = toMinutesOfDay(window.start);
+  const end = toMinutesOfDay(window.end);
+  return { start, end: end <= start ? end + MINUTES_PER_DAY : end };
+}
+
+/**
+ * Place a requested HH:mm window on the service day, as minutes from its midnight.
+ *
+ * Times before the end of a window that crosses midnight belong to the small hours
+ * of the next day (01:00 on a 20:00-02:00 day = 1500). An end that is not after the
+ * start rolls over to the next day as well.
+ *
+ * @param dayWindows - The day's resolved service windows (null = open all day)
+ */
+export function placeWindowMinutes(
+  windowStart: string | undefined,
+  windowEnd: string | undefined,
+  dayWindows: Array<{ start: string; end: string }> | null,
+): { start?: number; end?: number } {
+  const overnightEnd = Math.max(
+    0,
+    ...(dayWindows ?? [])
+      .filter((window) => crossesMidnight(window))
+      .map((window) => toMinutesOfDay(window.end)),
+  );
+  const place = (time: string) => {
+    const minutes = toMinutesOfDay(time);
+    return minutes < overnightEnd ? minutes + MINUTES_PER_DAY : minutes;
+  };
+
+  const start = windowStart ? place(windowStart) : undefined;
+  let end = windowEnd ? place(windowEnd) : undefined;
+  if (start !== undefined && end !== undefined && end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Convert minutes from a day's local midnight into a UTC instant.
+ * Builds the wall-clock time in the restaurant timezone, so DST changes between
+ * midnight and the target time are accounted for.
+ *
+ * @param date - Day (calendar fields are read in UTC, as from parseISO('YYYY-MM-DD'))
+ * @param minutes - Minutes from that day's midnight; may exceed 1440 (next day)
+ */
+export function zonedDayMinutesToUtc(
+  date: Date,
+  minutes: number,
+  timezone: string,
+): Date {
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  const minuteOfDay = minutes - dayOffset * MINUTES_PER_DAY;
+  const day = new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() + dayOffset,
+    ),
+  );
+
+  const dateStr = formatDateKey(day);
+  const hours = String(Math.floor(minuteOfDay / 60)).padStart(2, '0');
+  const mins = String(minuteOfDay % 60).padStart(2, '0');
+  return zonedTimeToUtc(`${dateStr}T${hours}:${mins}:00`, timezone);
+}
+
+/**
+ * Instant range covered by a service day.
+ *
+ * Starts at local midnight (or when the previous day's overnight window ends) and
+ * ends at the next local midnight (or when this day's overnight window ends), so
+ * consecutive service days never overlap.
+ */
+export function getServiceDayInterval(
+  rules: ServiceWindowRule[],
+  date: Date,
+  timezone: string,
+): TimeInterval {
+  const previousDay = shiftDays(date, -1);
+
+  const overnightEnds = (day: Date): number[] =>
+    (resolveServiceWindowsForDate(rules, day) ?? [])
+      .filter((window) => crossesMidnight(window))
+      .map((window) => getWindowMinutes(window).end);
+
+  const startMinutes = Math.max(
+    0,
+    ...overnightEnds(previousDay).map((end) => end - MINUTES_PER_DAY),
+  );
+  const endMinutes = Math.max(MINUTES_PER_DAY, ...overnightEnds(date));
+
+  return {
+    start: zonedDayMinutesToUtc(date, startMinutes, timezone),
+    end: zonedDayMinutesToUtc(date, endMinutes, timezone),
+  };
+}
+
+/**
+ * Service day (YYYY-MM-DD) an instant belongs to: 01:00 after a 20:00-02:00
+ * window still belongs to the previous evening's service.
+ */
+export function getServiceDate(
+  rules: ServiceWindowRule[],
+  instant: Date,
+  timezone: string,
+): string {
+  const calendarDate = formatInTimeZone(instant, timezone, 'yyyy-MM-dd');
+  const previousDay = shiftDays(new Date(`${calendarDate}T00:00:00Z`), -1);
+
+  if (instant < getServiceDayInterval(rules, previousDay, timezone).end) {
+    return formatDateKey(previousDay);
+  }
+  return calendarDate;
+}
+
+function shiftDays(date: Date, days: number): Date {
+  return new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() + days,
+    ),
+  );
+}
+
+function formatDateKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,71 @@
+import { resolveServiceWindowsForDate } from './service-window-schedule.util';
+
+describe('resolveServiceWindowsForDate', () => {
+  // Wednesday
+  const date = new Date('2025-10-22T00:00:00Z');
+
+  const everyDay = [
+    { start: '20:00', end: '23:45' },
+    { start: '12:00', end: '16:00' },
+  ];
+
+  it('should return null when the restaurant has no service windows', () => {
+    expect(resolveServiceWindowsForDate([], date)).toBeNull();
+  });
+
+  it('should apply rows without dayOfWeek or date every day, sorted by start', () => {
+    expect(resolveServiceWindowsForDate(everyDay, date)).toEqual([
+      { start: '12:00', end: '16:00' },
+      { start: '20:00', end: '23:45' },
+    ]);
+  });
+
+  it('should only apply weekly rows on their day of week', () => {
+    const rules = [
+      { start: '19:00', end: '23:00', dayOfWeek: 3 },
+      { start: '12:00', end: '15:00', dayOfWeek: 6 },
+    ];
+
+    expect(resolveServiceWindowsForDate(rules, date)).toEqual([
+      { start: '19:00', end: '23:00' },
+    ]);
+    // Thursday has no rows: closed
+    expect(
+      resolveServiceWindowsForDate(rules, new Date('2025-10-23T00:00:00Z')),
+    ).toEqual([]);
+  });
+
+  it('should let date overrides replace the weekly schedule', () => {
+    const rules = [
+      ...everyDay,
+      { start: '18:00', end: '22:00', date: '2025-10-22' },
+    ];
+
+    expect(resolveServiceWindowsForDate(rules, date)).toEqual([
+      { start: '18:00', end: '22:00' },
+    ]);
+    expect(
+      resolveServiceWindowsForDate(rules, new Date('2025-10-23T00:00:00Z')),
+    ).toHaveLength(2);
+  });
+
+  it('should close the whole day with a closed override', () => {
+    const rules = [
+      ...everyDay,
+      { start: null, end: null, date: '2025-10-22', closed: true },
+    ];
+
+    expect(resolveServiceWindowsForDate(rules, date)).toEqual([]);
+  });
+
+  it('should leave other days open when a single closed override is the only row', () => {
+    const rules = [
+      { start: null, end: null, date: '2025-12-25', closed: true },
+    ];
+
+    expect(
+      resolveServiceWindowsForDate(rules, new Date('2025-12-25T00:00:00Z')),
+    ).toEqual([]);
+    expect(resolveServiceWindowsForDate(rules, date)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { ServiceWindowRule } from '../types/service-window-rule.type';
+
+/**
+ * Resolve the service windows that apply on a given day.
+ *
+ * Precedence:
+ * 1. Date overrides for that day (a `closed` override closes the whole day)
+ * 2. Weekly rows for that day of week, plus rows that apply every day
+ *
+ * Overrides only replace their own date: without weekly rows, other days stay open.
+ *
+ * @param date - Day to resolve (calendar fields are read in UTC, as in gap discovery)
+ * @returns null when no override matches the day and the restaurant has no weekly
+ *   rows (open all day), otherwise the day's windows sorted by start (empty = closed)
+ */
+export function resolveServiceWindowsForDate(
+  rules: ServiceWindowRule[],
+  date: Date,
+): Array<{ id?: string; start: string; end: string }> | null {
+  if (!rules || rules.length === 0) {
+    return null;
+  }
+
+  const dateKey = toDateKey(date);
+  const overrides = rules.filter((rule) => rule.date === dateKey);
+
+  let applicable: ServiceWindowRule[];
+  if (overrides.length > 0) {
+    if (overrides.some((rule) => rule.closed)) {
+      return [];
+    }
+    applicable = overrides;
+  } else {
+    if (!rules.some((rule) => !rule.date)) {
+      return null;
+    }
+    const dayOfWeek = date.getUTCDay();
+    applicable = rules.filter(
+      (rule) =>
+        !rule.date &&
+        !rule.closed &&
+        (rule.dayOfWeek === null ||
+          rule.dayOfWeek === undefined ||
+          rule.dayOfWeek === dayOfWeek),
+    );
+  }
+
+  return applicable
+    .filter(
+      (rule): rule is ServiceWindowRule & { start: string; end: string } =>
+        rule.start !== null && rule.end !== null,
+    )
+    .map((rule) => ({
+      ...(rule.id && { id: rule.id }),
+      start: rule.start,
+      end: rule.end,
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function toDateKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
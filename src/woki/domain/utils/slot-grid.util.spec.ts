@@ -0,0 +1,131 @@
+import {
+  alignToSlotGrid,
+  expandSlots,
+  getSlotIndex,
+  moveToPreferredStart,
+} from './slot-grid.util';
+import { ComboCandidate } from '../types/combo-candidate.type';
+
+describe('slot grid utils', () => {
+  const timezone = 'America/Argentina/Buenos_Aires';
+
+  describe('alignToSlotGrid', () => {
+    it('should keep instants already on the grid', () => {
+      // 20:30 local
+      const instant = new Date('2025-10-22T23:30:00Z');
+      expect(alignToSlotGrid(instant, 15, timezone)).toBe(instant);
+      expect(alignToSlotGrid(instant, 30, timezone)).toBe(instant);
+    });
+
+    it('should round up to the next grid line', () => {
+      // 20:45 local
+      const instant = new Date('2025-10-22T23:45:00Z');
+      expect(alignToSlotGrid(instant, 30, timezone).toISOString()).toBe(
+        '2025-10-23T00:00:00.000Z',
+      );
+      expect(alignToSlotGrid(instant, 20, timezone).toISOString()).toBe(
+        '2025-10-23T00:00:00.000Z',
+      );
+    });
+
+    it('should place grid lines on the local clock', () => {
+      // 20:00 UTC = 01:45 in Kathmandu (UTC+5:45)
+      const instant = new Date('2025-10-22T20:00:00Z');
+      expect(alignToSlotGrid(instant, 10, 'Asia/Kathmandu').toISOString()).toBe(
+        '2025-10-22T20:05:00.000Z',
+      );
+    });
+  });
+
+  describe('getSlotIndex', () => {
+    it('should group instants of the same slot', () => {
+      const slot = getSlotIndex(new Date('2025-10-22T23:30:00Z'), 30, timezone);
+      expect(getSlotIndex(new Date('2025-10-22T23:59:00Z'), 30, timezone)).toBe(
+        slot,
+      );
+      expect(getSlotIndex(new Date('2025-10-23T00:00:00Z'), 30, timezone)).toBe(
+        slot + 1,
+      );
+    });
+  });
+
+  describe('expandSlots', () => {
+    const at = (time: string) => new Date(`2025-10-22T${time}:00-03:00`);
+    const candidate = (
+      tableIds: string[],
+      start: string,
+      end: string,
+    ): ComboCandidate => ({
+      tableIds,
+      minCapacity: 2,
+      maxCapacity: 4,
+      interval: { start: at(start), end: at(end) },
+      kind: tableIds.length > 1 ? 'combo' : 'single',
+      sectorId: 'S1',
+    });
+
+    it('should list every start that fits the duration', () => {
+      const slots = expandSlots([candidate(['T1'], '20:00', '21:30')], 60, 15);
+      expect(slots.map((slot) => slot.interval)).toEqual([
+        { start: at('20:00'), end: at('21:00') },
+        { start: at('20:15'), end: at('21:15') },
+        { start: at('20:30'), end: at('21:30') },
+      ]);
+    });
+
+    it('should order by start, then by candidate order, without duplicates', () => {
+      const slots = expandSlots(
+        [
+          candidate(['T2'], '20:30', '21:30'),
+          candidate(['T1'], '20:00', '21:00'),
+          candidate(['T2'], '20:30', '21:30'),
+        ],
+        30,
+        30,
+      );
+      expect(
+        slots.map(
+          (slot) => `${slot.tableIds[0]}@${slot.interval.start.toISOString()}`,
+        ),
+      ).toEqual([
+        `T1@${at('20:00').toISOString()}`,
+        `T2@${at('20:30').toISOString()}`,
+        `T1@${at('20:30').toISOString()}`,
+        `T2@${at('21:00').toISOString()}`,
+      ]);
+    });
+  });
+
+  describe('moveToPreferredStart', () => {
+    const at = (time: string) => new Date(`2025-10-22T${time}:00-03:00`);
+    const gap = (start: string, end: string): ComboCandidate => ({
+      tableIds: ['T1'],
+      minCapacity: 2,
+      maxCapacity: 2,
+      interval: { start: at(start), end: at(end) },
+      kind: 'single',
+      sectorId: 'S1',
+    });
+
+    it('should start at the grid start closest to the preferred time', () => {
+      const [moved] = moveToPreferredStart(
+        [gap('19:00', '23:00')],
+        at('20:35'),
+        60,
+        15,
+      );
+      expect(moved.interval).toEqual({ start: at('20:30'), end: at('23:00') });
+    });
+
+    it('should stay within the gap', () => {
+      const [early, late] = moveToPreferredStart(
+        [gap('21:00', '23:00'), gap('18:00', '20:00')],
+        at('20:30'),
+        60,
+        15,
+      );
+      expect(early.interval.start).toEqual(at('21:00'));
+      expect(late.interval.start).toEqual(at('19:00'));
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { getTimezoneOffset } from 'date-fns-tz';
+import { ComboCandidate } from '../types/combo-candidate.type';
+
+/**
+ * Slot lengths that divide an hour, so every hour starts on the grid.
+ */
+export const SLOT_MINUTE_OPTIONS = [5, 10, 15, 20, 30, 60];
+
+/**
+ * Round an instant up to the next start on the restaurant's slot grid.
+ * Grid lines sit on the local clock (20:00, 20:10, ... for 10-minute slots), so
+ * half-hour and 45-minute UTC offsets are accounted for.
+ */
+export function alignToSlotGrid(
+  instant: Date,
+  slotMinutes: number,
+  timezone: string,
+): Date {
+  const slotMs = slotMinutes * 60 * 1000;
+  const remainder = mod(toLocalMs(instant, timezone), slotMs);
+  return remainder === 0
+    ? instant
+    : new Date(instant.getTime() + slotMs - remainder);
+}
+
+/**
+ * Index of the slot an instant falls in; equal indexes share a slot.
+ */
+export function getSlotIndex(
+  instant: Date,
+  slotMinutes: number,
+  timezone: string,
+): number {
+  return Math.floor(toLocalMs(instant, timezone) / (slotMinutes * 60 * 1000));
+}
+
+/**
+ * Expand candidate gaps into bookable slots: one candidate per grid-aligned start
+ * (gaps start on the grid) whose interval is exactly `durationMinutes` long.
+ *
+ * Slots are ordered by start time, then by the order of the candidates they come
+ * from (pass ranked candidates to list the preferred tables first). The same tables
+ * at the same start are only listed once.
+ */
+export function expandSlots(
+  candidates: ComboCandidate[],
+  durationMinutes: number,
+  slotMinutes: number,
+): ComboCandidate[] {
+  const slotMs = slotMinutes * 60 * 1000;
+  const durationMs = durationMinutes * 60 * 1000;
+
+  const seen = new Set<string>();
+  const slots: Array<{ slot: ComboCandidate; rank: number }> = [];
+  candidates.forEach((candidate, rank) => {
+    const tablesKey = [...candidate.tableIds].sort().join('+');
+    for (
+      let start = candidate.interval.start.getTime();
+      start + durationMs <= candidate.interval.end.getTime();
+      start += slotMs
+    ) {
+      const key = `${candidate.sectorId}|${tablesKey}|${start}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      slots.push({
+        slot: {
+          ...candidate,
+          interval: {
+            start: new Date(start),
+            end: new Date(start + durationMs),
+          },
+        },
+        rank,
+      });
+    }
+  });
+
+  return slots
+    .sort(
+      (a, b) =>
+        a.slot.interval.start.getTime() - b.slot.interval.start.getTime() ||
+        a.rank - b.rank,
+    )
+    .map(({ slot }) => slot);
+}
+
+/**
+ * Move each candidate's start to its grid start closest to `preferredStart` that
+ * still fits `durationMinutes` (the earlier one at equal distance). The gap end is
+ * kept, so the candidate still admits every start from there on.
+ */
+export function moveToPreferredStart(
+  candidates: ComboCandidate[],
+  preferredStart: Date,
+  durationMinutes: number,
+  slotMinutes: number,
+): ComboCandidate[] {
+  const slotMs = slotMinutes * 60 * 1000;
+  const durationMs = durationMinutes * 60 * 1000;
+  const preferred = preferredStart.getTime();
+
+  return candidates.map((candidate) => {
+    const gapStart = candidate.interval.start.getTime();
+    const lastStart = candidate.interval.end.getTime() - durationMs;
+    const target = Math.min(Math.max(preferred, gapStart), lastStart);
+
+    // Grid starts around the target (gaps start on the grid)
+    const before = gapStart + Math.floor((target - gapStart) / slotMs) * slotMs;
+    const after = before + slotMs;
+    const start =
+      after <= lastStart &&
+      Math.abs(after - preferred) < Math.abs(before - preferred)
+        ? after
+        : before;
+
+    return start === gapStart
+      ? candidate
+      : {
+          ...candidate,
+          interval: { start: new Date(start), end: candidate.interval.end },
+        };
+  });
+}
+
+// Milliseconds since the epoch on the local wall clock
+function toLocalMs(instant: Date, timezone: string): number {
+  return instant.getTime() + getTimezoneOffset(timezone, instant);
+}
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
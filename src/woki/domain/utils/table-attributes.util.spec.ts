@@ -0,0 +1,38 @@
+import { TableAttribute } from '../types/table-attribute.enum';
+import { countSharedAttributes, hasAttributes } from './table-attributes.util';
+
+describe('table attribute utils', () => {
+  const { OUTDOOR, QUIET, WINDOW } = TableAttribute;
+
+  describe('hasAttributes', () => {
+    it('should require every attribute', () => {
+      const table = { attributes: [OUTDOOR, QUIET] };
+      expect(hasAttributes(table, [OUTDOOR])).toBe(true);
+      expect(hasAttributes(table, [OUTDOOR, WINDOW])).toBe(false);
+    });
+
+    it('should treat missing attributes as none', () => {
+      expect(hasAttributes({ attributes: null }, [])).toBe(true);
+      expect(hasAttributes({ attributes: null }, [QUIET])).toBe(false);
+    });
+  });
+
+  describe('countSharedAttributes', () => {
+    it('should only count attributes every table of the candidate has', () => {
+      const tableAttributes = new Map([
+        ['T1', [OUTDOOR, WINDOW]],
+        ['T2', [OUTDOOR]],
+        ['T3', null],
+      ]);
+      const preferred = [OUTDOOR, WINDOW, QUIET];
+
+      expect(countSharedAttributes(['T1'], preferred, tableAttributes)).toBe(2);
+      expect(
+        countSharedAttributes(['T1', 'T2'], preferred, tableAttributes),
+      ).toBe(1);
+      expect(
+        countSharedAttributes(['T1', 'T3'], preferred, tableAttributes),
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { TableAttribute } from '../types/table-attribute.enum';
+
+/**
+ * Whether a table has every one of the given attributes (null = no attributes).
+ */
+export function hasAttributes(
+  table: { attributes?: TableAttribute[] | null },
+  attributes: TableAttribute[],
+): boolean {
+  return attributes.every((attribute) =>
+    (table.attributes ?? []).includes(attribute),
+  );
+}
+
+/**
+ * Number of the given attributes shared by every table of a candidate
+ * (a combo is only by the window if all of its tables are).
+ *
+ * @param tableAttributes - Table ID -> attributes
+ */
+export function countSharedAttributes(
+  tableIds: string[],
+  attributes: TableAttribute[],
+  tableAttributes: Map<string, TableAttribute[] | null | undefined>,
+): number {
+  return attributes.filter((attribute) =>
+    tableIds.every((id) => (tableAttributes.get(id) ?? []).includes(attribute)),
+  ).length;
+}
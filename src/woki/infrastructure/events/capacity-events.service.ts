@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { LoggerService } from '../logging/logger.service';
+
+export interface CapacityReleasedEvent {
+  restaurantId: string;
+  sectorId: string;
+  date: string; // YYYY-MM-DD in restaurant timezone
+}
+
+type CapacityReleasedListener = (event: CapacityReleasedEvent) => Promise<void>;
+
+/**
+ * In-process notification bus for "capacity was freed" events
+ * (booking cancelled, blackout removed, ...).
+ *
+ * Decouples the services that free capacity from the ones reacting to it
+ * (e.g. the waitlist) and avoids circular provider dependencies.
+ */
+@Injectable()
+export class CapacityEventsService {
+  private listeners: CapacityReleasedListener[] = [];
+
+  constructor(private readonly logger: LoggerService) {}
+
+  onCapacityReleased(listener: CapacityReleasedListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Notify all listeners sequentially. Listener failures are logged and swallowed:
+   * the operation that released capacity has already succeeded.
+   */
+  async capacityReleased(event: CapacityReleasedEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        this.logger.error('Capacity released listener failed', error as Error, {
+          ...event,
+        });
+      }
+    }
+  }
+}
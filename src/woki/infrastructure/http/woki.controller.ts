@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Query,
   Body,
@@ -20,14 +21,34 @@ import { BookingQueryService } from '../../application/services/booking-query.se
 import { BookingCommandService } from '../../application/services/booking-command.service';
 import { BlackoutQueryService } from '../../application/services/blackout-query.service';
 import { BlackoutCommandService } from '../../application/services/blackout-command.service';
+import { GuestQueryService } from '../../application/services/guest-query.service';
+import { WaitlistQueryService } from '../../application/services/waitlist-query.service';
+import { ServiceWindowQueryService } from '../../application/services/service-window-query.service';
+import { ServiceWindowCommandService } from '../../application/services/service-window-command.service';
+import { WaitlistCommandService } from '../../application/services/waitlist-command.service';
+import { TableAdjacencyQueryService } from '../../application/services/table-adjacency-query.service';
+import { TableAdjacencyCommandService } from '../../application/services/table-adjacency-command.service';
+import { RestaurantCommandService } from '../../application/services/restaurant-command.service';
+import { SectorCommandService } from '../../application/services/sector-command.service';
+import { TableCommandService } from '../../application/services/table-command.service';
+import { AvailabilityQueryService } from '../../application/services/availability-query.service';
 import {
   DiscoverSeatsQuerySchema,
   DiscoverSeatsQuery,
+  ExplainFlagSchema,
 } from '../../application/dto/discover-seats.dto';
+import {
+  AvailabilityCalendarQuerySchema,
+  AvailabilityCalendarQuery,
+} from '../../application/dto/availability-calendar.dto';
 import {
   CreateBookingSchema,
   CreateBookingRequest,
 } from '../../application/dto/create-booking.dto';
+import {
+  UpdateBookingSchema,
+  UpdateBookingRequest,
+} from '../../application/dto/update-booking.dto';
 import {
   ListBookingsQuerySchema,
   ListBookingsQuery,
@@ -36,16 +57,69 @@ import {
   CreateBlackoutSchema,
   CreateBlackoutRequest,
 } from '../../application/dto/create-blackout.dto';
+import {
+  PreviewBlackoutSchema,
+  PreviewBlackoutRequest,
+} from '../../application/dto/blackout-preview.dto';
+import {
+  CreateHoldSchema,
+  CreateHoldRequest,
+  ConfirmHoldSchema,
+  ConfirmHoldRequest,
+} from '../../application/dto/create-hold.dto';
+import {
+  JoinWaitlistSchema,
+  JoinWaitlistRequest,
+} from '../../application/dto/waitlist.dto';
 import {
   ListBlackoutsQuerySchema,
   ListBlackoutsQuery,
 } from '../../application/dto/list-blackouts.dto';
+import {
+  DeleteBlackoutQuerySchema,
+  DeleteBlackoutQuery,
+} from '../../application/dto/delete-blackout.dto';
+import {
+  UpdateBlackoutSchema,
+  UpdateBlackoutRequest,
+} from '../../application/dto/update-blackout.dto';
+import {
+  CreateServiceWindowSchema,
+  CreateServiceWindowRequest,
+} from '../../application/dto/create-service-window.dto';
+import {
+  UpdateServiceWindowSchema,
+  UpdateServiceWindowRequest,
+} from '../../application/dto/update-service-window.dto';
+import {
+  ListServiceWindowsQuerySchema,
+  ListServiceWindowsQuery,
+} from '../../application/dto/list-service-windows.dto';
+import {
+  CreateTableAdjacencySchema,
+  CreateTableAdjacencyRequest,
+  ListTableAdjacenciesQuerySchema,
+  ListTableAdjacenciesQuery,
+} from '../../application/dto/table-adjacency.dto';
+import {
+  UpdateRestaurantSchema,
+  UpdateRestaurantRequest,
+} from '../../application/dto/update-restaurant.dto';
+import {
+  UpdateSectorSchema,
+  UpdateSectorRequest,
+} from '../../application/dto/update-sector.dto';
+import {
+  UpdateTableSchema,
+  UpdateTableRequest,
+} from '../../application/dto/update-table.dto';
 import { BookingRepository as IBookingRepository } from '../../ports/repositories/booking.repository.interface';
 import { LoggerService } from '../logging/logger.service';
 import { MetricsService } from '../metrics/metrics.service';
 import { randomUUID } from 'crypto';
 import { Inject } from '@nestjs/common';
 import { BOOKING_REPOSITORY } from '../../tokens';
+import { BookingStatus } from '../../domain/types/booking-status.enum';
 
 // Helper function to get throttle limits based on environment.
 // By default, tests run with much higher limits to avoid rate limiting unrelated e2e suites.
@@ -69,6 +143,17 @@ export class WokiController {
     private readonly bookingCommandService: BookingCommandService,
     private readonly blackoutQueryService: BlackoutQueryService,
     private readonly blackoutCommandService: BlackoutCommandService,
+    private readonly guestQueryService: GuestQueryService,
+    private readonly waitlistQueryService: WaitlistQueryService,
+    private readonly waitlistCommandService: WaitlistCommandService,
+    private readonly serviceWindowQueryService: ServiceWindowQueryService,
+    private readonly serviceWindowCommandService: ServiceWindowCommandService,
+    private readonly tableAdjacencyQueryService: TableAdjacencyQueryService,
+    private readonly tableAdjacencyCommandService: TableAdjacencyCommandService,
+    private readonly restaurantCommandService: RestaurantCommandService,
+    private readonly sectorCommandService: SectorCommandService,
+    private readonly tableCommandService: TableCommandService,
+    private readonly availabilityQueryService: AvailabilityQueryService,
     @Inject(BOOKING_REPOSITORY)
     private readonly bookingRepository: IBookingRepository,
     private readonly logger: LoggerService,
@@ -108,10 +193,12 @@ export class WokiController {
         op: 'discover',
       });
 
-      if (result.candidates.length === 0) {
+      // A later page may be empty when slots were taken in the meantime
+      if (result.candidates.length === 0 && !validated.cursor) {
         throw new ConflictException({
           error: 'no_capacity',
           detail: 'No single or combo gap fits duration within window',
+          ...(result.explanation && { explanation: result.explanation }),
         });
       }
 
@@ -135,6 +222,73 @@ export class WokiController {
         throw error;
       }
 
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Get('availability/calendar')
+  @Throttle(getThrottleConfig(100))
+  @ApiOperation({ summary: 'Per-day availability for a date range' })
+  @ApiResponse({ status: 200, description: 'Calendar computed' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Restaurant or sector not found' })
+  async availabilityCalendar(@Query() query: AvailabilityCalendarQuery) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate query
+      const validated = AvailabilityCalendarQuerySchema.parse(query);
+
+      this.logger.log({
+        requestId,
+        sectorId: validated.sectorId,
+        partySize: validated.partySize,
+        duration: validated.duration,
+        op: 'availability_calendar',
+        outcome: 'success',
+      });
+
+      const result = await this.availabilityQueryService.getCalendar(validated);
+
+      this.logger.log({
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+        op: 'availability_calendar',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Availability calendar failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'availability_calendar',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
       if (error.name === 'ZodError') {
         throw new BadRequestException({
           error: 'invalid_input',
@@ -161,6 +315,7 @@ export class WokiController {
   async createBooking(
     @Body() body: CreateBookingRequest,
     @Headers('idempotency-key') idempotencyKey: string,
+    @Query('explain') explain?: string,
   ) {
     const requestId = randomUUID();
     const startTime = Date.now();
@@ -192,6 +347,7 @@ export class WokiController {
       const result = await this.bookingCommandService.createBooking(
         validated,
         idempotencyKey,
+        ExplainFlagSchema.parse(explain),
       );
 
       this.logger.log({
@@ -296,6 +452,88 @@ export class WokiController {
     }
   }
 
+  @Patch('bookings/:id')
+  @Throttle(getThrottleConfig(5))
+  @ApiOperation({ summary: 'Reschedule or resize a booking' })
+  @ApiResponse({ status: 200, description: 'Booking updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'No capacity or booking not modifiable',
+  })
+  @ApiResponse({ status: 422, description: 'Outside service window' })
+  async updateBooking(
+    @Param('id') id: string,
+    @Body() body: UpdateBookingRequest,
+  ) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = UpdateBookingSchema.parse(body);
+
+      this.logger.log({
+        requestId,
+        bookingId: id,
+        partySize: validated.partySize,
+        duration: validated.durationMinutes,
+        op: 'update_booking',
+        outcome: 'success',
+      });
+
+      const result = await this.bookingCommandService.updateBooking(
+        id,
+        validated,
+      );
+
+      this.logger.log({
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+        op: 'update_booking',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Update booking failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'update_booking',
+      });
+
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof UnprocessableEntityException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
   @Delete('bookings/:id')
   @Throttle(getThrottleConfig(5))
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -331,50 +569,45 @@ export class WokiController {
     }
   }
 
-  @Post('blackouts')
+  @Post('holds')
   @Throttle(getThrottleConfig(5))
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Create a blackout' })
-  @ApiResponse({ status: 201, description: 'Blackout created' })
-  @ApiResponse({ status: 400, description: 'Invalid input' })
-  @ApiResponse({
-    status: 404,
-    description: 'Restaurant, sector, or table not found',
+  @ApiOperation({
+    summary: 'Hold a slot tentatively (expires unless confirmed)',
   })
-  async createBlackout(@Body() body: CreateBlackoutRequest) {
+  @ApiResponse({ status: 201, description: 'Hold created' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Restaurant or sector not found' })
+  @ApiResponse({ status: 409, description: 'No capacity available' })
+  @ApiResponse({ status: 422, description: 'Outside service window' })
+  async createHold(@Body() body: CreateHoldRequest) {
     const requestId = randomUUID();
     const startTime = Date.now();
 
     try {
       // Validate body
-      const validated = CreateBlackoutSchema.parse(body);
-
-      this.logger.log({
-        requestId,
-        restaurantId: validated.restaurantId,
-        sectorId: validated.sectorId,
-        reason: validated.reason,
-        op: 'create_blackout',
-        outcome: 'success',
-      });
+      const validated = CreateHoldSchema.parse(body);
 
-      const result =
-        await this.blackoutCommandService.createBlackout(validated);
+      const result = await this.bookingCommandService.createHold(validated);
 
       this.logger.log({
         requestId,
+        bookingId: result.id,
+        sectorId: validated.sectorId,
+        partySize: validated.partySize,
+        duration: validated.durationMinutes,
+        op: 'create_hold',
         durationMs: Date.now() - startTime,
         outcome: 'success',
-        op: 'create_blackout',
       });
 
       return result;
     } catch (error: any) {
-      this.logger.error('Create blackout failed', error, {
+      this.logger.error('Create hold failed', error, {
         requestId,
         durationMs: Date.now() - startTime,
         outcome: 'error',
-        op: 'create_blackout',
+        op: 'create_hold',
       });
 
       if (error instanceof ConflictException) {
@@ -385,6 +618,14 @@ export class WokiController {
         throw error;
       }
 
+      if (error instanceof UnprocessableEntityException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
       if (error.name === 'ZodError') {
         throw new BadRequestException({
           error: 'invalid_input',
@@ -399,48 +640,47 @@ export class WokiController {
     }
   }
 
-  @Get('blackouts')
-  @Throttle(getThrottleConfig(100))
-  @ApiOperation({ summary: 'List blackouts for a day' })
-  @ApiResponse({ status: 200, description: 'Blackouts listed' })
-  @ApiResponse({ status: 404, description: 'Restaurant or sector not found' })
-  async listBlackouts(@Query() query: ListBlackoutsQuery) {
+  @Post('holds/:id/confirm')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a held booking' })
+  @ApiResponse({ status: 200, description: 'Hold confirmed' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Hold not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Hold expired or not in HELD status',
+  })
+  async confirmHold(@Param('id') id: string, @Body() body: ConfirmHoldRequest) {
     const requestId = randomUUID();
     const startTime = Date.now();
 
     try {
-      // Validate query
-      const validated = ListBlackoutsQuerySchema.parse(query);
-
-      this.logger.log({
-        requestId,
-        sectorId: validated.sectorId,
-        op: 'list_blackouts',
-        outcome: 'success',
-      });
+      // Validate body (may be empty)
+      const validated = ConfirmHoldSchema.parse(body ?? {});
 
-      const result = await this.blackoutQueryService.listBlackouts(validated);
+      const result = await this.bookingCommandService.confirmHold(
+        id,
+        validated.guest,
+      );
 
       this.logger.log({
         requestId,
+        bookingId: id,
+        op: 'confirm_hold',
         durationMs: Date.now() - startTime,
         outcome: 'success',
-        op: 'list_blackouts',
       });
 
       return result;
     } catch (error: any) {
-      this.logger.error('List blackouts failed', error, {
+      this.logger.error('Confirm hold failed', error, {
         requestId,
         durationMs: Date.now() - startTime,
         outcome: 'error',
-        op: 'list_blackouts',
+        op: 'confirm_hold',
       });
 
-      if (error instanceof NotFoundException) {
-        throw error;
-      }
-
       if (error.name === 'ZodError') {
         throw new BadRequestException({
           error: 'invalid_input',
@@ -448,43 +688,1075 @@ export class WokiController {
         });
       }
 
-      throw new BadRequestException({
-        error: 'invalid_input',
-        detail: error.message,
-      });
+      throw error;
     }
   }
 
-  @Delete('blackouts/:id')
-  @Throttle(getThrottleConfig(5))
-  @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a blackout' })
-  @ApiResponse({ status: 204, description: 'Blackout deleted' })
-  @ApiResponse({ status: 404, description: 'Blackout not found' })
-  async deleteBlackout(@Param('id') id: string) {
+  @Post('bookings/:id/arrive')
+  @Throttle(getThrottleConfig(100))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a booking as arrived' })
+  @ApiResponse({ status: 200, description: 'Booking marked as arrived' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  @ApiResponse({ status: 409, description: 'Invalid status transition' })
+  async arriveBooking(@Param('id') id: string) {
+    return this.transitionBooking(id, BookingStatus.ARRIVED, 'arrive_booking');
+  }
+
+  @Post('bookings/:id/seat')
+  @Throttle(getThrottleConfig(100))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a booking as seated' })
+  @ApiResponse({ status: 200, description: 'Booking marked as seated' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  @ApiResponse({ status: 409, description: 'Invalid status transition' })
+  async seatBooking(@Param('id') id: string) {
+    return this.transitionBooking(id, BookingStatus.SEATED, 'seat_booking');
+  }
+
+  @Post('bookings/:id/complete')
+  @Throttle(getThrottleConfig(100))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Mark a booking as completed (frees the table early)',
+  })
+  @ApiResponse({ status: 200, description: 'Booking marked as completed' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  @ApiResponse({ status: 409, description: 'Invalid status transition' })
+  async completeBooking(@Param('id') id: string) {
+    return this.transitionBooking(
+      id,
+      BookingStatus.COMPLETED,
+      'complete_booking',
+    );
+  }
+
+  @Post('bookings/:id/no-show')
+  @Throttle(getThrottleConfig(100))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a booking as no-show' })
+  @ApiResponse({ status: 200, description: 'Booking marked as no-show' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  @ApiResponse({ status: 409, description: 'Invalid status transition' })
+  async noShowBooking(@Param('id') id: string) {
+    return this.transitionBooking(id, BookingStatus.NO_SHOW, 'no_show_booking');
+  }
+
+  private async transitionBooking(
+    id: string,
+    status:
+      | BookingStatus.ARRIVED
+      | BookingStatus.SEATED
+      | BookingStatus.COMPLETED
+      | BookingStatus.NO_SHOW,
+    op: string,
+  ) {
     const requestId = randomUUID();
     const startTime = Date.now();
 
     try {
-      await this.blackoutCommandService.deleteBlackout(id);
+      const result = await this.bookingCommandService.transitionBooking(
+        id,
+        status,
+      );
 
       this.logger.log({
         requestId,
-        op: 'delete_blackout',
+        bookingId: id,
+        op,
         durationMs: Date.now() - startTime,
         outcome: 'success',
       });
+
+      return result;
     } catch (error: any) {
-      this.logger.error('Delete blackout failed', error, {
+      this.logger.error('Booking status transition failed', error, {
         requestId,
         durationMs: Date.now() - startTime,
         outcome: 'error',
-        op: 'delete_blackout',
+        op,
       });
 
-      if (error instanceof NotFoundException) {
-        throw error;
-      }
+      throw error;
+    }
+  }
+
+  @Get('guests/:id')
+  @Throttle(getThrottleConfig(100))
+  @ApiOperation({ summary: 'Get a guest profile with booking history' })
+  @ApiResponse({ status: 200, description: 'Guest retrieved' })
+  @ApiResponse({ status: 404, description: 'Guest not found' })
+  async getGuest(@Param('id') id: string) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      const result = await this.guestQueryService.getGuestHistory(id);
+
+      this.logger.log({
+        requestId,
+        op: 'get_guest',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Get guest failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'get_guest',
+      });
+
+      throw error;
+    }
+  }
+
+  @Post('waitlist')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Join the waitlist for a day (offered a hold when capacity frees)',
+  })
+  @ApiResponse({ status: 201, description: 'Waitlist entry created' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Restaurant or sector not found' })
+  @ApiResponse({ status: 422, description: 'Outside service window' })
+  async joinWaitlist(@Body() body: JoinWaitlistRequest) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = JoinWaitlistSchema.parse(body);
+
+      const result = await this.waitlistCommandService.joinWaitlist(validated);
+
+      this.logger.log({
+        requestId,
+        restaurantId: validated.restaurantId,
+        sectorId: validated.sectorId,
+        partySize: validated.partySize,
+        duration: validated.durationMinutes,
+        op: 'join_waitlist',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Join waitlist failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'join_waitlist',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof UnprocessableEntityException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Get('waitlist/:id')
+  @Throttle(getThrottleConfig(100))
+  @ApiOperation({ summary: 'Get a waitlist entry and its pending offer' })
+  @ApiResponse({ status: 200, description: 'Waitlist entry retrieved' })
+  @ApiResponse({ status: 404, description: 'Waitlist entry not found' })
+  async getWaitlistEntry(@Param('id') id: string) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      const result = await this.waitlistQueryService.getEntry(id);
+
+      this.logger.log({
+        requestId,
+        op: 'get_waitlist_entry',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Get waitlist entry failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'get_waitlist_entry',
+      });
+
+      throw error;
+    }
+  }
+
+  @Post('waitlist/:id/accept')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accept a waitlist offer (confirms the booking)' })
+  @ApiResponse({ status: 200, description: 'Offer accepted' })
+  @ApiResponse({ status: 404, description: 'Waitlist entry not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'No pending offer or offer expired',
+  })
+  async acceptWaitlistOffer(@Param('id') id: string) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      const result = await this.waitlistCommandService.acceptOffer(id);
+
+      this.logger.log({
+        requestId,
+        bookingId: result.id,
+        op: 'accept_waitlist_offer',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Accept waitlist offer failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'accept_waitlist_offer',
+      });
+
+      throw error;
+    }
+  }
+
+  @Post('blackouts/preview')
+  @Throttle(getThrottleConfig(100))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview the impact of a blackout without creating it',
+  })
+  @ApiResponse({ status: 200, description: 'Blackout impact' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({
+    status: 404,
+    description: 'Restaurant, sector, or table not found',
+  })
+  async previewBlackout(@Body() body: PreviewBlackoutRequest) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = PreviewBlackoutSchema.parse(body);
+
+      const result =
+        await this.blackoutCommandService.previewBlackout(validated);
+
+      this.logger.log({
+        requestId,
+        restaurantId: validated.restaurantId,
+        sectorId: validated.sectorId,
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+        op: 'preview_blackout',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Preview blackout failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'preview_blackout',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Post('blackouts')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a blackout' })
+  @ApiResponse({ status: 201, description: 'Blackout created' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({
+    status: 404,
+    description: 'Restaurant, sector, or table not found',
+  })
+  async createBlackout(@Body() body: CreateBlackoutRequest) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = CreateBlackoutSchema.parse(body);
+
+      this.logger.log({
+        requestId,
+        restaurantId: validated.restaurantId,
+        sectorId: validated.sectorId,
+        reason: validated.reason,
+        op: 'create_blackout',
+        outcome: 'success',
+      });
+
+      const result =
+        await this.blackoutCommandService.createBlackout(validated);
+
+      this.logger.log({
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+        op: 'create_blackout',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Create blackout failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'create_blackout',
+      });
+
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Get('blackouts')
+  @Throttle(getThrottleConfig(100))
+  @ApiOperation({ summary: 'List blackouts for a day' })
+  @ApiResponse({ status: 200, description: 'Blackouts listed' })
+  @ApiResponse({ status: 404, description: 'Restaurant or sector not found' })
+  async listBlackouts(@Query() query: ListBlackoutsQuery) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate query
+      const validated = ListBlackoutsQuerySchema.parse(query);
+
+      this.logger.log({
+        requestId,
+        sectorId: validated.sectorId,
+        op: 'list_blackouts',
+        outcome: 'success',
+      });
+
+      const result = await this.blackoutQueryService.listBlackouts(validated);
+
+      this.logger.log({
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+        op: 'list_blackouts',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('List blackouts failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'list_blackouts',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Patch('blackouts/:id')
+  @Throttle(getThrottleConfig(5))
+  @ApiOperation({
+    summary: 'Extend, shorten, move, retarget or re-reason a blackout',
+  })
+  @ApiResponse({ status: 200, description: 'Blackout updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Blackout not found' })
+  async updateBlackout(
+    @Param('id') id: string,
+    @Body() body: UpdateBlackoutRequest,
+  ) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = UpdateBlackoutSchema.parse(body);
+
+      const result = await this.blackoutCommandService.updateBlackout(
+        id,
+        validated,
+      );
+
+      this.logger.log({
+        requestId,
+        blackoutId: id,
+        op: 'update_blackout',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Update blackout failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'update_blackout',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Delete('blackouts/:id')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a blackout (or one occurrence of a recurring blackout)',
+  })
+  @ApiResponse({ status: 204, description: 'Blackout deleted' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Blackout not found' })
+  async deleteBlackout(
+    @Param('id') id: string,
+    @Query() query: DeleteBlackoutQuery,
+  ) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      const validated = DeleteBlackoutQuerySchema.parse(query);
+
+      await this.blackoutCommandService.deleteBlackout(id, validated.date);
+
+      this.logger.log({
+        requestId,
+        op: 'delete_blackout',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+    } catch (error: any) {
+      this.logger.error('Delete blackout failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'delete_blackout',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  @Post('service-windows')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a service window (weekly hours or date override)',
+  })
+  @ApiResponse({ status: 201, description: 'Service window created' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Restaurant not found' })
+  async createServiceWindow(@Body() body: CreateServiceWindowRequest) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = CreateServiceWindowSchema.parse(body);
+
+      const result =
+        await this.serviceWindowCommandService.createServiceWindow(validated);
+
+      this.logger.log({
+        requestId,
+        restaurantId: validated.restaurantId,
+        op: 'create_service_window',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Create service window failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'create_service_window',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Get('service-windows')
+  @Throttle(getThrottleConfig(100))
+  @ApiOperation({ summary: 'List service windows for a restaurant' })
+  @ApiResponse({ status: 200, description: 'Service windows listed' })
+  @ApiResponse({ status: 404, description: 'Restaurant not found' })
+  async listServiceWindows(@Query() query: ListServiceWindowsQuery) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate query
+      const validated = ListServiceWindowsQuerySchema.parse(query);
+
+      const result =
+        await this.serviceWindowQueryService.listServiceWindows(validated);
+
+      this.logger.log({
+        requestId,
+        restaurantId: validated.restaurantId,
+        op: 'list_service_windows',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('List service windows failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'list_service_windows',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Patch('service-windows/:id')
+  @Throttle(getThrottleConfig(5))
+  @ApiOperation({ summary: 'Update a service window' })
+  @ApiResponse({ status: 200, description: 'Service window updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Service window not found' })
+  async updateServiceWindow(
+    @Param('id') id: string,
+    @Body() body: UpdateServiceWindowRequest,
+  ) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = UpdateServiceWindowSchema.parse(body);
+
+      const result = await this.serviceWindowCommandService.updateServiceWindow(
+        id,
+        validated,
+      );
+
+      this.logger.log({
+        requestId,
+        serviceWindowId: id,
+        op: 'update_service_window',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Update service window failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'update_service_window',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Delete('service-windows/:id')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a service window' })
+  @ApiResponse({ status: 204, description: 'Service window deleted' })
+  @ApiResponse({ status: 404, description: 'Service window not found' })
+  async deleteServiceWindow(@Param('id') id: string) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      await this.serviceWindowCommandService.deleteServiceWindow(id);
+
+      this.logger.log({
+        requestId,
+        op: 'delete_service_window',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+    } catch (error: any) {
+      this.logger.error('Delete service window failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'delete_service_window',
+      });
+
+      throw error;
+    }
+  }
+
+  @Patch('restaurants/:id')
+  @Throttle(getThrottleConfig(5))
+  @ApiOperation({
+    summary: 'Update restaurant settings (e.g. selection strategy)',
+  })
+  @ApiResponse({ status: 200, description: 'Restaurant updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Restaurant not found' })
+  async updateRestaurant(
+    @Param('id') id: string,
+    @Body() body: UpdateRestaurantRequest,
+  ) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = UpdateRestaurantSchema.parse(body);
+
+      const result = await this.restaurantCommandService.updateRestaurant(
+        id,
+        validated,
+      );
+
+      this.logger.log({
+        requestId,
+        restaurantId: id,
+        op: 'update_restaurant',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Update restaurant failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'update_restaurant',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Patch('sectors/:id')
+  @Throttle(getThrottleConfig(5))
+  @ApiOperation({ summary: 'Update sector settings (e.g. pacing)' })
+  @ApiResponse({ status: 200, description: 'Sector updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Sector not found' })
+  async updateSector(
+    @Param('id') id: string,
+    @Body() body: UpdateSectorRequest,
+  ) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = UpdateSectorSchema.parse(body);
+
+      const result = await this.sectorCommandService.updateSector(
+        id,
+        validated,
+      );
+
+      this.logger.log({
+        requestId,
+        sectorId: id,
+        op: 'update_sector',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Update sector failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'update_sector',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Patch('tables/:id')
+  @Throttle(getThrottleConfig(5))
+  @ApiOperation({ summary: 'Update table settings (e.g. cleanup buffer)' })
+  @ApiResponse({ status: 200, description: 'Table updated' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Table not found' })
+  async updateTable(@Param('id') id: string, @Body() body: UpdateTableRequest) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = UpdateTableSchema.parse(body);
+
+      const result = await this.tableCommandService.updateTable(id, validated);
+
+      this.logger.log({
+        requestId,
+        tableId: id,
+        op: 'update_table',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Update table failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'update_table',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Post('table-adjacencies')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Mark two tables as joinable' })
+  @ApiResponse({ status: 201, description: 'Adjacency created' })
+  @ApiResponse({ status: 400, description: 'Invalid input' })
+  @ApiResponse({ status: 404, description: 'Sector or table not found' })
+  @ApiResponse({ status: 409, description: 'Tables are already adjacent' })
+  async createTableAdjacency(@Body() body: CreateTableAdjacencyRequest) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate body
+      const validated = CreateTableAdjacencySchema.parse(body);
+
+      const result =
+        await this.tableAdjacencyCommandService.createAdjacency(validated);
+
+      this.logger.log({
+        requestId,
+        sectorId: validated.sectorId,
+        op: 'create_table_adjacency',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Create table adjacency failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'create_table_adjacency',
+      });
+
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Get('table-adjacencies')
+  @Throttle(getThrottleConfig(100))
+  @ApiOperation({ summary: 'List joinable table pairs for a sector' })
+  @ApiResponse({ status: 200, description: 'Adjacencies listed' })
+  @ApiResponse({ status: 404, description: 'Sector not found' })
+  async listTableAdjacencies(@Query() query: ListTableAdjacenciesQuery) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      // Validate query
+      const validated = ListTableAdjacenciesQuerySchema.parse(query);
+
+      const result =
+        await this.tableAdjacencyQueryService.listAdjacencies(validated);
+
+      this.logger.log({
+        requestId,
+        sectorId: validated.sectorId,
+        op: 'list_table_adjacencies',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('List table adjacencies failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'list_table_adjacencies',
+      });
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      if (error.name === 'ZodError') {
+        throw new BadRequestException({
+          error: 'invalid_input',
+          detail: error.errors,
+        });
+      }
+
+      throw new BadRequestException({
+        error: 'invalid_input',
+        detail: error.message,
+      });
+    }
+  }
+
+  @Delete('table-adjacencies/:id')
+  @Throttle(getThrottleConfig(5))
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a joinable table pair' })
+  @ApiResponse({ status: 204, description: 'Adjacency deleted' })
+  @ApiResponse({ status: 404, description: 'Adjacency not found' })
+  async deleteTableAdjacency(@Param('id') id: string) {
+    const requestId = randomUUID();
+    const startTime = Date.now();
+
+    try {
+      await this.tableAdjacencyCommandService.deleteAdjacency(id);
+
+      this.logger.log({
+        requestId,
+        op: 'delete_table_adjacency',
+        durationMs: Date.now() - startTime,
+        outcome: 'success',
+      });
+    } catch (error: any) {
+      this.logger.error('Delete table adjacency failed', error, {
+        requestId,
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+        op: 'delete_table_adjacency',
+      });
 
       throw error;
     }
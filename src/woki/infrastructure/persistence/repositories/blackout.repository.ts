@@ -1,10 +1,22 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between } from 'typeorm';
+import {
+  Repository,
+  Between,
+  FindOptionsWhere,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  MoreThan,
+  Not,
+} from 'typeorm';
 import { Blackout } from '../../../domain/entities/blackout.entity';
 import { BlackoutRepository as IBlackoutRepository } from '../../../ports/repositories/blackout.repository.interface';
 import { startOfDay, endOfDay } from 'date-fns';
-import { zonedTimeToUtc } from 'date-fns-tz';
+import { ServiceWindowRule } from '../../../domain/types/service-window-rule.type';
+import { TimeInterval } from '../../../domain/types/time-interval.type';
+import { getServiceDayInterval } from '../../../domain/utils/service-day.util';
+import { expandBlackout } from '../../../domain/utils/blackout-recurrence.util';
 
 @Injectable()
 export class BlackoutRepository implements IBlackoutRepository {
@@ -22,42 +34,116 @@ export class BlackoutRepository implements IBlackoutRepository {
     sectorId: string,
     date: Date,
     timezone?: string,
+    serviceWindows: ServiceWindowRule[] = [],
   ): Promise<Blackout[]> {
-    // If timezone is provided, calculate day boundaries in that timezone
-    // Otherwise, use UTC (blackouts are stored in UTC)
-    let dayStart: Date;
-    let dayEnd: Date;
-
     if (timezone) {
-      // Extract year, month, day from the date
-      const year = date.getUTCFullYear();
-      const month = date.getUTCMonth();
-      const day = date.getUTCDate();
-
-      // Create a date string in the format YYYY-MM-DD
-      const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-
-      // Create start of day (00:00:00) in restaurant timezone, then convert to UTC
-      dayStart = zonedTimeToUtc(`${dateStr}T00:00:00`, timezone);
-
-      // Create end of day (23:59:59.999) in restaurant timezone, then convert to UTC
-      dayEnd = zonedTimeToUtc(`${dateStr}T23:59:59.999`, timezone);
-    } else {
-      // Fallback: use UTC day boundaries
-      dayStart = startOfDay(date);
-      dayEnd = endOfDay(date);
+      // Service day in the restaurant's timezone: extends past midnight when the
+      // day has a window crossing it, and starts after the previous night's one
+      const serviceDay = getServiceDayInterval(serviceWindows, date, timezone);
+
+      // Anything overlapping the service day, including blackouts spanning midnight
+      return this.findByInterval(restaurantId, sectorId, serviceDay);
     }
 
-    return this.repository.find({
+    // Fallback: use UTC day boundaries (blackouts are stored in UTC), including
+    // multi-day blackouts that started on an earlier day
+    const oneOff = await this.repository.find({
+      where: this.inSector(restaurantId, sectorId, {
+        recurrence: IsNull(),
+        start: LessThanOrEqual(endOfDay(date)),
+        end: MoreThan(startOfDay(date)),
+      }),
+    });
+    const occurrences = await this.findOccurrences(restaurantId, sectorId, {
+      start: startOfDay(date),
+      end: endOfDay(date),
+    });
+    return this.sortByStart([...oneOff, ...occurrences]);
+  }
+
+  async findByInterval(
+    restaurantId: string,
+    sectorId: string,
+    interval: TimeInterval,
+  ): Promise<Blackout[]> {
+    const oneOff = await this.repository.find({
+      where: this.inSector(restaurantId, sectorId, {
+        recurrence: IsNull(),
+        start: LessThan(interval.end),
+        end: MoreThan(interval.start),
+      }),
+    });
+    const occurrences = await this.findOccurrences(
+      restaurantId,
+      sectorId,
+      interval,
+    );
+    return this.sortByStart([...oneOff, ...occurrences]);
+  }
+
+  /**
+   * Blackouts of every sector (and restaurant-wide ones) overlapping an interval.
+   */
+  async findByRestaurantAndInterval(
+    restaurantId: string,
+    interval: TimeInterval,
+  ): Promise<Blackout[]> {
+    const oneOff = await this.repository.find({
       where: {
         restaurantId,
-        sectorId,
-        start: Between(dayStart, dayEnd),
+        recurrence: IsNull(),
+        start: LessThan(interval.end),
+        end: MoreThan(interval.start),
       },
-      order: {
-        start: 'ASC',
+    });
+    const series = await this.repository.find({
+      where: {
+        restaurantId,
+        recurrence: Not(IsNull()),
+        start: LessThan(interval.end),
       },
     });
+    return this.sortByStart([
+      ...oneOff,
+      ...series.flatMap((blackout) => expandBlackout(blackout, interval)),
+    ]);
+  }
+
+  /**
+   * Occurrences of the sector's recurring blackouts overlapping an interval.
+   */
+  private async findOccurrences(
+    restaurantId: string,
+    sectorId: string,
+    interval: TimeInterval,
+  ): Promise<Blackout[]> {
+    // Series that started before the interval ends
+    const series = await this.repository.find({
+      where: this.inSector(restaurantId, sectorId, {
+        recurrence: Not(IsNull()),
+        start: LessThan(interval.end),
+      }),
+    });
+    return series.flatMap((blackout) => expandBlackout(blackout, interval));
+  }
+
+  /**
+   * Conditions matching the sector's own blackouts and restaurant-wide ones
+   * (no sector), which apply to every sector.
+   */
+  private inSector(
+    restaurantId: string,
+    sectorId: string,
+    where: FindOptionsWhere<Blackout>,
+  ): FindOptionsWhere<Blackout>[] {
+    return [
+      { ...where, restaurantId, sectorId },
+      { ...where, restaurantId, sectorId: IsNull() },
+    ];
+  }
+
+  private sortByStart(blackouts: Blackout[]): Blackout[] {
+    return blackouts.sort((a, b) => a.start.getTime() - b.start.getTime());
   }
 
   async findByTableIdsAndDate(
@@ -1,11 +1,23 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between } from 'typeorm';
+import {
+  Repository,
+  Between,
+  In,
+  LessThan,
+  LessThanOrEqual,
+  MoreThan,
+} from 'typeorm';
 import { Booking } from '../../../domain/entities/booking.entity';
-import { BookingStatus } from '../../../domain/types/booking-status.enum';
+import {
+  BookingStatus,
+  OCCUPYING_BOOKING_STATUSES,
+} from '../../../domain/types/booking-status.enum';
 import { BookingRepository as IBookingRepository } from '../../../ports/repositories/booking.repository.interface';
 import { startOfDay, endOfDay } from 'date-fns';
-import { zonedTimeToUtc } from 'date-fns-tz';
+import { ServiceWindowRule } from '../../../domain/types/service-window-rule.type';
+import { TimeInterval } from '../../../domain/types/time-interval.type';
+import { getServiceDayInterval } from '../../../domain/utils/service-day.util';
 
 @Injectable()
 export class BookingRepository implements IBookingRepository {
@@ -23,40 +35,60 @@ export class BookingRepository implements IBookingRepository {
     sectorId: string,
     date: Date,
     timezone?: string,
+    serviceWindows: ServiceWindowRule[] = [],
   ): Promise<Booking[]> {
-    // If timezone is provided, calculate day boundaries in that timezone
-    // Otherwise, use UTC (bookings are stored in UTC)
-    let dayStart: Date;
-    let dayEnd: Date;
-
     if (timezone) {
-      // The date parameter is a Date object representing a day (e.g., from parseISO('2025-10-22'))
-      // We need to interpret this as a date in the restaurant's timezone
-      // Extract year, month, day from the date
-      const year = date.getUTCFullYear();
-      const month = date.getUTCMonth();
-      const day = date.getUTCDate();
-
-      // Create a date string in the format YYYY-MM-DD and parse it in the restaurant's timezone
-      const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-
-      // Create start of day (00:00:00) in restaurant timezone, then convert to UTC
-      dayStart = zonedTimeToUtc(`${dateStr}T00:00:00`, timezone);
+      // Service day in the restaurant's timezone: extends past midnight when the
+      // day has a window crossing it, and starts after the previous night's one
+      const serviceDay = getServiceDayInterval(serviceWindows, date, timezone);
 
-      // Create end of day (23:59:59.999) in restaurant timezone, then convert to UTC
-      dayEnd = zonedTimeToUtc(`${dateStr}T23:59:59.999`, timezone);
-    } else {
-      // Fallback: use UTC day boundaries
-      dayStart = startOfDay(date);
-      dayEnd = endOfDay(date);
+      // Anything overlapping the service day, including bookings spanning midnight
+      return this.findByInterval(restaurantId, sectorId, serviceDay);
     }
 
+    // Fallback: use UTC day boundaries (bookings are stored in UTC)
     return this.repository.find({
       where: {
         restaurantId,
         sectorId,
-        start: Between(dayStart, dayEnd),
-        status: BookingStatus.CONFIRMED,
+        start: Between(startOfDay(date), endOfDay(date)),
+        status: In(OCCUPYING_BOOKING_STATUSES),
+      },
+      order: {
+        start: 'ASC',
+      },
+    });
+  }
+
+  async findByInterval(
+    restaurantId: string,
+    sectorId: string,
+    interval: TimeInterval,
+  ): Promise<Booking[]> {
+    return this.repository.find({
+      where: {
+        restaurantId,
+        sectorId,
+        start: LessThan(interval.end),
+        end: MoreThan(interval.start),
+        status: In(OCCUPYING_BOOKING_STATUSES),
+      },
+      order: {
+        start: 'ASC',
+      },
+    });
+  }
+
+  async findByRestaurantAndInterval(
+    restaurantId: string,
+    interval: TimeInterval,
+  ): Promise<Booking[]> {
+    return this.repository.find({
+      where: {
+        restaurantId,
+        start: LessThan(interval.end),
+        end: MoreThan(interval.start),
+        status: In(OCCUPYING_BOOKING_STATUSES),
       },
       order: {
         start: 'ASC',
@@ -76,7 +108,7 @@ export class BookingRepository implements IBookingRepository {
     const bookings = await this.repository.find({
       where: {
         start: Between(dayStart, dayEnd),
-        status: BookingStatus.CONFIRMED,
+        status: In(OCCUPYING_BOOKING_STATUSES),
       },
     });
 
@@ -86,6 +118,25 @@ export class BookingRepository implements IBookingRepository {
     );
   }
 
+  async findByGuestId(guestId: string): Promise<Booking[]> {
+    // Full history across sectors and statuses (cancelled bookings included)
+    return this.repository.find({
+      where: { guestId },
+      order: {
+        start: 'ASC',
+      },
+    });
+  }
+
+  async findExpiredHolds(now: Date): Promise<Booking[]> {
+    return this.repository.find({
+      where: {
+        status: BookingStatus.HELD,
+        holdExpiresAt: LessThanOrEqual(now),
+      },
+    });
+  }
+
   async create(booking: Booking): Promise<Booking> {
     const newBooking = this.repository.create(booking);
     return this.repository.save(newBooking);
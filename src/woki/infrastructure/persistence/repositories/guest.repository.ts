@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Guest } from '../../../domain/entities/guest.entity';
+import { GuestRepository as IGuestRepository } from '../../../ports/repositories/guest.repository.interface';
+
+@Injectable()
+export class GuestRepository implements IGuestRepository {
+  constructor(
+    @InjectRepository(Guest)
+    private readonly repository: Repository<Guest>,
+  ) {}
+
+  async findById(id: string): Promise<Guest | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findByIds(ids: string[]): Promise<Guest[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.repository.find({ where: { id: In(ids) } });
+  }
+
+  async findByContact(
+    restaurantId: string,
+    email: string | null,
+    phone: string | null,
+  ): Promise<Guest | null> {
+    // Email is the strongest identifier, fall back to phone
+    if (email) {
+      const byEmail = await this.repository.findOne({
+        where: { restaurantId, email },
+      });
+      if (byEmail) {
+        return byEmail;
+      }
+    }
+
+    if (phone) {
+      return this.repository.findOne({ where: { restaurantId, phone } });
+    }
+
+    return null;
+  }
+
+  async create(guest: Guest): Promise<Guest> {
+    const newGuest = this.repository.create(guest);
+    return this.repository.save(newGuest);
+  }
+
+  async update(guest: Guest): Promise<Guest> {
+    return this.repository.save(guest);
+  }
+}
@@ -14,4 +14,8 @@ export class RestaurantRepository implements IRestaurantRepository {
   async findById(id: string): Promise<Restaurant | null> {
     return this.repository.findOne({ where: { id } });
   }
+
+  async update(restaurant: Restaurant): Promise<Restaurant> {
+    return this.repository.save(restaurant);
+  }
 }
@@ -18,4 +18,8 @@ export class SectorRepository implements ISectorRepository {
   async findByRestaurantId(restaurantId: string): Promise<Sector[]> {
     return this.repository.find({ where: { restaurantId } });
   }
+
+  async update(sector: Sector): Promise<Sector> {
+    return this.repository.save(sector);
+  }
 }
@@ -11,10 +11,27 @@ export class ServiceWindowRepository implements IServiceWindowRepository {
     private readonly repository: Repository<ServiceWindow>,
   ) {}
 
+  async findById(id: string): Promise<ServiceWindow | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
   async findByRestaurantId(restaurantId: string): Promise<ServiceWindow[]> {
     return this.repository.find({
       where: { restaurantId },
       order: { start: 'ASC' },
     });
   }
+
+  async create(window: ServiceWindow): Promise<ServiceWindow> {
+    const newWindow = this.repository.create(window);
+    return this.repository.save(newWindow);
+  }
+
+  async update(window: ServiceWindow): Promise<ServiceWindow> {
+    return this.repository.save(window);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.repository.delete(id);
+  }
 }
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TableAdjacency } from '../../../domain/entities/table-adjacency.entity';
+import { TableAdjacencyRepository as ITableAdjacencyRepository } from '../../../ports/repositories/table-adjacency.repository.interface';
+
+@Injectable()
+export class TableAdjacencyRepository implements ITableAdjacencyRepository {
+  constructor(
+    @InjectRepository(TableAdjacency)
+    private readonly repository: Repository<TableAdjacency>,
+  ) {}
+
+  async findById(id: string): Promise<TableAdjacency | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findBySectorId(sectorId: string): Promise<TableAdjacency[]> {
+    return this.repository.find({
+      where: { sectorId },
+      order: { tableAId: 'ASC', tableBId: 'ASC' },
+    });
+  }
+
+  async create(adjacency: TableAdjacency): Promise<TableAdjacency> {
+    const newAdjacency = this.repository.create(adjacency);
+    return this.repository.save(newAdjacency);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.repository.delete(id);
+  }
+}
@@ -25,4 +25,8 @@ export class TableRepository implements ITableRepository {
     }
     return this.repository.find({ where: { id: In(ids) } });
   }
+
+  async update(table: Table): Promise<Table> {
+    return this.repository.save(table);
+  }
 }
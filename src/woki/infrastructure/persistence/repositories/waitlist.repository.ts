@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WaitlistEntry } from '../../../domain/entities/waitlist-entry.entity';
+import { WaitlistStatus } from '../../../domain/types/waitlist-status.enum';
+import { WaitlistRepository as IWaitlistRepository } from '../../../ports/repositories/waitlist.repository.interface';
+
+@Injectable()
+export class WaitlistRepository implements IWaitlistRepository {
+  constructor(
+    @InjectRepository(WaitlistEntry)
+    private readonly repository: Repository<WaitlistEntry>,
+  ) {}
+
+  async findById(id: string): Promise<WaitlistEntry | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findByStatus(
+    restaurantId: string,
+    sectorId: string,
+    date: string,
+    status: WaitlistStatus,
+  ): Promise<WaitlistEntry[]> {
+    return this.repository.find({
+      where: { restaurantId, sectorId, date, status },
+      // id breaks ties between entries created in the same millisecond
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async create(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const newEntry = this.repository.create(entry);
+    return this.repository.save(newEntry);
+  }
+
+  async update(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    return this.repository.save(entry);
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BookingCommandService } from '../../application/services/booking-command.service';
+import { LoggerService } from '../logging/logger.service';
+import { AllConfigType } from '../../../config/config.type';
+
+/**
+ * Periodically moves expired holds to EXPIRED.
+ *
+ * Discovery already ignores expired holds on its own; the sweep keeps statuses
+ * accurate and lets the waitlist react to the freed capacity.
+ */
+@Injectable()
+export class HoldExpirySweeperService implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly bookingCommandService: BookingCommandService,
+    private readonly configService: ConfigService<AllConfigType>,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalSeconds = this.configService.getOrThrow(
+      'woki.holdSweepIntervalSeconds',
+      { infer: true },
+    );
+
+    this.timer = setInterval(() => {
+      void this.sweep();
+    }, intervalSeconds * 1000);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one sweep. Overlapping runs are skipped.
+   */
+  async sweep(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    const startTime = Date.now();
+    try {
+      const expired = await this.bookingCommandService.expireHolds();
+
+      if (expired > 0) {
+        this.logger.log({
+          op: 'sweep_expired_holds',
+          expired,
+          durationMs: Date.now() - startTime,
+          outcome: 'success',
+        });
+      }
+
+      return expired;
+    } catch (error) {
+      this.logger.error('Hold expiry sweep failed', error as Error, {
+        op: 'sweep_expired_holds',
+        durationMs: Date.now() - startTime,
+        outcome: 'error',
+      });
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
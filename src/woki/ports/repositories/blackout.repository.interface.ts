@@ -1,3 +1,5 @@
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { TimeInterval } from '../../domain/types/time-interval.type';
 import { Blackout } from '../../domain/entities/blackout.entity';
 
 export interface BlackoutRepository {
@@ -7,6 +9,16 @@ export interface BlackoutRepository {
     sectorId: string,
     date: Date,
     timezone?: string,
+    serviceWindows?: ServiceWindowRule[],
+  ): Promise<Blackout[]>;
+  findByInterval(
+    restaurantId: string,
+    sectorId: string,
+    interval: TimeInterval,
+  ): Promise<Blackout[]>;
+  findByRestaurantAndInterval(
+    restaurantId: string,
+    interval: TimeInterval,
   ): Promise<Blackout[]>;
   findByTableIdsAndDate(tableIds: string[], date: Date): Promise<Blackout[]>;
   create(blackout: Blackout): Promise<Blackout>;
@@ -1,3 +1,5 @@
+import { ServiceWindowRule } from '../../domain/types/service-window-rule.type';
+import { TimeInterval } from '../../domain/types/time-interval.type';
 import { Booking } from '../../domain/entities/booking.entity';
 
 export interface BookingRepository {
@@ -7,8 +9,20 @@ export interface BookingRepository {
     sectorId: string,
     date: Date,
     timezone?: string,
+    serviceWindows?: ServiceWindowRule[],
+  ): Promise<Booking[]>;
+  findByInterval(
+    restaurantId: string,
+    sectorId: string,
+    interval: TimeInterval,
+  ): Promise<Booking[]>;
+  findByRestaurantAndInterval(
+    restaurantId: string,
+    interval: TimeInterval,
   ): Promise<Booking[]>;
   findByTableIdsAndDate(tableIds: string[], date: Date): Promise<Booking[]>;
+  findByGuestId(guestId: string): Promise<Booking[]>;
+  findExpiredHolds(now: Date): Promise<Booking[]>;
   create(booking: Booking): Promise<Booking>;
   update(booking: Booking): Promise<Booking>;
   delete(id: string): Promise<void>;
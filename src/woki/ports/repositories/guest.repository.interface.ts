@@ -0,0 +1,13 @@
+import { Guest } from '../../domain/entities/guest.entity';
+
+export interface GuestRepository {
+  findById(id: string): Promise<Guest | null>;
+  findByIds(ids: string[]): Promise<Guest[]>;
+  findByContact(
+    restaurantId: string,
+    email: string | null,
+    phone: string | null,
+  ): Promise<Guest | null>;
+  create(guest: Guest): Promise<Guest>;
+  update(guest: Guest): Promise<Guest>;
+}
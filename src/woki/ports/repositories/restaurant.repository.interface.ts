@@ -2,4 +2,5 @@ import { Restaurant } from '../../domain/entities/restaurant.entity';
 
 export interface RestaurantRepository {
   findById(id: string): Promise<Restaurant | null>;
+  update(restaurant: Restaurant): Promise<Restaurant>;
 }
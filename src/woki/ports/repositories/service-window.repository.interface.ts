@@ -1,5 +1,9 @@
 import { ServiceWindow } from '../../domain/entities/service-window.entity';
 
 export interface ServiceWindowRepository {
+  findById(id: string): Promise<ServiceWindow | null>;
   findByRestaurantId(restaurantId: string): Promise<ServiceWindow[]>;
+  create(window: ServiceWindow): Promise<ServiceWindow>;
+  update(window: ServiceWindow): Promise<ServiceWindow>;
+  delete(id: string): Promise<void>;
 }
@@ -0,0 +1,8 @@
+import { TableAdjacency } from '../../domain/entities/table-adjacency.entity';
+
+export interface TableAdjacencyRepository {
+  findById(id: string): Promise<TableAdjacency | null>;
+  findBySectorId(sectorId: string): Promise<TableAdjacency[]>;
+  create(adjacency: TableAdjacency): Promise<TableAdjacency>;
+  delete(id: string): Promise<void>;
+}
@@ -4,4 +4,5 @@ export interface TableRepository {
   findById(id: string): Promise<Table | null>;
   findBySectorId(sectorId: string): Promise<Table[]>;
   findByIds(ids: string[]): Promise<Table[]>;
+  update(table: Table): Promise<Table>;
 }
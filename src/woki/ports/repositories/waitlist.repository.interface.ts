@@ -0,0 +1,14 @@
+import { WaitlistEntry } from '../../domain/entities/waitlist-entry.entity';
+import { WaitlistStatus } from '../../domain/types/waitlist-status.enum';
+
+export interface WaitlistRepository {
+  findById(id: string): Promise<WaitlistEntry | null>;
+  findByStatus(
+    restaurantId: string,
+    sectorId: string,
+    date: string,
+    status: WaitlistStatus,
+  ): Promise<WaitlistEntry[]>; // FIFO (oldest first)
+  create(entry: WaitlistEntry): Promise<WaitlistEntry>;
+  update(entry: WaitlistEntry): Promise<WaitlistEntry>;
+}
@@ -7,3 +7,6 @@ export const BOOKING_REPOSITORY = Symbol('BookingRepository');
 export const SERVICE_WINDOW_REPOSITORY = Symbol('ServiceWindowRepository');
 export const BLACKOUT_REPOSITORY = Symbol('BlackoutRepository');
 export const IDEMPOTENCY_REPOSITORY = Symbol('IdempotencyRepository');
+export const GUEST_REPOSITORY = Symbol('GuestRepository');
+export const WAITLIST_REPOSITORY = Symbol('WaitlistRepository');
+export const TABLE_ADJACENCY_REPOSITORY = Symbol('TableAdjacencyRepository');
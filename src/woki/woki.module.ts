@@ -9,6 +9,9 @@ import { Booking } from './domain/entities/booking.entity';
 import { Blackout } from './domain/entities/blackout.entity';
 import { ServiceWindow } from './domain/entities/service-window.entity';
 import { Idempotency } from './domain/entities/idempotency.entity';
+import { Guest } from './domain/entities/guest.entity';
+import { WaitlistEntry } from './domain/entities/waitlist-entry.entity';
+import { TableAdjacency } from './domain/entities/table-adjacency.entity';
 import { RestaurantRepository } from './infrastructure/persistence/repositories/restaurant.repository';
 import { SectorRepository } from './infrastructure/persistence/repositories/sector.repository';
 import { TableRepository } from './infrastructure/persistence/repositories/table.repository';
@@ -16,19 +19,40 @@ import { BookingRepository } from './infrastructure/persistence/repositories/boo
 import { BlackoutRepository } from './infrastructure/persistence/repositories/blackout.repository';
 import { ServiceWindowRepository } from './infrastructure/persistence/repositories/service-window.repository';
 import { IdempotencyRepository } from './infrastructure/persistence/repositories/idempotency.repository';
+import { GuestRepository } from './infrastructure/persistence/repositories/guest.repository';
+import { WaitlistRepository } from './infrastructure/persistence/repositories/waitlist.repository';
+import { TableAdjacencyRepository } from './infrastructure/persistence/repositories/table-adjacency.repository';
 import { ThrottlerExceptionFilter } from './infrastructure/rate-limiting/throttler-exception.filter';
 import { SeedService } from './infrastructure/persistence/seed.service';
 import { GapDiscoveryService } from './domain/services/gap-discovery.service';
+import { PacingService } from './domain/services/pacing.service';
 import { ComboCalculatorService } from './domain/services/combo-calculator.service';
 import { WokiBrainSelectorService } from './domain/services/wokibrain-selector.service';
+import { BookingLifecycleService } from './domain/services/booking-lifecycle.service';
 import { LockManagerService } from './infrastructure/locking/lock-manager.service';
 import { IdempotencyService } from './infrastructure/idempotency/idempotency.service';
 import { LoggerService } from './infrastructure/logging/logger.service';
 import { MetricsService } from './infrastructure/metrics/metrics.service';
+import { CapacityEventsService } from './infrastructure/events/capacity-events.service';
+import { HoldExpirySweeperService } from './infrastructure/scheduling/hold-expiry-sweeper.service';
 import { BookingQueryService } from './application/services/booking-query.service';
 import { BookingCommandService } from './application/services/booking-command.service';
 import { BlackoutQueryService } from './application/services/blackout-query.service';
 import { BlackoutCommandService } from './application/services/blackout-command.service';
+import { GuestQueryService } from './application/services/guest-query.service';
+import { GuestCommandService } from './application/services/guest-command.service';
+import { WaitlistQueryService } from './application/services/waitlist-query.service';
+import { ServiceWindowQueryService } from './application/services/service-window-query.service';
+import { ServiceWindowCommandService } from './application/services/service-window-command.service';
+import { WaitlistCommandService } from './application/services/waitlist-command.service';
+import { TableAdjacencyQueryService } from './application/services/table-adjacency-query.service';
+import { TableAdjacencyCommandService } from './application/services/table-adjacency-command.service';
+import { RestaurantCommandService } from './application/services/restaurant-command.service';
+import { SectorCommandService } from './application/services/sector-command.service';
+import { TableCommandService } from './application/services/table-command.service';
+import { AvailabilityQueryService } from './application/services/availability-query.service';
+import { BookingAlternativesService } from './application/services/booking-alternatives.service';
+import { SlotLockService } from './application/services/slot-lock.service';
 import { WokiController } from './infrastructure/http/woki.controller';
 import {
   RESTAURANT_REPOSITORY,
@@ -38,6 +62,9 @@ import {
   BLACKOUT_REPOSITORY,
   SERVICE_WINDOW_REPOSITORY,
   IDEMPOTENCY_REPOSITORY,
+  GUEST_REPOSITORY,
+  WAITLIST_REPOSITORY,
+  TABLE_ADJACENCY_REPOSITORY,
 } from './tokens';
 
 @Module({
@@ -50,6 +77,9 @@ import {
       Blackout,
       ServiceWindow,
       Idempotency,
+      Guest,
+      WaitlistEntry,
+      TableAdjacency,
     ]),
     ThrottlerModule.forRoot({
       throttlers: [
@@ -64,13 +94,17 @@ import {
   providers: [
     // Domain services
     GapDiscoveryService,
+    PacingService,
     ComboCalculatorService,
     WokiBrainSelectorService,
+    BookingLifecycleService,
     // Infrastructure services
     LockManagerService,
     IdempotencyService,
     LoggerService,
     MetricsService,
+    CapacityEventsService,
+    HoldExpirySweeperService,
     SeedService,
     // Repositories (implementations)
     RestaurantRepository,
@@ -80,6 +114,9 @@ import {
     BlackoutRepository,
     ServiceWindowRepository,
     IdempotencyRepository,
+    GuestRepository,
+    WaitlistRepository,
+    TableAdjacencyRepository,
     // Repository interfaces (provide tokens, use implementations)
     {
       provide: RESTAURANT_REPOSITORY,
@@ -109,11 +146,37 @@ import {
       provide: IDEMPOTENCY_REPOSITORY,
       useClass: IdempotencyRepository,
     },
+    {
+      provide: GUEST_REPOSITORY,
+      useClass: GuestRepository,
+    },
+    {
+      provide: WAITLIST_REPOSITORY,
+      useClass: WaitlistRepository,
+    },
+    {
+      provide: TABLE_ADJACENCY_REPOSITORY,
+      useClass: TableAdjacencyRepository,
+    },
     // Application services
     BookingQueryService,
     BookingCommandService,
     BlackoutQueryService,
     BlackoutCommandService,
+    GuestQueryService,
+    GuestCommandService,
+    WaitlistQueryService,
+    WaitlistCommandService,
+    ServiceWindowQueryService,
+    ServiceWindowCommandService,
+    TableAdjacencyQueryService,
+    TableAdjacencyCommandService,
+    RestaurantCommandService,
+    SectorCommandService,
+    TableCommandService,
+    AvailabilityQueryService,
+    BookingAlternativesService,
+    SlotLockService,
     // Rate limiting
     {
       provide: APP_GUARD,
@@ -84,6 +84,8 @@ describe('WokiBrain Blackout API (e2e)', () => {
     if (dataSource && dataSource.isInitialized) {
       try {
         await dataSource.query(`DELETE FROM bookings WHERE id != 'B1'`);
+        // Back to the restaurant's buffer
+        await dataSource.query(`UPDATE tables SET bufferMinutes = NULL`);
       } catch {
         // Table might not exist yet, ignore
       }
@@ -598,4 +600,653 @@ describe('WokiBrain Blackout API (e2e)', () => {
       expect(t1Blackouts.length).toBe(2);
     });
   });
+
+  describe('6. Relocation mode: Move affected bookings instead of cancelling', () => {
+    const book = (key: string, partySize: number) =>
+      request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', key)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '22:00',
+          windowEnd: '23:00',
+        })
+        .expect(201);
+
+    const blackout = (body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          startTime: '21:30',
+          endTime: '23:30',
+          reason: 'MAINTENANCE',
+          mode: 'relocate',
+          ...body,
+        })
+        .expect(201);
+
+    const dayBookings = async () =>
+      (
+        await request(app.getHttpServer())
+          .get('/api/woki/bookings/day')
+          .query({ restaurantId: 'R1', sectorId: 'S1', date: '2025-10-22' })
+          .expect(200)
+      ).body.items as Array<{ id: string; tableIds: string[]; status: string }>;
+
+    it('should move a booking off a broken table at the same time', async () => {
+      const booking = await book('relocate-single', 2);
+      const [brokenTable] = booking.body.tableIds;
+
+      const response = await blackout({ tableIds: [brokenTable] });
+
+      expect(response.body.cancelledBookingIds).toEqual([]);
+      expect(response.body.relocatedBookings).toHaveLength(1);
+      expect(response.body.relocatedBookings[0]).toMatchObject({
+        bookingId: booking.body.id,
+        fromSectorId: 'S1',
+        fromTableIds: [brokenTable],
+        sectorId: 'S1',
+      });
+      expect(response.body.relocatedBookings[0].tableIds).not.toContain(
+        brokenTable,
+      );
+
+      const moved = (await dayBookings()).find((b) => b.id === booking.body.id);
+      expect(moved).toMatchObject({
+        status: 'CONFIRMED',
+        tableIds: response.body.relocatedBookings[0].tableIds,
+      });
+    });
+
+    it('should not give two relocated bookings the same tables', async () => {
+      const first = await book('relocate-first', 2);
+      const second = await book('relocate-second', 2);
+
+      const response = await blackout({
+        tableIds: [...first.body.tableIds, ...second.body.tableIds],
+      });
+
+      const moved = response.body.relocatedBookings.flatMap(
+        (r: { tableIds: string[] }) => r.tableIds,
+      );
+      expect(response.body.relocatedBookings).toHaveLength(2);
+      expect(response.body.cancelledBookingIds).toEqual([]);
+      expect(new Set(moved).size).toBe(moved.length);
+    });
+
+    it('should cancel bookings that cannot be moved', async () => {
+      const booking = await book('relocate-sector', 2);
+
+      // The whole (only) sector is closed: nowhere to go
+      const response = await blackout({ tableIds: [] });
+
+      expect(response.body.relocatedBookings).toEqual([]);
+      expect(response.body.cancelledBookingIds).toContain(booking.body.id);
+    });
+
+    it('should keep cancelling by default', async () => {
+      const booking = await book('relocate-default', 2);
+
+      const response = await blackout({
+        tableIds: booking.body.tableIds,
+        mode: undefined,
+      });
+
+      expect(response.body.relocatedBookings).toEqual([]);
+      expect(response.body.cancelledBookingIds).toEqual([booking.body.id]);
+    });
+  });
+
+  describe('7. Preview: Impact of a blackout before creating it', () => {
+    const preview = (body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .post('/api/woki/blackouts/preview')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          startTime: '22:00',
+          endTime: '22:30',
+          reason: 'MAINTENANCE',
+          ...body,
+        });
+
+    const bookAt22 = (key: string) =>
+      request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', key)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '22:00',
+          windowEnd: '23:00',
+        })
+        .expect(201);
+
+    it('should report cancellations, covers and capacity without persisting', async () => {
+      const booking = await bookAt22('preview-booking');
+      const [table] = booking.body.tableIds;
+
+      const response = await preview({ tableIds: [table] }).expect(200);
+
+      expect(response.body.cancelledBookings).toEqual([
+        expect.objectContaining({
+          id: booking.body.id,
+          partySize: 2,
+          status: 'CONFIRMED',
+        }),
+      ]);
+      expect(response.body.relocatedBookings).toEqual([]);
+      expect(response.body.coversLost).toBe(2);
+      expect(response.body.capacityBySlot).toEqual([
+        { start: '2025-10-22T22:00:00-03:00', tableIds: [table], seats: 2 },
+        { start: '2025-10-22T22:15:00-03:00', tableIds: [table], seats: 2 },
+      ]);
+
+      // Nothing was created or cancelled
+      const blackouts = await request(app.getHttpServer())
+        .get('/api/woki/blackouts')
+        .query({ restaurantId: 'R1', sectorId: 'S1', date: '2025-10-22' })
+        .expect(200);
+      expect(blackouts.body.items).toEqual([]);
+
+      const day = await request(app.getHttpServer())
+        .get('/api/woki/bookings/day')
+        .query({ restaurantId: 'R1', sectorId: 'S1', date: '2025-10-22' })
+        .expect(200);
+      expect(
+        day.body.items.find((b: { id: string }) => b.id === booking.body.id)
+          .status,
+      ).toBe('CONFIRMED');
+    });
+
+    it('should preview relocations with mode=relocate', async () => {
+      const booking = await bookAt22('preview-relocate');
+
+      const response = await preview({
+        tableIds: booking.body.tableIds,
+        mode: 'relocate',
+      }).expect(200);
+
+      expect(response.body.cancelledBookings).toEqual([]);
+      expect(response.body.coversLost).toBe(0);
+      expect(response.body.relocatedBookings).toEqual([
+        expect.objectContaining({ bookingId: booking.body.id }),
+      ]);
+    });
+
+    it('should validate like creating the blackout', async () => {
+      await preview({ tableIds: ['T999'] }).expect(404);
+      await preview({ startTime: '23:00', endTime: '22:00' }).expect(400);
+    });
+  });
+
+  describe('8. Recurring blackouts: Repeating schedules and single-occurrence deletes', () => {
+    // Every Wednesday from 2025-10-22, T1 20:00-22:00
+    const createWeekly = (body: Record<string, unknown> = {}) =>
+      request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          tableIds: ['T1'],
+          date: '2025-10-22',
+          startTime: '20:00',
+          endTime: '22:00',
+          reason: 'MAINTENANCE',
+          recurrence: { frequency: 'weekly' },
+          ...body,
+        });
+
+    const listOn = async (date: string) =>
+      (
+        await request(app.getHttpServer())
+          .get('/api/woki/blackouts')
+          .query({ restaurantId: 'R1', sectorId: 'S1', date })
+          .expect(200)
+      ).body.items as Array<{ id: string; start: string; end: string }>;
+
+    it('should list each occurrence on its own day', async () => {
+      const response = await createWeekly({
+        recurrence: { frequency: 'weekly', count: 3 },
+      }).expect(201);
+
+      expect(response.body.recurrence).toEqual({
+        frequency: 'weekly',
+        interval: 1,
+        byWeekday: null,
+        until: null,
+        count: 3,
+        exceptions: [],
+      });
+
+      expect(await listOn('2025-10-29')).toEqual([
+        expect.objectContaining({
+          id: response.body.id,
+          start: '2025-10-29T20:00:00-03:00',
+          end: '2025-10-29T22:00:00-03:00',
+        }),
+      ]);
+      // Not a Wednesday, and past the third occurrence
+      expect(await listOn('2025-10-30')).toEqual([]);
+      expect(await listOn('2025-11-12')).toEqual([]);
+    });
+
+    it('should block discovery on later occurrences', async () => {
+      await createWeekly().expect(201);
+
+      const response = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-11-05',
+          partySize: 2,
+          duration: 60,
+          windowStart: '20:00',
+          windowEnd: '22:00',
+        })
+        .expect(200);
+
+      expect(
+        response.body.candidates.filter((c: { tableIds: string[] }) =>
+          c.tableIds.includes('T1'),
+        ),
+      ).toEqual([]);
+    });
+
+    it('should cancel bookings on any occurrence', async () => {
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'recurring-later-week')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-29',
+          windowStart: '20:00',
+          windowEnd: '21:00',
+        })
+        .expect(201);
+
+      const response = await createWeekly({
+        tableIds: booking.body.tableIds,
+      }).expect(201);
+
+      expect(response.body.cancelledBookingIds).toEqual([booking.body.id]);
+    });
+
+    it('should delete a single occurrence or the whole series', async () => {
+      const created = await createWeekly().expect(201);
+      const id = created.body.id;
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/blackouts/${id}`)
+        .query({ date: '2025-10-29' })
+        .expect(204);
+
+      expect(await listOn('2025-10-29')).toEqual([]);
+      expect(await listOn('2025-11-05')).toHaveLength(1);
+
+      // The occurrence is already gone
+      await request(app.getHttpServer())
+        .delete(`/api/woki/blackouts/${id}`)
+        .query({ date: '2025-10-29' })
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/blackouts/${id}`)
+        .expect(204);
+
+      expect(await listOn('2025-10-22')).toEqual([]);
+      expect(await listOn('2025-11-05')).toEqual([]);
+    });
+
+    it('should reject invalid recurrence rules', async () => {
+      await createWeekly({
+        recurrence: { frequency: 'weekly', until: '2025-12-31', count: 3 },
+      }).expect(400);
+      await createWeekly({
+        recurrence: { frequency: 'daily', byWeekday: [3] },
+      }).expect(400);
+      await createWeekly({
+        recurrence: { frequency: 'weekly', until: '2025-10-01' },
+      }).expect(400);
+      // 2025-10-22 is a Wednesday
+      await createWeekly({
+        recurrence: { frequency: 'weekly', byWeekday: [1, 5] },
+      }).expect(400);
+
+      // Occurrence deletes only apply to recurring blackouts
+      const oneOff = await createWeekly({ recurrence: undefined }).expect(201);
+      await request(app.getHttpServer())
+        .delete(`/api/woki/blackouts/${oneOff.body.id}`)
+        .query({ date: '2025-10-22' })
+        .expect(400);
+    });
+  });
+
+  describe('9. Multi-day and restaurant-wide blackouts', () => {
+    const listOn = async (date: string) =>
+      (
+        await request(app.getHttpServer())
+          .get('/api/woki/blackouts')
+          .query({ restaurantId: 'R1', sectorId: 'S1', date })
+          .expect(200)
+      ).body.items as Array<{ id: string; sectorId: string | null }>;
+
+    const discoverT1 = async (date: string) =>
+      (
+        await request(app.getHttpServer())
+          .get('/api/woki/discover')
+          .query({
+            restaurantId: 'R1',
+            sectorId: 'S1',
+            date,
+            partySize: 2,
+            duration: 60,
+            windowStart: '20:00',
+            windowEnd: '22:00',
+          })
+          .expect(200)
+      ).body.candidates.filter((c: { tableIds: string[] }) =>
+        c.tableIds.includes('T1'),
+      );
+
+    it('should block every day a multi-day blackout spans', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          tableIds: ['T1'],
+          date: '2025-10-22',
+          endDate: '2025-10-24',
+          startTime: '12:00',
+          endTime: '16:00',
+          reason: 'MAINTENANCE',
+        })
+        .expect(201);
+
+      expect(response.body.start).toBe('2025-10-22T12:00:00-03:00');
+      expect(response.body.end).toBe('2025-10-24T16:00:00-03:00');
+
+      // Listed on each day it touches
+      for (const date of ['2025-10-22', '2025-10-23', '2025-10-24']) {
+        expect((await listOn(date)).map((b) => b.id)).toEqual([
+          response.body.id,
+        ]);
+      }
+      expect(await listOn('2025-10-25')).toEqual([]);
+
+      // The whole evening of the middle day is blocked
+      expect(await discoverT1('2025-10-23')).toEqual([]);
+      expect((await discoverT1('2025-10-24')).length).toBeGreaterThan(0);
+    });
+
+    it('should close every sector with a restaurant-wide blackout', async () => {
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'restaurant-wide-victim')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '22:00',
+          windowEnd: '23:00',
+        })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          date: '2025-10-22',
+          startTime: '21:30',
+          endTime: '23:45',
+          reason: 'PRIVATE_EVENT',
+        })
+        .expect(201);
+
+      expect(response.body.sectorId).toBeNull();
+      expect(response.body.tableIds).toEqual([]);
+      expect(response.body.cancelledBookingIds).toContain(booking.body.id);
+
+      // Applies to the sector's listing and availability
+      expect(await listOn('2025-10-22')).toEqual([
+        expect.objectContaining({ id: response.body.id, sectorId: null }),
+      ]);
+      await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'restaurant-wide-blocked')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '22:00',
+          windowEnd: '23:00',
+        })
+        .expect(409);
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/blackouts/${response.body.id}`)
+        .expect(204);
+      expect(await listOn('2025-10-22')).toEqual([]);
+    });
+
+    it('should return 400 when endDate is before date', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          endDate: '2025-10-21',
+          startTime: '12:00',
+          endTime: '16:00',
+          reason: 'MAINTENANCE',
+        })
+        .expect(400);
+    });
+  });
+
+  describe('10. Edit blackouts: Re-evaluate and restore bookings', () => {
+    // Bookings that have already started are not restored
+    const date = '2030-10-23';
+
+    const bookAt22 = (key: string) =>
+      request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', key)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date,
+          windowStart: '22:00',
+          windowEnd: '23:00',
+        })
+        .expect(201);
+
+    const createBlackout = (body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date,
+          startTime: '20:00',
+          endTime: '21:00',
+          reason: 'MAINTENANCE',
+          ...body,
+        })
+        .expect(201);
+
+    const patch = (id: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .patch(`/api/woki/blackouts/${id}`)
+        .send(body);
+
+    // Cancelled bookings are not listed, so read the row itself
+    const statusOf = async (bookingId: string) =>
+      (
+        await dataSource.query(`SELECT status FROM bookings WHERE id = ?`, [
+          bookingId,
+        ])
+      )[0].status;
+
+    it('should cancel bookings an extension now covers and restore them when shortened again', async () => {
+      const booking = await bookAt22('edit-extend');
+      const created = await createBlackout({
+        tableIds: booking.body.tableIds,
+      });
+      expect(created.body.cancelledBookingIds).toEqual([]);
+
+      const extended = await patch(created.body.id, {
+        endTime: '23:00',
+      }).expect(200);
+      expect(extended.body.end).toBe(`${date}T23:00:00-03:00`);
+      expect(extended.body.cancelledBookingIds).toEqual([booking.body.id]);
+      expect(extended.body.restoredBookingIds).toEqual([]);
+      expect(await statusOf(booking.body.id)).toBe('CANCELLED');
+
+      const shortened = await patch(created.body.id, {
+        endTime: '21:30',
+      }).expect(200);
+      expect(shortened.body.cancelledBookingIds).toEqual([]);
+      expect(shortened.body.restoredBookingIds).toEqual([booking.body.id]);
+      expect(await statusOf(booking.body.id)).toBe('CONFIRMED');
+    });
+
+    it('should restore bookings when retargeted to other tables', async () => {
+      const booking = await bookAt22('edit-retarget');
+      const [table] = booking.body.tableIds;
+      const otherTable = table === 'T4' ? 'T3' : 'T4';
+
+      const created = await createBlackout({
+        tableIds: [table],
+        startTime: '21:30',
+        endTime: '23:30',
+      });
+      expect(created.body.cancelledBookingIds).toEqual([booking.body.id]);
+
+      const retargeted = await patch(created.body.id, {
+        tableIds: [otherTable],
+      }).expect(200);
+      expect(retargeted.body.tableIds).toEqual([otherTable]);
+      expect(retargeted.body.start).toBe(`${date}T21:30:00-03:00`);
+      expect(retargeted.body.restoredBookingIds).toEqual([booking.body.id]);
+      expect(await statusOf(booking.body.id)).toBe('CONFIRMED');
+    });
+
+    it('should not restore a booking another blackout now blocks', async () => {
+      const booking = await bookAt22('edit-blocked');
+      const created = await createBlackout({
+        tableIds: booking.body.tableIds,
+        startTime: '21:30',
+        endTime: '23:30',
+      });
+      expect(created.body.cancelledBookingIds).toEqual([booking.body.id]);
+
+      // A second blackout on the same tables was added in the meantime
+      await createBlackout({
+        tableIds: booking.body.tableIds,
+        startTime: '22:00',
+        endTime: '23:00',
+        reason: 'PRIVATE_EVENT',
+      });
+
+      const moved = await patch(created.body.id, {
+        startTime: '12:00',
+        endTime: '13:00',
+      }).expect(200);
+      expect(moved.body.restoredBookingIds).toEqual([]);
+      expect(await statusOf(booking.body.id)).toBe('CANCELLED');
+    });
+
+    it("should not restore a booking only another booking's buffer now blocks", async () => {
+      const booking = await bookAt22('edit-buffer');
+      const [table] = booking.body.tableIds;
+
+      // Right after it on the same table (22:00-23:00, then 23:00-23:45)
+      const next = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'edit-buffer-next')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 45,
+          date,
+          windowStart: '23:00',
+          windowEnd: '23:45',
+        })
+        .expect(201);
+      expect(next.body.tableIds).toEqual([table]);
+
+      const created = await createBlackout({
+        tableIds: [table],
+        startTime: '21:30',
+        endTime: '23:00',
+      });
+      expect(created.body.cancelledBookingIds).toEqual([booking.body.id]);
+
+      // Cleanup time after each booking on the table, set in the meantime
+      await request(app.getHttpServer())
+        .patch(`/api/woki/tables/${table}`)
+        .send({ bufferMinutes: 15 })
+        .expect(200);
+
+      const moved = await patch(created.body.id, {
+        startTime: '12:00',
+        endTime: '13:00',
+      }).expect(200);
+      expect(moved.body.restoredBookingIds).toEqual([]);
+      expect(await statusOf(booking.body.id)).toBe('CANCELLED');
+    });
+
+    it('should update reason and notes without touching bookings', async () => {
+      const created = await createBlackout({ tableIds: ['T1'] });
+
+      const response = await patch(created.body.id, {
+        reason: 'PRIVATE_EVENT',
+        notes: 'Birthday party',
+      }).expect(200);
+
+      expect(response.body).toMatchObject({
+        id: created.body.id,
+        reason: 'PRIVATE_EVENT',
+        notes: 'Birthday party',
+        start: created.body.start,
+        end: created.body.end,
+        cancelledBookingIds: [],
+        restoredBookingIds: [],
+      });
+    });
+
+    it('should validate like creating the blackout', async () => {
+      const created = await createBlackout({ tableIds: ['T1'] });
+
+      await patch('BLK_NOTFOUND', { notes: 'x' }).expect(404);
+      await patch(created.body.id, {}).expect(400);
+      await patch(created.body.id, { startTime: '21:30' }).expect(400);
+      await patch(created.body.id, { tableIds: ['T999'] }).expect(404);
+    });
+  });
 });
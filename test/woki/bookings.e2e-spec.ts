@@ -6,6 +6,7 @@ import { SeedService } from '../../src/woki/infrastructure/persistence/seed.serv
 import { DataSource } from 'typeorm';
 import { IdempotencyService } from '../../src/woki/infrastructure/idempotency/idempotency.service';
 import { LockManagerService } from '../../src/woki/infrastructure/locking/lock-manager.service';
+import { HoldExpirySweeperService } from '../../src/woki/infrastructure/scheduling/hold-expiry-sweeper.service';
 import { Booking } from '../../src/woki/domain/entities/booking.entity';
 import { BookingStatus } from '../../src/woki/domain/types/booking-status.enum';
 import { zonedTimeToUtc } from 'date-fns-tz';
@@ -88,6 +89,21 @@ describe('WokiBrain Booking API (e2e)', () => {
         await dataSource.query(`DELETE FROM bookings WHERE id != 'B1'`);
         // Clean idempotency table
         await dataSource.query(`DELETE FROM idempotency`);
+        // Clean guest profiles created by previous tests
+        await dataSource.query(`DELETE FROM guests`);
+        // Clean waitlist entries and blackouts created by waitlist tests
+        await dataSource.query(`DELETE FROM waitlist_entries`);
+        await dataSource.query(`DELETE FROM blackouts`);
+        // Clean the adjacency graph (no edges = any tables can be joined)
+        await dataSource.query(`DELETE FROM table_adjacencies`);
+        // Back to the configured selection strategy
+        await dataSource.query(
+          `UPDATE restaurants SET selectionStrategy = NULL, sectorPreference = NULL, durationRules = NULL, bufferMinutes = 0, pacing = NULL, slotMinutes = 15`,
+        );
+        await dataSource.query(`UPDATE sectors SET pacing = NULL`);
+        await dataSource.query(
+          `UPDATE tables SET bufferMinutes = NULL, attributes = NULL`,
+        );
       } catch {
         // If table doesn't exist yet, it's OK - it will be created by the seed
         // This can happen on the first test before seed runs
@@ -522,6 +538,1821 @@ describe('WokiBrain Booking API (e2e)', () => {
     });
   });
 
+  describe('7. Guests: Contact details and booking history', () => {
+    it('should store guest details and return them on the booking', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-guest-create-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '16:00',
+          guest: {
+            name: 'Ada Lovelace',
+            email: 'Ada@Example.com',
+            phone: '+5491100000000',
+            notes: 'Anniversary',
+            dietaryTags: ['vegetarian'],
+          },
+        })
+        .expect(201);
+
+      expect(response.body.guest).toMatchObject({
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        phone: '+5491100000000',
+        notes: 'Anniversary',
+        dietaryTags: ['vegetarian'],
+      });
+      expect(response.body.guest.id).toMatch(/^GST_/);
+
+      const list = await request(app.getHttpServer())
+        .get('/api/woki/bookings/day')
+        .query({ restaurantId: 'R1', sectorId: 'S1', date: '2025-10-22' })
+        .expect(200);
+
+      const listed = list.body.items.find(
+        (item: any) => item.id === response.body.id,
+      );
+      expect(listed.guest.id).toBe(response.body.guest.id);
+
+      // Seed booking has no guest attached
+      const seed = list.body.items.find((item: any) => item.id === 'B1');
+      expect(seed.guest).toBeNull();
+    });
+
+    it('should reuse the guest profile and expose booking history', async () => {
+      const guest = { name: 'Grace Hopper', email: 'grace@example.com' };
+
+      const first = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-guest-history-1-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '16:00',
+          guest,
+        })
+        .expect(201);
+
+      const second = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-guest-history-2-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-23',
+          windowStart: '12:00',
+          windowEnd: '16:00',
+          guest,
+        })
+        .expect(201);
+
+      expect(second.body.guest.id).toBe(first.body.guest.id);
+
+      const history = await request(app.getHttpServer())
+        .get(`/api/woki/guests/${first.body.guest.id}`)
+        .expect(200);
+
+      expect(history.body.name).toBe('Grace Hopper');
+      expect(history.body.bookings.map((b: any) => b.id)).toEqual([
+        first.body.id,
+        second.body.id,
+      ]);
+      expect(history.body.bookings[0].sectorId).toBe('S1');
+    });
+
+    it('should return 404 for unknown guest', async () => {
+      await request(app.getHttpServer())
+        .get('/api/woki/guests/GST_UNKNOWN')
+        .expect(404)
+        .expect((res) => {
+          expect(res.body.error).toBe('not_found');
+        });
+    });
+
+    it('should return 400 when guest has neither phone nor email', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-guest-invalid-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          guest: { name: 'Anonymous' },
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_input');
+        });
+    });
+  });
+
+  describe('8. Reschedule: PATCH an existing booking', () => {
+    const createLunchBooking = async (partySize: number) => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-patch-${partySize}-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(201);
+      return response.body;
+    };
+
+    it('should keep the current table when extending the duration', async () => {
+      const booking = await createLunchBooking(2);
+
+      const response = await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.id}`)
+        .send({ durationMinutes: 90 })
+        .expect(200);
+
+      expect(response.body.id).toBe(booking.id);
+      expect(response.body.tableIds).toEqual(booking.tableIds);
+      expect(response.body.durationMinutes).toBe(90);
+      expect(response.body.start).toBe('2025-10-22T12:00:00-03:00');
+      expect(response.body.end).toBe('2025-10-22T13:30:00-03:00');
+    });
+
+    it('should move the booking to a new window', async () => {
+      const booking = await createLunchBooking(2);
+
+      const response = await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.id}`)
+        .send({ windowStart: '12:30', windowEnd: '13:30' })
+        .expect(200);
+
+      expect(response.body.tableIds).toEqual(booking.tableIds);
+      expect(response.body.start).toBe('2025-10-22T12:30:00-03:00');
+      expect(response.body.end).toBe('2025-10-22T13:30:00-03:00');
+    });
+
+    it('should move to a larger table when the party grows', async () => {
+      const booking = await createLunchBooking(2);
+      expect(booking.tableIds).toEqual(['T1']); // T1 seats at most 2
+
+      const response = await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.id}`)
+        .send({ partySize: 4 })
+        .expect(200);
+
+      expect(response.body.partySize).toBe(4);
+      expect(response.body.tableIds).not.toContain('T1');
+      expect(response.body.start).toBe('2025-10-22T12:00:00-03:00');
+    });
+
+    it('should return 409 when the new size cannot be seated', async () => {
+      const booking = await createLunchBooking(2);
+
+      await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.id}`)
+        .send({ partySize: 30 })
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('no_capacity');
+        });
+    });
+
+    it('should return 409 when modifying a cancelled booking', async () => {
+      const booking = await createLunchBooking(2);
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/bookings/${booking.id}`)
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.id}`)
+        .send({ partySize: 3 })
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_state');
+        });
+    });
+
+    it('should return 404 for non-existent booking', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/bookings/BK_UNKNOWN')
+        .send({ partySize: 3 })
+        .expect(404);
+    });
+
+    it('should return 400 for empty body', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/bookings/B1')
+        .send({})
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_input');
+        });
+    });
+  });
+
+  describe('9. Lifecycle: Arrive, seat, complete and no-show', () => {
+    const createLunchBooking = async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-lifecycle-${Date.now()}-${Math.random()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(201);
+      return response.body;
+    };
+
+    it('should move a booking through arrive, seat and complete', async () => {
+      const booking = await createLunchBooking();
+      expect(booking.arrivedAt).toBeNull();
+
+      const arrived = await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/arrive`)
+        .expect(200);
+      expect(arrived.body.status).toBe('ARRIVED');
+      expect(arrived.body.arrivedAt).not.toBeNull();
+
+      const seated = await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/seat`)
+        .expect(200);
+      expect(seated.body.status).toBe('SEATED');
+      expect(seated.body.seatedAt).not.toBeNull();
+
+      const completed = await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/complete`)
+        .expect(200);
+      expect(completed.body.status).toBe('COMPLETED');
+      expect(completed.body.completedAt).not.toBeNull();
+    });
+
+    it('should keep seated bookings in the day list and blocking capacity', async () => {
+      const booking = await createLunchBooking();
+
+      await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/seat`)
+        .expect(200);
+
+      const list = await request(app.getHttpServer())
+        .get('/api/woki/bookings/day')
+        .query({ restaurantId: 'R1', sectorId: 'S1', date: '2025-10-22' })
+        .expect(200);
+      const listed = list.body.items.find((i: any) => i.id === booking.id);
+      expect(listed.status).toBe('SEATED');
+      expect(listed.seatedAt).not.toBeNull();
+
+      const discover = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(200);
+      const sameTable = discover.body.candidates.filter(
+        (c: any) =>
+          c.kind === 'single' && c.tableIds[0] === booking.tableIds[0],
+      );
+      expect(sameTable).toEqual([]);
+    });
+
+    it('should release capacity when marked as no-show', async () => {
+      const booking = await createLunchBooking();
+
+      const response = await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/no-show`)
+        .expect(200);
+      expect(response.body.status).toBe('NO_SHOW');
+      expect(response.body.noShowAt).not.toBeNull();
+
+      // The same table is bookable again
+      const rebooked = await createLunchBooking();
+      expect(rebooked.tableIds).toEqual(booking.tableIds);
+    });
+
+    it('should return 409 for invalid transitions', async () => {
+      const booking = await createLunchBooking();
+
+      await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/complete`)
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_transition');
+        });
+
+      await request(app.getHttpServer())
+        .post(`/api/woki/bookings/${booking.id}/seat`)
+        .expect(200);
+
+      // Seated parties cannot be cancelled
+      await request(app.getHttpServer())
+        .delete(`/api/woki/bookings/${booking.id}`)
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_transition');
+        });
+    });
+
+    it('should return 404 for non-existent booking', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/bookings/BK_UNKNOWN/seat')
+        .expect(404);
+    });
+  });
+
+  describe('10. Waitlist: Offers when capacity frees up', () => {
+    const lunchRequest = {
+      restaurantId: 'R1',
+      sectorId: 'S1',
+      partySize: 2,
+      durationMinutes: 60,
+      date: '2025-10-22',
+      windowStart: '12:00',
+      windowEnd: '13:00',
+    };
+
+    const blockLunch = async (tableIds: string[]) => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          tableIds,
+          date: '2025-10-22',
+          startTime: '12:00',
+          endTime: '13:00',
+          reason: 'MAINTENANCE',
+        })
+        .expect(201);
+      return response.body;
+    };
+
+    const joinWaitlist = async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/waitlist')
+        .send(lunchRequest)
+        .expect(201);
+      return response.body;
+    };
+
+    it('should offer the freed table to the first waiting entry on cancel', async () => {
+      // Only T1 is left for lunch, and it gets booked
+      await blockLunch(['T2', 'T3', 'T4', 'T5']);
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-waitlist-${Date.now()}`)
+        .send(lunchRequest)
+        .expect(201);
+
+      const first = await joinWaitlist();
+      const second = await joinWaitlist();
+      expect(first.status).toBe('WAITING');
+      expect(first.offer).toBeNull();
+      expect(second.status).toBe('WAITING');
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/bookings/${booking.body.id}`)
+        .expect(204);
+
+      const offered = await request(app.getHttpServer())
+        .get(`/api/woki/waitlist/${first.id}`)
+        .expect(200);
+      expect(offered.body.status).toBe('OFFERED');
+      expect(offered.body.offer.tableIds).toEqual(['T1']);
+      expect(offered.body.offer.start).toBe('2025-10-22T12:00:00-03:00');
+      expect(offered.body.offer.end).toBe('2025-10-22T13:00:00-03:00');
+      expect(offered.body.offer.expiresAt).not.toBeNull();
+      // WOKI_WAITLIST_OFFER_TTL_SECONDS from now (default 900)
+      const offerTtlMs = Date.parse(offered.body.offer.expiresAt) - Date.now();
+      expect(offerTtlMs).toBeGreaterThan(14 * 60 * 1000);
+      expect(offerTtlMs).toBeLessThanOrEqual(15 * 60 * 1000);
+
+      // FIFO: the second entry keeps waiting
+      const stillWaiting = await request(app.getHttpServer())
+        .get(`/api/woki/waitlist/${second.id}`)
+        .expect(200);
+      expect(stillWaiting.body.status).toBe('WAITING');
+      expect(stillWaiting.body.offer).toBeNull();
+
+      const accepted = await request(app.getHttpServer())
+        .post(`/api/woki/waitlist/${first.id}/accept`)
+        .expect(200);
+      expect(accepted.body.id).toBe(offered.body.offer.bookingId);
+      expect(accepted.body.status).toBe('CONFIRMED');
+      expect(accepted.body.holdExpiresAt).toBeNull();
+
+      const entry = await request(app.getHttpServer())
+        .get(`/api/woki/waitlist/${first.id}`)
+        .expect(200);
+      expect(entry.body.status).toBe('ACCEPTED');
+    });
+
+    it('should offer a hold when a blackout is removed', async () => {
+      const blackout = await blockLunch(['T1', 'T2', 'T3', 'T4', 'T5']);
+
+      const entry = await joinWaitlist();
+      expect(entry.status).toBe('WAITING');
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/blackouts/${blackout.id}`)
+        .expect(204);
+
+      const offered = await request(app.getHttpServer())
+        .get(`/api/woki/waitlist/${entry.id}`)
+        .expect(200);
+      expect(offered.body.status).toBe('OFFERED');
+
+      // The hold blocks its table for other guests
+      const discover = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(200);
+      const heldTable = offered.body.offer.tableIds[0];
+      expect(
+        discover.body.candidates.filter(
+          (c: any) => c.kind === 'single' && c.tableIds[0] === heldTable,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should offer immediately when capacity is already free', async () => {
+      const entry = await joinWaitlist();
+
+      expect(entry.status).toBe('OFFERED');
+      expect(entry.offer.bookingId).toBeDefined();
+    });
+
+    it('should return 409 when accepting an entry without an offer', async () => {
+      await blockLunch(['T1', 'T2', 'T3', 'T4', 'T5']);
+      const entry = await joinWaitlist();
+
+      await request(app.getHttpServer())
+        .post(`/api/woki/waitlist/${entry.id}/accept`)
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_state');
+        });
+    });
+
+    it('should keep joins and cancellations working while the waitlist is locked', async () => {
+      await blockLunch(['T2', 'T3', 'T4', 'T5']);
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-waitlist-locked-${Date.now()}`)
+        .send(lunchRequest)
+        .expect(201);
+
+      // Another waitlist pass holds the lock past its timeout
+      const lock = await lockManagerService.acquire(
+        'waitlist|R1|S1|2025-10-22',
+      );
+      try {
+        const [joined, cancelled] = await Promise.all([
+          request(app.getHttpServer())
+            .post('/api/woki/waitlist')
+            .send(lunchRequest),
+          request(app.getHttpServer()).delete(
+            `/api/woki/bookings/${booking.body.id}`,
+          ),
+        ]);
+
+        expect(joined.status).toBe(201);
+        expect(joined.body.status).toBe('WAITING');
+        expect(cancelled.status).toBe(204);
+      } finally {
+        lock.release();
+      }
+    }, 15000);
+
+    it('should return 404 for non-existent waitlist entry', async () => {
+      await request(app.getHttpServer())
+        .get('/api/woki/waitlist/WL_UNKNOWN')
+        .expect(404);
+    });
+  });
+
+  describe('11. Holds: Tentative reservations that expire', () => {
+    const holdRequest = {
+      restaurantId: 'R1',
+      sectorId: 'S1',
+      partySize: 2,
+      durationMinutes: 60,
+      date: '2025-10-22',
+      windowStart: '12:00',
+      windowEnd: '13:00',
+    };
+
+    it('should hold a slot, block it and confirm it with guest details', async () => {
+      const hold = await request(app.getHttpServer())
+        .post('/api/woki/holds')
+        .send(holdRequest)
+        .expect(201);
+      expect(hold.body.status).toBe('HELD');
+      expect(hold.body.holdExpiresAt).not.toBeNull();
+      expect(hold.body.start).toBe('2025-10-22T12:00:00-03:00');
+      expect(hold.body.end).toBe('2025-10-22T13:00:00-03:00');
+
+      const discover = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(200);
+      expect(
+        discover.body.candidates.filter(
+          (c: any) =>
+            c.kind === 'single' && c.tableIds[0] === hold.body.tableIds[0],
+        ),
+      ).toEqual([]);
+
+      const confirmed = await request(app.getHttpServer())
+        .post(`/api/woki/holds/${hold.body.id}/confirm`)
+        .send({ guest: { name: 'Ana Pérez', email: 'ana@example.com' } })
+        .expect(200);
+      expect(confirmed.body.status).toBe('CONFIRMED');
+      expect(confirmed.body.holdExpiresAt).toBeNull();
+      expect(confirmed.body.guest.email).toBe('ana@example.com');
+    });
+
+    it('should sweep expired holds and reject confirming them', async () => {
+      const hold = await request(app.getHttpServer())
+        .post('/api/woki/holds')
+        .send(holdRequest)
+        .expect(201);
+
+      // Simulate the TTL running out
+      await dataSource
+        .getRepository(Booking)
+        .update(hold.body.id, { holdExpiresAt: new Date(Date.now() - 1000) });
+
+      const expired = await app.get(HoldExpirySweeperService).sweep();
+      expect(expired).toBe(1);
+
+      const swept = await dataSource
+        .getRepository(Booking)
+        .findOneBy({ id: hold.body.id });
+      expect(swept?.status).toBe(BookingStatus.EXPIRED);
+
+      await request(app.getHttpServer())
+        .post(`/api/woki/holds/${hold.body.id}/confirm`)
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('hold_expired');
+        });
+
+      // The table is free again
+      const rehold = await request(app.getHttpServer())
+        .post('/api/woki/holds')
+        .send(holdRequest)
+        .expect(201);
+      expect(rehold.body.tableIds).toEqual(hold.body.tableIds);
+    });
+
+    it('should return 409 when confirming a booking that is not held', async () => {
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-hold-${Date.now()}`)
+        .send(holdRequest)
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post(`/api/woki/holds/${booking.body.id}/confirm`)
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_transition');
+        });
+    });
+
+    it('should return 404 for non-existent hold', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/holds/BK_UNKNOWN/confirm')
+        .expect(404);
+    });
+  });
+
+  describe('12. Table adjacency: Only joinable tables form combos', () => {
+    const createAdjacency = (tableIds: string[]) =>
+      request(app.getHttpServer())
+        .post('/api/woki/table-adjacencies')
+        .send({ sectorId: 'S1', tableIds });
+
+    it('should create, list and delete adjacencies', async () => {
+      const created = await createAdjacency(['T5', 'T4']).expect(201);
+      expect(created.body.id).toMatch(/^ADJ_/);
+      expect(created.body.tableIds).toEqual(['T4', 'T5']);
+
+      // Edges are undirected: the reverse pair is a duplicate
+      await createAdjacency(['T4', 'T5'])
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('already_exists');
+        });
+
+      await createAdjacency(['T4', 'T4']).expect(400);
+      await createAdjacency(['T4', 'T99']).expect(404);
+
+      const listed = await request(app.getHttpServer())
+        .get('/api/woki/table-adjacencies')
+        .query({ sectorId: 'S1' })
+        .expect(200);
+      expect(listed.body.items).toHaveLength(1);
+      expect(listed.body.items[0].id).toBe(created.body.id);
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/table-adjacencies/${created.body.id}`)
+        .expect(204);
+      await request(app.getHttpServer())
+        .delete(`/api/woki/table-adjacencies/${created.body.id}`)
+        .expect(404);
+    });
+
+    it('should only combine tables connected in the adjacency graph', async () => {
+      await createAdjacency(['T4', 'T5']).expect(201);
+      await createAdjacency(['T2', 'T3']).expect(201);
+
+      // No single table seats 8
+      const response = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 8,
+          duration: 60,
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(200);
+
+      const combos = new Set(
+        response.body.candidates.map((c: any) =>
+          [...c.tableIds].sort().join('+'),
+        ),
+      );
+      expect([...combos].sort()).toEqual(['T2+T3', 'T4+T5']);
+    });
+  });
+
+  describe('13. Selection strategies: Per request or per restaurant', () => {
+    // Party of 5 at lunch: T4 (4-6) fits alone, or two smaller tables combined
+    const discover = (strategy?: string) =>
+      request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 5,
+          duration: 60,
+          windowStart: '12:00',
+          windowEnd: '13:00',
+          ...(strategy ? { strategy } : {}),
+        });
+
+    it('should rank candidates with the requested strategy', async () => {
+      const byDefault = await discover().expect(200);
+      expect(byDefault.body.candidates[0].tableIds).toEqual(['T4']);
+
+      const preserving = await discover('preserve-large-tables').expect(200);
+      expect(preserving.body.candidates[0].kind).toBe('combo');
+      expect(preserving.body.candidates[0].tableIds).not.toContain('T4');
+
+      await discover('random').expect(400);
+    });
+
+    it("should use the restaurant's strategy unless the request overrides it", async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ selectionStrategy: 'preserve-large-tables' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.selectionStrategy).toBe('preserve-large-tables');
+        });
+
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-strategy-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 5,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(201);
+      expect(booking.body.tableIds).not.toContain('T4');
+
+      const overridden = await discover('default').expect(200);
+      expect(overridden.body.candidates[0].tableIds).toEqual(['T4']);
+    });
+  });
+
+  describe('14. Explain mode: Why a party got its tables', () => {
+    // Party of 3 while B1 holds T2: only T3 fits
+    const query = {
+      restaurantId: 'R1',
+      sectorId: 'S1',
+      date: '2025-10-22',
+      partySize: 3,
+      duration: 45,
+      windowStart: '20:30',
+      windowEnd: '21:15',
+    };
+
+    it('should explain candidates and rejected tables on discover', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({ ...query, explain: 'true' })
+        .expect(200);
+
+      const { explanation } = response.body;
+      expect(explanation.strategy).toBe('default');
+      expect(explanation.candidates).toHaveLength(1);
+      expect(explanation.candidates[0]).toMatchObject({
+        tableIds: ['T3'],
+        rank: 1,
+        scores: { emptySeats: 1, tableCount: 1, largestTable: 4 },
+      });
+      expect(explanation.rejectedTables).toEqual([
+        { tableId: 'T1', reasons: ['capacity'] },
+        { tableId: 'T2', reasons: ['overlapping_booking'] },
+        { tableId: 'T4', reasons: ['capacity'] },
+        { tableId: 'T5', reasons: ['capacity'] },
+      ]);
+
+      const plain = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query(query)
+        .expect(200);
+      expect(plain.body.explanation).toBeUndefined();
+    });
+
+    it('should explain the booking assignment, including no capacity', async () => {
+      const body = {
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        partySize: 3,
+        durationMinutes: 45,
+        date: '2025-10-22',
+        windowStart: '20:30',
+        windowEnd: '21:15',
+      };
+
+      await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          tableIds: ['T3'],
+          date: '2025-10-22',
+          startTime: '20:00',
+          endTime: '21:00',
+          reason: 'MAINTENANCE',
+        })
+        .expect(201);
+
+      const rejected = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .query({ explain: 'true' })
+        .set('Idempotency-Key', `test-explain-409-${Date.now()}`)
+        .send(body)
+        .expect(409);
+      expect(rejected.body.error).toBe('no_capacity');
+      expect(rejected.body.explanation.candidates).toEqual([]);
+      expect(rejected.body.explanation.rejectedTables).toContainEqual({
+        tableId: 'T3',
+        reasons: ['blackout'],
+      });
+
+      await dataSource.query(`DELETE FROM blackouts`);
+
+      const created = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .query({ explain: 'true' })
+        .set('Idempotency-Key', `test-explain-201-${Date.now()}`)
+        .send(body)
+        .expect(201);
+      expect(created.body.tableIds).toEqual(['T3']);
+      expect(created.body.explanation.candidates[0].tableIds).toEqual(['T3']);
+    });
+  });
+
+  describe('15. Availability calendar: One request for a date range', () => {
+    const calendar = (overrides: Record<string, unknown> = {}) =>
+      request(app.getHttpServer())
+        .get('/api/woki/availability/calendar')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          from: '2025-10-21',
+          to: '2025-10-23',
+          partySize: 2,
+          duration: 60,
+          ...overrides,
+        });
+
+    it('should summarize bookable slots per day', async () => {
+      // Dinner closed on the 23rd
+      await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-23',
+          startTime: '20:00',
+          endTime: '23:45',
+          reason: 'PRIVATE_EVENT',
+        })
+        .expect(201);
+
+      const response = await calendar().expect(200);
+
+      expect(response.body.days).toHaveLength(3);
+      // Lunch 12:00-15:00 (13 starts) + dinner 20:00-22:45 (12 starts)
+      expect(response.body.days[0]).toEqual({
+        date: '2025-10-21',
+        available: true,
+        slots: 25,
+        earliestStart: '2025-10-21T12:00:00-03:00',
+        latestStart: '2025-10-21T22:45:00-03:00',
+      });
+      // B1 only occupies T2; other tables keep every slot
+      expect(response.body.days[1].slots).toBe(25);
+      expect(response.body.days[2]).toMatchObject({
+        date: '2025-10-23',
+        slots: 13,
+        latestStart: '2025-10-23T15:00:00-03:00',
+      });
+    });
+
+    it('should report days without any slot as unavailable', async () => {
+      const response = await calendar({ partySize: 30 }).expect(200);
+
+      expect(
+        response.body.days.every(
+          (day: { available: boolean; slots: number }) =>
+            !day.available && day.slots === 0,
+        ),
+      ).toBe(true);
+    });
+
+    it('should validate the date range', async () => {
+      await calendar({ from: '2025-10-23', to: '2025-10-21' }).expect(400);
+      await calendar({ to: '2026-01-31' }).expect(400);
+      await calendar({ restaurantId: 'R999' }).expect(404);
+    });
+  });
+
+  describe('16. All sectors: Discovery and booking without a sectorId', () => {
+    // A terrace with a single table for 2-6
+    beforeAll(async () => {
+      await dataSource.query(
+        `INSERT INTO sectors (id, restaurantId, name, createdAt, updatedAt)
+         VALUES ('S2', 'R1', 'Terrace', datetime('now'), datetime('now'))`,
+      );
+      await dataSource.query(
+        `INSERT INTO tables (id, sectorId, name, minSize, maxSize, createdAt, updatedAt)
+         VALUES ('T6', 'S2', 'Terrace 1', 2, 6, datetime('now'), datetime('now'))`,
+      );
+    });
+
+    afterAll(async () => {
+      await dataSource.query(`DELETE FROM tables WHERE id = 'T6'`);
+      await dataSource.query(`DELETE FROM sectors WHERE id = 'S2'`);
+    });
+
+    const discover = () =>
+      request(app.getHttpServer()).get('/api/woki/discover').query({
+        restaurantId: 'R1',
+        date: '2025-10-22',
+        partySize: 5,
+        duration: 60,
+        windowStart: '12:00',
+        windowEnd: '13:00',
+      });
+
+    it('should search every sector and tag candidates with their sector', async () => {
+      const response = await discover().expect(200);
+
+      const singles = response.body.candidates.filter(
+        (c: { kind: string }) => c.kind === 'single',
+      );
+      expect(singles).toEqual([
+        expect.objectContaining({ sectorId: 'S1', tableIds: ['T4'] }),
+        expect.objectContaining({ sectorId: 'S2', tableIds: ['T6'] }),
+      ]);
+      // Tables of different sectors are never combined
+      for (const candidate of response.body.candidates) {
+        expect(candidate.tableIds.includes('T6')).toBe(
+          candidate.sectorId === 'S2',
+        );
+      }
+    });
+
+    it("should follow the restaurant's sector preference", async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ sectorPreference: ['S2', 'S1'] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.sectorPreference).toEqual(['S2', 'S1']);
+        });
+
+      const response = await discover().expect(200);
+      expect(response.body.candidates[0]).toMatchObject({
+        sectorId: 'S2',
+        tableIds: ['T6'],
+      });
+
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-any-sector-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          partySize: 5,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(201);
+      expect(booking.body.sectorId).toBe('S2');
+      expect(booking.body.tableIds).toEqual(['T6']);
+    });
+
+    it('should reject a sector preference with unknown sectors', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ sectorPreference: ['S2', 'S999'] })
+        .expect(404);
+    });
+  });
+
+  describe('17. Alternatives: Suggestions when there is no capacity', () => {
+    it('should suggest earlier, later and shorter options ranked by distance', async () => {
+      // B1 holds T2 until 21:15 and T3 is blacked out from 21:00
+      await request(app.getHttpServer())
+        .post('/api/woki/blackouts')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          tableIds: ['T3'],
+          date: '2025-10-22',
+          startTime: '21:00',
+          endTime: '23:45',
+          reason: 'PRIVATE_EVENT',
+        })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-alternatives-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 3,
+          durationMinutes: 45,
+          date: '2025-10-22',
+          windowStart: '20:30',
+          windowEnd: '21:15',
+        })
+        .expect(409);
+
+      expect(response.body.error).toBe('no_capacity');
+      expect(response.body.alternatives).toEqual([
+        {
+          reason: 'earlier',
+          kind: 'single',
+          sectorId: 'S1',
+          tableIds: ['T3'],
+          start: '2025-10-22T20:15:00-03:00',
+          end: '2025-10-22T21:00:00-03:00',
+          durationMinutes: 45,
+          distanceMinutes: 15,
+        },
+        {
+          reason: 'shorter_duration',
+          kind: 'single',
+          sectorId: 'S1',
+          tableIds: ['T3'],
+          start: '2025-10-22T20:30:00-03:00',
+          end: '2025-10-22T21:00:00-03:00',
+          durationMinutes: 30,
+          distanceMinutes: 15,
+        },
+        {
+          reason: 'later',
+          kind: 'single',
+          sectorId: 'S1',
+          tableIds: ['T2'],
+          start: '2025-10-22T21:15:00-03:00',
+          end: '2025-10-22T22:00:00-03:00',
+          durationMinutes: 45,
+          distanceMinutes: 45,
+        },
+      ]);
+    });
+
+    it('should return no alternatives when the party fits nowhere', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-no-alternatives-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 20,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '20:00',
+          windowEnd: '21:00',
+        })
+        .expect(409);
+
+      expect(response.body.alternatives).toEqual([]);
+    });
+  });
+
+  describe('18. Turn-time rules: Default duration by party size and daypart', () => {
+    const setRules = () =>
+      request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({
+          durationRules: [
+            {
+              minPartySize: 1,
+              maxPartySize: 2,
+              serviceWindowId: 'SW1',
+              durationMinutes: 90,
+            },
+            { minPartySize: 6, serviceWindowId: 'SW2', durationMinutes: 150 },
+            { minPartySize: 1, durationMinutes: 60 },
+          ],
+        })
+        .expect(200);
+
+    it('should resolve an omitted duration from the restaurant rules', async () => {
+      const settings = await setRules();
+      expect(settings.body.durationRules).toContainEqual({
+        minPartySize: 6,
+        maxPartySize: null,
+        serviceWindowId: 'SW2',
+        durationMinutes: 150,
+      });
+
+      const lunch = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          windowStart: '12:00',
+          windowEnd: '16:00',
+        })
+        .expect(200);
+      expect(lunch.body.durationMinutes).toBe(90);
+
+      const dinner = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-turn-time-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 6,
+          date: '2025-10-22',
+          windowStart: '20:00',
+          windowEnd: '23:45',
+        })
+        .expect(201);
+      expect(dinner.body.durationMinutes).toBe(150);
+
+      // Rules for every window apply when no window-specific rule matches
+      const fallback = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 4,
+          windowStart: '12:00',
+          windowEnd: '16:00',
+        })
+        .expect(200);
+      expect(fallback.body.durationMinutes).toBe(60);
+    });
+
+    it('should require a duration when no rule applies', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+        })
+        .expect(400);
+      expect(response.body.error).toBe('invalid_input');
+    });
+
+    it('should reject rules for unknown service windows', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({
+          durationRules: [
+            { minPartySize: 1, serviceWindowId: 'SW999', durationMinutes: 90 },
+          ],
+        })
+        .expect(404);
+    });
+  });
+
+  describe('19. Buffers: Cleanup time between bookings', () => {
+    // B1 holds T2 20:30-21:15
+    const t2Start = async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 45,
+          windowStart: '21:00',
+          windowEnd: '23:45',
+        })
+        .expect(200);
+      return response.body.candidates.find(
+        (c: { kind: string; tableIds: string[] }) =>
+          c.kind === 'single' && c.tableIds[0] === 'T2',
+      ).start;
+    };
+
+    it("should keep the restaurant's buffer free after each booking", async () => {
+      expect(await t2Start()).toBe('2025-10-22T21:15:00-03:00');
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ bufferMinutes: 15 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.bufferMinutes).toBe(15);
+        });
+
+      expect(await t2Start()).toBe('2025-10-22T21:30:00-03:00');
+
+      // The booking itself is not extended
+      const day = await request(app.getHttpServer())
+        .get('/api/woki/bookings/day')
+        .query({ restaurantId: 'R1', sectorId: 'S1', date: '2025-10-22' })
+        .expect(200);
+      expect(
+        day.body.items.find((b: { id: string }) => b.id === 'B1').end,
+      ).toBe('2025-10-22T21:15:00-03:00');
+    });
+
+    it("should let a table override the restaurant's buffer", async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ bufferMinutes: 15 })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/tables/T2')
+        .send({ bufferMinutes: 0 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.bufferMinutes).toBe(0);
+        });
+
+      expect(await t2Start()).toBe('2025-10-22T21:15:00-03:00');
+    });
+
+    it('should reject buffers off the slot grid', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ bufferMinutes: 10 })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/tables/T999')
+        .send({ bufferMinutes: 15 })
+        .expect(404);
+    });
+  });
+
+  describe('20. Pacing: Limits on arrivals per slot', () => {
+    // B1 (party of 3) arrives at 20:30
+    const earliestStart = async () => {
+      const response = await request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '20:30',
+          windowEnd: '22:00',
+        })
+        .expect(200);
+      return response.body.candidates
+        .map((c: { start: string }) => c.start)
+        .sort()[0];
+    };
+
+    it("should move arrivals out of a slot full under the restaurant's limit", async () => {
+      expect(await earliestStart()).toBe('2025-10-22T20:30:00-03:00');
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ pacing: { maxParties: 1 } })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.pacing).toEqual({ maxCovers: null, maxParties: 1 });
+        });
+
+      expect(await earliestStart()).toBe('2025-10-22T20:45:00-03:00');
+    });
+
+    it('should reject a booking that only fits in a full slot', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ pacing: { maxParties: 1 } })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'pacing-full-slot')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '20:30',
+          windowEnd: '21:30',
+        })
+        .expect(409);
+      expect(response.body.error).toBe('no_capacity');
+    });
+
+    it('should not count a rescheduled booking against its own slot', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ pacing: { maxParties: 1 } })
+        .expect(200);
+
+      // The only arrival at 12:00
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'pacing-reschedule')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '13:00',
+        })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.body.id}`)
+        .send({ durationMinutes: 90 })
+        .expect(200);
+      expect(response.body.start).toBe('2025-10-22T12:00:00-03:00');
+      expect(response.body.durationMinutes).toBe(90);
+    });
+
+    it('should serialize parallel arrivals at different minutes of one pacing window', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 5, pacing: { maxParties: 1 } })
+        .expect(200);
+
+      // 12:00 and 12:05 both fall in the 12:00-12:15 window
+      const book = (windowStart: string, windowEnd: string) =>
+        request(app.getHttpServer())
+          .post('/api/woki/bookings')
+          .set('Idempotency-Key', `pacing-parallel-${windowStart}`)
+          .send({
+            restaurantId: 'R1',
+            sectorId: 'S1',
+            partySize: 2,
+            durationMinutes: 60,
+            date: '2025-10-22',
+            windowStart,
+            windowEnd,
+          });
+      // Hold every table at both starts so each request gets past candidate
+      // selection before either booking is written
+      const tz = 'America/Argentina/Buenos_Aires';
+      const tableLocks = await Promise.all(
+        ['12:00', '12:05'].flatMap((time) =>
+          ['T1', 'T2', 'T3', 'T4', 'T5'].map((tableId) =>
+            lockManagerService.acquire(
+              `R1|S1|${tableId}|${zonedTimeToUtc(new Date(`2025-10-22T${time}:00`), tz).toISOString()}`,
+            ),
+          ),
+        ),
+      );
+      const pending = Promise.all([
+        book('12:00', '13:00'),
+        book('12:05', '13:05'),
+      ]);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      tableLocks.forEach((lock) => lock.release());
+      const responses = await pending;
+
+      expect(responses.map((res) => res.status).sort()).toEqual([201, 409]);
+      expect(responses.find((res) => res.status === 409)?.body.error).toBe(
+        'no_capacity',
+      );
+    });
+
+    it("should apply a sector's cover limit", async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/sectors/S1')
+        .send({ pacing: { maxCovers: 4 } })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.pacing).toEqual({ maxCovers: 4, maxParties: null });
+        });
+
+      // 3 + 2 covers would exceed the limit at 20:30
+      expect(await earliestStart()).toBe('2025-10-22T20:45:00-03:00');
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/sectors/S1')
+        .send({ pacing: null })
+        .expect(200);
+
+      expect(await earliestStart()).toBe('2025-10-22T20:30:00-03:00');
+    });
+
+    it('should validate pacing limits', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ pacing: { maxCovers: 0 } })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/sectors/S999')
+        .send({ pacing: { maxParties: 2 } })
+        .expect(404);
+    });
+  });
+
+  describe('21. Slot granularity: Per-restaurant grid for start times', () => {
+    // B1 holds T2 until 21:15
+    const discover = (query: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          windowStart: '21:00',
+          windowEnd: '23:40',
+          ...query,
+        });
+    const t2Start = (body: {
+      candidates: Array<{ kind: string; tableIds: string[]; start: string }>;
+    }) =>
+      body.candidates.find((c) => c.kind === 'single' && c.tableIds[0] === 'T2')
+        ?.start;
+
+    it("should snap candidate starts to the restaurant's grid", async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 10 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.slotMinutes).toBe(10);
+        });
+
+      const response = await discover({ duration: 50 }).expect(200);
+      expect(response.body.slotMinutes).toBe(10);
+      expect(t2Start(response.body)).toBe('2025-10-22T21:20:00-03:00');
+    });
+
+    it('should validate durations and window times against the grid', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 30 })
+        .expect(200);
+
+      const offGridDuration = await discover({
+        duration: 45,
+        windowEnd: '23:30',
+      }).expect(400);
+      expect(offGridDuration.body.detail).toBe(
+        'Duration must be a multiple of 30 minutes',
+      );
+
+      const offGridWindow = await discover({
+        duration: 60,
+        windowStart: '21:15',
+        windowEnd: '23:30',
+      }).expect(400);
+      expect(offGridWindow.body.detail).toBe(
+        'Window times must be on the 30-minute grid',
+      );
+
+      await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'slot-grid-off-grid')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 45,
+          date: '2025-10-22',
+          windowStart: '21:00',
+          windowEnd: '23:30',
+        })
+        .expect(400);
+    });
+
+    it('should change the party of a booking left off the grid by a grid change', async () => {
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `off-grid-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:15',
+          windowEnd: '13:15',
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 30 })
+        .expect(200);
+
+      // 12:15 is no longer a start: the booking moves within 12:00-13:30
+      const response = await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.body.id}`)
+        .send({ partySize: 3 })
+        .expect(200);
+      expect(response.body.partySize).toBe(3);
+      expect([
+        '2025-10-22T12:00:00-03:00',
+        '2025-10-22T12:30:00-03:00',
+      ]).toContain(response.body.start);
+    });
+
+    it('should reject grids that do not divide an hour or strand settings', async () => {
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 7 })
+        .expect(400);
+
+      // A 15-minute buffer is not whole 30-minute slots
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 30, bufferMinutes: 15 })
+        .expect(400);
+
+      // Same for a table's own buffer, which names the table
+      await request(app.getHttpServer())
+        .patch('/api/woki/tables/T3')
+        .send({ bufferMinutes: 15 })
+        .expect(200);
+      await request(app.getHttpServer())
+        .patch('/api/woki/restaurants/R1')
+        .send({ slotMinutes: 30 })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.error).toBe('invalid_input');
+          expect(res.body.detail).toContain('T3');
+        });
+    });
+  });
+
+  describe('22. Slot expansion: Bookable starts with cursor pagination', () => {
+    const discoverSlots = (query: Record<string, unknown> = {}) =>
+      request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '21:00',
+          windowEnd: '22:30',
+          mode: 'slots',
+          ...query,
+        });
+    type Slot = { tableIds: string[]; start: string; end: string };
+    const slotKey = (slot: Slot) => `${slot.tableIds.join('+')}@${slot.start}`;
+
+    it('should list every start that fits, each with the requested duration', async () => {
+      const response = await discoverSlots().expect(200);
+      const slots: Slot[] = response.body.candidates;
+
+      expect(response.body.nextCursor).toBeNull();
+      // T2 is held by B1 until 21:15
+      expect(
+        slots.filter((slot) => slot.tableIds[0] === 'T2').map((s) => s.start),
+      ).toEqual(['2025-10-22T21:15:00-03:00', '2025-10-22T21:30:00-03:00']);
+      for (const slot of slots) {
+        expect(
+          new Date(slot.end).getTime() - new Date(slot.start).getTime(),
+        ).toBe(60 * 60 * 1000);
+      }
+      // Ordered by start, without duplicates
+      const starts = slots.map((slot) => new Date(slot.start).getTime());
+      expect(starts).toEqual([...starts].sort((a, b) => a - b));
+      expect(new Set(slots.map(slotKey)).size).toBe(slots.length);
+    });
+
+    it('should page through the same slots with a cursor', async () => {
+      const all: Slot[] = (await discoverSlots().expect(200)).body.candidates;
+
+      const paged: Slot[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await discoverSlots({ limit: 4, cursor }).expect(200);
+        expect(response.body.candidates.length).toBeLessThanOrEqual(4);
+        paged.push(...response.body.candidates);
+        cursor = response.body.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(paged.map(slotKey)).toEqual(all.map(slotKey));
+    });
+
+    it('should reject invalid cursors', async () => {
+      await discoverSlots({ cursor: 'not-a-cursor' }).expect(400);
+      await discoverSlots({ mode: 'gaps', cursor: 'abc' }).expect(400);
+    });
+
+    it('should book only the requested duration out of a gap', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'slot-expansion-duration')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '21:00',
+          windowEnd: '22:30',
+        })
+        .expect(201);
+
+      expect(
+        new Date(response.body.end).getTime() -
+          new Date(response.body.start).getTime(),
+      ).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('23. Preferred time: Ranking by distance from a requested time', () => {
+    const discover = (query: Record<string, unknown> = {}) =>
+      request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '20:00',
+          windowEnd: '23:45',
+          ...query,
+        })
+        .expect(200);
+
+    it('should rank candidates starting closest to the preferred time first', async () => {
+      const earliest = await discover();
+      expect(earliest.body.candidates[0].start).toBe(
+        '2025-10-22T20:00:00-03:00',
+      );
+
+      const preferred = await discover({ preferredTime: '22:00' });
+      expect(preferred.body.candidates[0]).toMatchObject({
+        tableIds: ['T1'],
+        start: '2025-10-22T22:00:00-03:00',
+      });
+    });
+
+    it('should order expanded slots by distance from the preferred time', async () => {
+      const response = await discover({
+        mode: 'slots',
+        preferredTime: '21:40',
+      });
+      const starts: string[] = response.body.candidates.map(
+        (c: { start: string }) => c.start,
+      );
+      expect(starts[0]).toBe('2025-10-22T21:45:00-03:00');
+      expect(starts).toContain('2025-10-22T20:00:00-03:00');
+      expect(starts.indexOf('2025-10-22T21:30:00-03:00')).toBeLessThan(
+        starts.indexOf('2025-10-22T20:00:00-03:00'),
+      );
+    });
+
+    it('should book at the preferred time, tie-broken by table ID', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'preferred-time-booking')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '20:00',
+          windowEnd: '23:45',
+          preferredTime: '21:30',
+        })
+        .expect(201);
+
+      expect(response.body.tableIds).toEqual(['T1']);
+      expect(response.body.start).toBe('2025-10-22T21:30:00-03:00');
+      expect(response.body.end).toBe('2025-10-22T22:30:00-03:00');
+    });
+  });
+
+  describe('24. Table attributes: Required and preferred seating features', () => {
+    const setAttributes = (tableId: string, attributes: string[]) =>
+      request(app.getHttpServer())
+        .patch(`/api/woki/tables/${tableId}`)
+        .send({ attributes })
+        .expect(200);
+
+    const discover = (query: Record<string, unknown> = {}) =>
+      request(app.getHttpServer())
+        .get('/api/woki/discover')
+        .query({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          date: '2025-10-22',
+          partySize: 2,
+          duration: 60,
+          windowStart: '20:00',
+          windowEnd: '23:45',
+          ...query,
+        });
+
+    it('should store attributes per table and reject unknown ones', async () => {
+      const response = await setAttributes('T3', ['outdoor', 'quiet']);
+      expect(response.body.attributes).toEqual(['outdoor', 'quiet']);
+
+      await request(app.getHttpServer())
+        .patch('/api/woki/tables/T3')
+        .send({ attributes: ['rooftop'] })
+        .expect(400);
+      await request(app.getHttpServer())
+        .patch('/api/woki/tables/T3')
+        .send({ attributes: ['quiet', 'quiet'] })
+        .expect(400);
+    });
+
+    it('should only offer tables with every required attribute', async () => {
+      await setAttributes('T3', ['outdoor', 'quiet']);
+      await setAttributes('T5', ['outdoor']);
+
+      const response = await discover({ requiredAttributes: 'outdoor,quiet' });
+      expect(response.status).toBe(200);
+      expect(
+        response.body.candidates.map((c: { tableIds: string[] }) => c.tableIds),
+      ).toEqual([['T3']]);
+
+      await discover({ requiredAttributes: 'booth' }).expect(409);
+      await discover({ requiredAttributes: 'rooftop' }).expect(400);
+    });
+
+    it('should explain tables rejected for missing attributes', async () => {
+      await setAttributes('T3', ['window']);
+
+      const response = await discover({
+        requiredAttributes: 'window',
+        explain: 'true',
+      }).expect(200);
+      expect(response.body.explanation.rejectedTables).toContainEqual({
+        tableId: 'T1',
+        reasons: ['missing_attributes'],
+      });
+    });
+
+    it('should book the table matching the most preferred attributes', async () => {
+      await setAttributes('T5', ['window', 'quiet']);
+      await setAttributes('T1', ['window']);
+
+      const response = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'preferred-attributes-booking')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '20:00',
+          windowEnd: '23:45',
+          preferredAttributes: ['window', 'quiet'],
+        })
+        .expect(201);
+
+      expect(response.body.tableIds).toEqual(['T5']);
+    });
+
+    it('should reject bookings no table can satisfy', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'required-attributes-booking')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '20:00',
+          windowEnd: '23:45',
+          requiredAttributes: ['wheelchair-accessible'],
+        })
+        .expect(409);
+    });
+
+    it('should keep the required attributes when rescheduling', async () => {
+      await setAttributes('T1', ['outdoor']);
+      await setAttributes('T3', ['outdoor']);
+
+      const booking = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', 'required-attributes-reschedule')
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 60,
+          date: '2025-10-22',
+          windowStart: '12:00',
+          windowEnd: '13:00',
+          requiredAttributes: ['outdoor'],
+        })
+        .expect(201);
+      expect(booking.body.tableIds).toEqual(['T1']); // T1 seats at most 2
+
+      // T2 also seats 3, but is not outdoor
+      const response = await request(app.getHttpServer())
+        .patch(`/api/woki/bookings/${booking.body.id}`)
+        .send({ partySize: 3 })
+        .expect(200);
+      expect(response.body.tableIds).toEqual(['T3']);
+    });
+  });
+
   describe('Additional Test Cases', () => {
     describe('Validation Errors', () => {
       it('should return 400 for missing idempotency key', async () => {
@@ -0,0 +1,315 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { SeedService } from '../../src/woki/infrastructure/persistence/seed.service';
+import { DataSource } from 'typeorm';
+
+describe('WokiBrain Service Windows API (e2e)', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let seedService: SeedService;
+
+  beforeAll(async () => {
+    // Use a separate test database per test suite to avoid conflicts when running in parallel
+    process.env.DATABASE_PATH = 'woki-test-service-windows.db';
+    process.env.DROP_SCHEMA_ON_STARTUP = 'true';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    seedService = moduleFixture.get<SeedService>(SeedService);
+
+    // Set global prefix to match production
+    app.setGlobalPrefix('api', {
+      exclude: ['/'],
+    });
+
+    await app.init();
+
+    // Wait for database to be ready
+    let retries = 10;
+    while (retries > 0) {
+      try {
+        await dataSource.query('SELECT COUNT(*) FROM service_windows');
+        break;
+      } catch {
+        retries--;
+        if (retries === 0) {
+          throw new Error('Database tables not ready after initialization');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    }
+
+    // Seed database before tests
+    await seedService.seed();
+  });
+
+  afterAll(async () => {
+    // Clean up database
+    if (dataSource.isInitialized) {
+      await dataSource.dropDatabase();
+      await dataSource.destroy();
+    }
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    // Keep the seeded every-day windows SW1 (12:00-16:00) and SW2 (20:00-23:45)
+    if (dataSource && dataSource.isInitialized) {
+      try {
+        await dataSource.query(
+          `DELETE FROM service_windows WHERE id NOT IN ('SW1', 'SW2')`,
+        );
+        await dataSource.query(`DELETE FROM bookings WHERE id != 'B1'`);
+      } catch {
+        // Table might not exist yet, ignore
+      }
+    }
+  });
+
+  const discover = (query: Record<string, unknown> = {}) =>
+    request(app.getHttpServer())
+      .get('/api/woki/discover')
+      .query({
+        restaurantId: 'R1',
+        sectorId: 'S1',
+        date: '2025-10-22',
+        partySize: 2,
+        duration: 60,
+        ...query,
+      });
+
+  describe('1. CRUD', () => {
+    it('should create, list, update and delete a service window', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({
+          restaurantId: 'R1',
+          dayOfWeek: 5,
+          start: '16:00',
+          end: '18:00',
+        })
+        .expect(201);
+      expect(created.body.id).toMatch(/^SW_/);
+      expect(created.body.dayOfWeek).toBe(5);
+      expect(created.body.date).toBeNull();
+      expect(created.body.closed).toBe(false);
+
+      const list = await request(app.getHttpServer())
+        .get('/api/woki/service-windows')
+        .query({ restaurantId: 'R1' })
+        .expect(200);
+      expect(list.body.items.map((w: any) => w.id)).toEqual(
+        expect.arrayContaining(['SW1', 'SW2', created.body.id]),
+      );
+
+      const updated = await request(app.getHttpServer())
+        .patch(`/api/woki/service-windows/${created.body.id}`)
+        .send({ end: '19:00' })
+        .expect(200);
+      expect(updated.body.start).toBe('16:00');
+      expect(updated.body.end).toBe('19:00');
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/service-windows/${created.body.id}`)
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .delete(`/api/woki/service-windows/${created.body.id}`)
+        .expect(404);
+    });
+
+    it('should return 400 for invalid service windows', async () => {
+      const invalidBodies = [
+        // dayOfWeek and date are exclusive
+        { dayOfWeek: 1, date: '2025-10-22', start: '12:00', end: '14:00' },
+        // Only date overrides can be closed
+        { closed: true },
+        // start and end must differ
+        { start: '14:00', end: '14:00' },
+        // Off the 15-minute grid
+        { start: '12:10', end: '14:00' },
+        // Missing hours
+        { dayOfWeek: 1 },
+      ];
+
+      for (const body of invalidBodies) {
+        await request(app.getHttpServer())
+          .post('/api/woki/service-windows')
+          .send({ restaurantId: 'R1', ...body })
+          .expect(400)
+          .expect((res) => {
+            expect(res.body.error).toBe('invalid_input');
+          });
+      }
+    });
+
+    it('should return 404 for unknown restaurant', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({ restaurantId: 'R_UNKNOWN', start: '12:00', end: '14:00' })
+        .expect(404);
+    });
+  });
+
+  describe('2. Schedule resolution', () => {
+    it('should close the day with a closed date override', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({ restaurantId: 'R1', date: '2025-10-22', closed: true })
+        .expect(201);
+
+      await discover()
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.error).toBe('no_capacity');
+        });
+
+      await discover({ windowStart: '20:00', windowEnd: '22:00' })
+        .expect(422)
+        .expect((res) => {
+          expect(res.body.error).toBe('outside_service_window');
+        });
+
+      // Other days keep the regular hours
+      const nextDay = await discover({ date: '2025-10-23' }).expect(200);
+      expect(nextDay.body.candidates.length).toBeGreaterThan(0);
+    });
+
+    it('should use special hours from a date override', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({
+          restaurantId: 'R1',
+          date: '2025-10-22',
+          start: '17:00',
+          end: '19:00',
+        })
+        .expect(201);
+
+      const response = await discover().expect(200);
+      expect(response.body.candidates.length).toBeGreaterThan(0);
+      for (const candidate of response.body.candidates) {
+        expect(candidate.start >= '2025-10-22T17:00:00-03:00').toBe(true);
+        expect(candidate.end <= '2025-10-22T19:00:00-03:00').toBe(true);
+      }
+
+      // Regular lunch hours don't apply that day
+      await discover({ windowStart: '12:00', windowEnd: '13:00' }).expect(422);
+    });
+
+    it('should apply weekly rows only on their day of week', async () => {
+      // 2025-10-22 is a Wednesday (3); 2025-10-23 a Thursday
+      await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({
+          restaurantId: 'R1',
+          dayOfWeek: 3,
+          start: '17:00',
+          end: '19:00',
+        })
+        .expect(201);
+
+      await discover({ windowStart: '17:00', windowEnd: '19:00' }).expect(200);
+      await discover({
+        date: '2025-10-23',
+        windowStart: '17:00',
+        windowEnd: '19:00',
+      }).expect(422);
+    });
+  });
+
+  describe('3. Windows crossing midnight', () => {
+    beforeEach(async () => {
+      // Late-night hours on Wednesday only: 20:00 until 02:00 Thursday
+      await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({
+          restaurantId: 'R1',
+          date: '2025-10-22',
+          start: '20:00',
+          end: '02:00',
+        })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.start).toBe('20:00');
+          expect(res.body.end).toBe('02:00');
+        });
+    });
+
+    it('should discover slots after midnight on the same service day', async () => {
+      const response = await discover({
+        windowStart: '00:30',
+        windowEnd: '01:30',
+      }).expect(200);
+
+      expect(response.body.candidates.length).toBeGreaterThan(0);
+      expect(response.body.candidates[0].start).toBe(
+        '2025-10-23T00:30:00-03:00',
+      );
+
+      // The service day ends at 02:00
+      await discover({ windowStart: '02:00', windowEnd: '03:00' }).expect(422);
+    });
+
+    it('should book across midnight and list it under its service day', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/api/woki/bookings')
+        .set('Idempotency-Key', `test-overnight-${Date.now()}`)
+        .send({
+          restaurantId: 'R1',
+          sectorId: 'S1',
+          partySize: 2,
+          durationMinutes: 90,
+          date: '2025-10-22',
+          windowStart: '23:30',
+          windowEnd: '01:00',
+        })
+        .expect(201);
+
+      expect(created.body.start).toBe('2025-10-22T23:30:00-03:00');
+      expect(created.body.end).toBe('2025-10-23T01:00:00-03:00');
+
+      const listBookings = (date: string) =>
+        request(app.getHttpServer())
+          .get('/api/woki/bookings/day')
+          .query({ restaurantId: 'R1', sectorId: 'S1', date })
+          .expect(200);
+
+      const wednesday = await listBookings('2025-10-22');
+      expect(
+        wednesday.body.items.map((item: { id: string }) => item.id),
+      ).toContain(created.body.id);
+
+      const thursday = await listBookings('2025-10-23');
+      expect(
+        thursday.body.items.map((item: { id: string }) => item.id),
+      ).not.toContain(created.body.id);
+
+      // The after-midnight part of the table is taken
+      const table = created.body.tableIds[0];
+      const response = await discover({
+        windowStart: '00:00',
+        windowEnd: '01:00',
+      }).expect(200);
+      expect(
+        response.body.candidates.some(
+          (c: { tableIds: string[] }) =>
+            c.tableIds.length === 1 && c.tableIds[0] === table,
+        ),
+      ).toBe(false);
+    });
+
+    it('should reject identical start and end', async () => {
+      await request(app.getHttpServer())
+        .post('/api/woki/service-windows')
+        .send({ restaurantId: 'R1', start: '20:00', end: '20:00' })
+        .expect(400);
+    });
+  });
+});